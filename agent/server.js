@@ -0,0 +1,214 @@
+// Local scanning agent: performs HTTP requests on behalf of the browser UI so targets
+// never pass through a third-party CORS proxy. Binds to localhost only.
+//
+//   npm run agent                         # port 8787, random token printed at startup
+//   VULNSCAN_AGENT_PORT=9000 VULNSCAN_AGENT_TOKEN=secret npm run agent
+import http from 'node:http';
+import https from 'node:https';
+import { randomBytes } from 'node:crypto';
+
+const VERSION = '1.0.0';
+const HOST = process.env.VULNSCAN_AGENT_HOST || '127.0.0.1';
+const PORT = Number(process.env.VULNSCAN_AGENT_PORT) || 8787;
+// Every caller must present this token, so other pages in the browser cannot use the agent
+const TOKEN = process.env.VULNSCAN_AGENT_TOKEN || randomBytes(16).toString('hex');
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const MAX_REQUEST_BYTES = 10 * 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 10000;
+// Never sent on to another origin when following a redirect, as browsers and fetch do
+const CREDENTIAL_HEADERS = ['authorization', 'proxy-authorization', 'cookie'];
+
+class AgentError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'AgentError';
+    this.code = code;
+  }
+}
+
+const sendJSON = (res, status, payload) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+const setCorsHeaders = (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Agent-Token');
+  res.setHeader('Access-Control-Max-Age', '600');
+  res.setHeader('Vary', 'Origin');
+};
+
+const readJSON = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', (chunk) => {
+    size += chunk.length;
+    if (size > MAX_REQUEST_BYTES) {
+      reject(new AgentError('EREQUESTTOOLARGE', 'Request payload is too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+    } catch (error) {
+      reject(new AgentError('EBADJSON', 'Request payload is not valid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const elapsed = (start) => Math.round(Number(process.hrtime.bigint() - start) / 1e4) / 100;
+
+// One hop: no redirect handling, timings measured from the socket events
+const sendOnce = (target, options, signal) => new Promise((resolve, reject) => {
+  const client = target.protocol === 'https:' ? https : http;
+  const start = process.hrtime.bigint();
+  const timings = {};
+
+  const hasBody = options.body !== undefined && options.body !== null;
+  const headers = hasBody && !Object.keys(options.headers).some(name => name.toLowerCase() === 'content-length')
+    ? { ...options.headers, 'Content-Length': Buffer.byteLength(options.body) }
+    : options.headers;
+
+  const req = client.request(target, {
+    method: options.method,
+    headers,
+    rejectUnauthorized: !options.insecure,
+    signal
+  });
+
+  req.setTimeout(options.timeoutMs, () => {
+    req.destroy(new AgentError('ETIMEDOUT', `Timeout of ${options.timeoutMs}ms exceeded`));
+  });
+
+  req.on('socket', (socket) => {
+    socket.once('lookup', () => { timings.dns = elapsed(start); });
+    socket.once('connect', () => { timings.connect = elapsed(start); });
+    socket.once('secureConnect', () => { timings.tls = elapsed(start); });
+  });
+
+  req.on('response', (response) => {
+    timings.ttfb = elapsed(start);
+    const chunks = [];
+    let size = 0;
+    let truncated = false;
+    response.on('data', (chunk) => {
+      if (size >= MAX_BODY_BYTES) {
+        truncated = true;
+        return;
+      }
+      chunks.push(chunk);
+      size += chunk.length;
+    });
+    response.on('end', () => {
+      timings.total = elapsed(start);
+      resolve({
+        status: response.statusCode,
+        statusText: response.statusMessage,
+        headers: response.headers,
+        rawHeaders: response.rawHeaders,
+        body: Buffer.concat(chunks).subarray(0, MAX_BODY_BYTES).toString('utf8'),
+        bodyTruncated: truncated,
+        timings
+      });
+    });
+    response.on('error', reject);
+  });
+
+  req.on('error', reject);
+  req.end(options.body ?? undefined);
+});
+
+const performRequest = async (payload, signal) => {
+  let target;
+  try {
+    target = new URL(payload.url);
+  } catch (error) {
+    throw new AgentError('EINVALIDURL', `Invalid URL: ${payload.url}`);
+  }
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    throw new AgentError('EINVALIDURL', `Unsupported protocol: ${target.protocol}`);
+  }
+
+  let method = (payload.method || 'GET').toUpperCase();
+  let body = payload.body;
+  const headers = { ...(payload.headers || {}) };
+  const maxRedirects = Number.isInteger(payload.maxRedirects) ? payload.maxRedirects : 0;
+  const timeoutMs = payload.timeoutMs > 0 ? payload.timeoutMs : DEFAULT_TIMEOUT_MS;
+  const redirects = [];
+  const origin = target.origin;
+  // Plus the headers the UI's auth profile added, such as API keys
+  const credentialHeaders = [...CREDENTIAL_HEADERS, ...(payload.credentialHeaders || []).map(name => String(name).toLowerCase())];
+
+  for (;;) {
+    const response = await sendOnce(target, { method, headers, body, timeoutMs, insecure: payload.insecure }, signal);
+    const location = response.headers.location;
+    if (response.status < 300 || response.status >= 400 || !location || redirects.length >= maxRedirects) {
+      return { ...response, url: target.toString(), redirects };
+    }
+
+    redirects.push({ status: response.status, url: target.toString(), location });
+    target = new URL(location, target);
+    if (target.origin !== origin) {
+      Object.keys(headers).filter(name => credentialHeaders.includes(name.toLowerCase())).forEach((name) => {
+        delete headers[name];
+      });
+    }
+    // Browsers turn 301/302/303 into GET without a body; 307/308 replay the request
+    if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === 'POST')) {
+      method = 'GET';
+      body = undefined;
+      delete headers['Content-Length'];
+      delete headers['content-length'];
+    }
+  }
+};
+
+const handleRequest = async (req, res) => {
+  const controller = new AbortController();
+  // The UI aborting its fetch closes the connection; stop the upstream request too
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const payload = await readJSON(req);
+    const result = await performRequest(payload, controller.signal);
+    sendJSON(res, 200, result);
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    sendJSON(res, 502, { error: { code: error.code || 'EREQUEST', message: error.message } });
+  }
+};
+
+const server = http.createServer((req, res) => {
+  setCorsHeaders(req, res);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const { pathname } = new URL(req.url, `http://${req.headers.host || HOST}`);
+  if (req.headers['x-agent-token'] !== TOKEN) {
+    sendJSON(res, 401, { error: { code: 'EUNAUTHORIZED', message: 'Missing or invalid agent token' } });
+    return;
+  }
+
+  if (req.method === 'GET' && pathname === '/health') {
+    sendJSON(res, 200, { ok: true, version: VERSION });
+  } else if (req.method === 'POST' && pathname === '/request') {
+    handleRequest(req, res);
+  } else {
+    sendJSON(res, 404, { error: { code: 'ENOROUTE', message: `No route for ${req.method} ${pathname}` } });
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`VulnScan agent ${VERSION} listening on http://${HOST}:${PORT}`);
+  console.log(`Agent token: ${TOKEN}`);
+});
@@ -0,0 +1,121 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { Assertion, AssertionOperator, AssertionType } from '@/lib/models';
+import { ASSERTION_OPERATOR_LABELS, ASSERTION_OPERATORS, ASSERTION_TYPE_LABELS } from '@/lib/scan';
+
+const TARGET_PLACEHOLDERS: Partial<Record<AssertionType, string>> = {
+  header: 'Header name, e.g. Content-Type',
+  jsonPath: '$.data.items[0].id',
+  xPath: '//title',
+};
+
+const EXPECTED_PLACEHOLDERS: Record<AssertionType, string> = {
+  status: '200, 201, 300-399',
+  header: 'Expected value',
+  jsonPath: 'Expected value',
+  xPath: 'Expected value',
+  bodyRegex: 'Regular expression',
+  jsonSchema: '{"type": "object", "required": ["id"]}',
+  responseTime: 'Maximum milliseconds',
+};
+
+const needsExpected = (assertion: Assertion) =>
+  ASSERTION_OPERATORS[assertion.type].length === 0 || (assertion.operator !== 'exists' && assertion.operator !== 'notExists');
+
+interface AssertionEditorProps {
+  assertions: Assertion[];
+  onChange: (assertions: Assertion[]) => void;
+}
+
+export const AssertionEditor = ({ assertions, onChange }: AssertionEditorProps) => {
+  const update = (id: string, changes: Partial<Assertion>) =>
+    onChange(assertions.map(assertion => assertion.id === id ? { ...assertion, ...changes } : assertion));
+
+  const changeType = (id: string, type: AssertionType) => {
+    const operators = ASSERTION_OPERATORS[type];
+    update(id, { type, operator: operators[0] || 'equals' });
+  };
+
+  const addAssertion = () => onChange([
+    ...assertions,
+    { id: Date.now().toString(), type: 'status', target: '', operator: 'equals', expected: '' }
+  ]);
+
+  return (
+    <div className="space-y-2">
+      {assertions.length === 0 && (
+        <p className="text-xs text-muted-foreground">No assertions. The expected status code and response pattern above still apply.</p>
+      )}
+      {assertions.map((assertion) => {
+        const operators = ASSERTION_OPERATORS[assertion.type];
+        return (
+          <div key={assertion.id} className="flex flex-wrap items-start gap-2 p-2 border border-border rounded-lg">
+            <Select value={assertion.type} onValueChange={(value) => changeType(assertion.id, value as AssertionType)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ASSERTION_TYPE_LABELS).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {TARGET_PLACEHOLDERS[assertion.type] && (
+              <Input
+                className="w-56 font-mono"
+                value={assertion.target}
+                onChange={(e) => update(assertion.id, { target: e.target.value })}
+                placeholder={TARGET_PLACEHOLDERS[assertion.type]}
+              />
+            )}
+            {operators.length > 1 && (
+              <Select value={assertion.operator} onValueChange={(value) => update(assertion.id, { operator: value as AssertionOperator })}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {operators.map((operator) => (
+                    <SelectItem key={operator} value={operator}>{ASSERTION_OPERATOR_LABELS[operator]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {needsExpected(assertion) && (
+              assertion.type === 'jsonSchema' ? (
+                <Textarea
+                  className="flex-1 min-w-[16rem] font-mono text-xs"
+                  value={assertion.expected}
+                  onChange={(e) => update(assertion.id, { expected: e.target.value })}
+                  placeholder={EXPECTED_PLACEHOLDERS.jsonSchema}
+                  rows={3}
+                />
+              ) : (
+                <Input
+                  className="flex-1 min-w-[10rem] font-mono"
+                  value={assertion.expected}
+                  onChange={(e) => update(assertion.id, { expected: e.target.value })}
+                  placeholder={EXPECTED_PLACEHOLDERS[assertion.type]}
+                />
+              )
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(assertions.filter(a => a.id !== assertion.id))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+      <Button type="button" variant="outline" size="sm" onClick={addAssertion}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Assertion
+      </Button>
+    </div>
+  );
+};
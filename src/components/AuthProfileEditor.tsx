@@ -0,0 +1,196 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { AuthProfile, AuthType } from '@/lib/models';
+import { AUTH_TYPE_LABELS } from '@/lib/scan';
+import { hasSecretReferences } from '@/lib/secrets';
+
+interface ProfileField {
+  field: keyof AuthProfile;
+  placeholder: string;
+  // Should be a {{secret:name}} reference rather than a literal value
+  secret?: boolean;
+  multiline?: boolean;
+}
+
+const TYPE_FIELDS: Record<AuthType, ProfileField[]> = {
+  basic: [
+    { field: 'username', placeholder: 'Username' },
+    { field: 'password', placeholder: 'Password, e.g. {{secret:admin-password}}', secret: true },
+  ],
+  bearer: [
+    { field: 'token', placeholder: 'Token, e.g. {{secret:api-token}}', secret: true },
+  ],
+  apiKey: [
+    { field: 'apiKeyName', placeholder: 'Header or query parameter, e.g. X-API-Key' },
+    { field: 'apiKeyValue', placeholder: 'Key, e.g. {{secret:api-key}}', secret: true },
+  ],
+  cookieLogin: [
+    { field: 'loginUrl', placeholder: '{{baseUrl}}/login' },
+    { field: 'loginMethod', placeholder: 'POST' },
+    { field: 'loginHeaders', placeholder: '{"Content-Type": "application/json"}', multiline: true },
+    { field: 'loginBody', placeholder: '{"username": "scanner", "password": "{{secret:scanner-password}}"}', secret: true, multiline: true },
+  ],
+  oauth2ClientCredentials: [
+    { field: 'tokenUrl', placeholder: 'https://auth.example.com/oauth/token' },
+    { field: 'clientId', placeholder: 'Client ID' },
+    { field: 'clientSecret', placeholder: 'Client secret, e.g. {{secret:client-secret}}', secret: true },
+    { field: 'scope', placeholder: 'Scope (optional)' },
+  ],
+  oauth2Password: [
+    { field: 'tokenUrl', placeholder: 'https://auth.example.com/oauth/token' },
+    { field: 'clientId', placeholder: 'Client ID' },
+    { field: 'clientSecret', placeholder: 'Client secret (optional)', secret: true },
+    { field: 'username', placeholder: 'Username' },
+    { field: 'password', placeholder: 'Password, e.g. {{secret:user-password}}', secret: true },
+    { field: 'scope', placeholder: 'Scope (optional)' },
+  ],
+  hmac: [
+    { field: 'hmacKeyId', placeholder: 'Key ID (optional)' },
+    { field: 'hmacSecret', placeholder: 'Signing secret, e.g. {{secret:hmac-key}}', secret: true },
+    { field: 'hmacHeader', placeholder: 'Signature header, e.g. Authorization' },
+  ],
+};
+
+const TYPE_HINTS: Partial<Record<AuthType, string>> = {
+  cookieLogin: 'Cookies set by the login response are sent with every request. Needs the local agent transport, since browsers hide Set-Cookie.',
+  hmac: 'Signs METHOD, path with query, a Unix timestamp and the hex SHA-256 of the body, one per line. The timestamp is sent in X-Signature-Timestamp.',
+};
+
+interface AuthProfileEditorProps {
+  profiles: AuthProfile[];
+  defaultProfileId?: string;
+  onChange: (profiles: AuthProfile[], defaultProfileId?: string) => void;
+}
+
+export const AuthProfileEditor = ({ profiles, defaultProfileId, onChange }: AuthProfileEditorProps) => {
+  const defaultId = profiles.some(p => p.id === defaultProfileId) ? defaultProfileId : undefined;
+
+  const update = (id: string, changes: Partial<AuthProfile>) =>
+    onChange(profiles.map(profile => profile.id === id ? { ...profile, ...changes } : profile), defaultId);
+
+  const addProfile = () => onChange([
+    ...profiles,
+    {
+      id: Date.now().toString(),
+      name: '',
+      type: 'bearer',
+      apiKeyIn: 'header',
+      loginMethod: 'POST',
+      hmacAlgorithm: 'SHA-256',
+      hmacHeader: 'Authorization'
+    }
+  ], defaultId);
+
+  const removeProfile = (id: string) =>
+    onChange(profiles.filter(profile => profile.id !== id), defaultId === id ? undefined : defaultId);
+
+  const hasLiteralSecret = (profile: AuthProfile) =>
+    TYPE_FIELDS[profile.type].some(({ field, secret }) => {
+      const value = String(profile[field] ?? '');
+      return secret && value.trim() && !hasSecretReferences(value);
+    });
+
+  return (
+    <div className="space-y-2">
+      {profiles.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          No auth profiles. Endpoints send only the headers configured on them.
+        </p>
+      )}
+      {profiles.map((profile) => (
+        <div key={profile.id} className="space-y-2 p-3 border border-border rounded-lg">
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              className="w-48"
+              value={profile.name}
+              onChange={(e) => update(profile.id, { name: e.target.value })}
+              placeholder="e.g., Admin user"
+            />
+            <Select value={profile.type} onValueChange={(value) => update(profile.id, { type: value as AuthType })}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(AUTH_TYPE_LABELS).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {profile.type === 'apiKey' && (
+              <Select value={profile.apiKeyIn} onValueChange={(value) => update(profile.id, { apiKeyIn: value as AuthProfile['apiKeyIn'] })}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="header">Header</SelectItem>
+                  <SelectItem value="query">Query</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            {profile.type === 'hmac' && (
+              <Select value={profile.hmacAlgorithm} onValueChange={(value) => update(profile.id, { hmacAlgorithm: value as AuthProfile['hmacAlgorithm'] })}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="SHA-256">SHA-256</SelectItem>
+                  <SelectItem value="SHA-512">SHA-512</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            {profile.id === defaultId ? (
+              <Button type="button" variant="ghost" size="sm" onClick={() => onChange(profiles, undefined)}>
+                <Badge variant="secondary">Project default</Badge>
+              </Button>
+            ) : (
+              <Button type="button" variant="ghost" size="sm" onClick={() => onChange(profiles, profile.id)}>
+                Make Default
+              </Button>
+            )}
+            <Button type="button" variant="ghost" size="sm" className="ml-auto" onClick={() => removeProfile(profile.id)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {TYPE_FIELDS[profile.type].map(({ field, placeholder, multiline }) => (
+              multiline ? (
+                <Textarea
+                  key={field}
+                  className="font-mono text-xs md:col-span-2"
+                  value={String(profile[field] ?? '')}
+                  onChange={(e) => update(profile.id, { [field]: e.target.value })}
+                  placeholder={placeholder}
+                  rows={2}
+                />
+              ) : (
+                <Input
+                  key={field}
+                  className="font-mono"
+                  value={String(profile[field] ?? '')}
+                  onChange={(e) => update(profile.id, { [field]: e.target.value })}
+                  placeholder={placeholder}
+                />
+              )
+            ))}
+          </div>
+          {TYPE_HINTS[profile.type] && (
+            <p className="text-xs text-muted-foreground">{TYPE_HINTS[profile.type]}</p>
+          )}
+          {hasLiteralSecret(profile) && (
+            <p className="text-xs text-warning">
+              This profile contains a credential in plain text. Store it in the secret vault (Workspace tab) and reference it as {'{{secret:name}}'} instead.
+            </p>
+          )}
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={addProfile}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Auth Profile
+      </Button>
+    </div>
+  );
+};
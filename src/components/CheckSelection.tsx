@@ -0,0 +1,56 @@
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { CheckOverrides } from '@/lib/models';
+import { getChecks, isActiveCheck, isCheckEnabled, OWASP_TOP_10 } from '@/lib/scan';
+import { SeverityBadge } from './ResultFindings';
+
+interface CheckSelectionProps {
+  overrides?: CheckOverrides;
+  onChange: (overrides: CheckOverrides) => void;
+  // Selections this one is layered on top of, e.g. the project's for a scan
+  inherited?: CheckOverrides[];
+  inheritedFrom: string;
+}
+
+export const CheckSelection = ({ overrides = {}, onChange, inherited = [], inheritedFrom }: CheckSelectionProps) => {
+  // Only differences from the inherited selection are stored, so later changes upstream still apply
+  const toggle = (id: string, enabled: boolean, inheritedEnabled: boolean) => {
+    const next = { ...overrides, [id]: enabled };
+    if (enabled === inheritedEnabled) delete next[id];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {getChecks().map((check) => {
+        const inheritedEnabled = isCheckEnabled(check, ...inherited);
+        const enabled = overrides[check.id] ?? inheritedEnabled;
+        return (
+          <div key={check.id} className="flex items-start gap-3 p-2 border border-border rounded-lg">
+            <Switch
+              id={`check-${check.id}`}
+              checked={enabled}
+              onCheckedChange={(checked) => toggle(check.id, checked, inheritedEnabled)}
+            />
+            <label htmlFor={`check-${check.id}`} className="flex-1 space-y-1 text-sm cursor-pointer">
+              <div className="flex flex-wrap items-center gap-2">
+                <SeverityBadge severity={check.severity} />
+                <span className="font-medium">{check.title}</span>
+                {isActiveCheck(check) && <Badge variant="outline" className="text-xs text-destructive border-destructive">Active</Badge>}
+                {check.cwe && <span className="text-xs font-mono text-muted-foreground">{check.cwe}</span>}
+                {check.owasp && (
+                  <span className="text-xs font-mono text-muted-foreground" title={OWASP_TOP_10[check.owasp]}>
+                    OWASP {check.owasp}
+                  </span>
+                )}
+                {check.id in overrides && <span className="text-xs text-warning">changed</span>}
+              </div>
+              <p className="text-xs text-muted-foreground">{check.remediation}</p>
+            </label>
+          </div>
+        );
+      })}
+      <p className="text-xs text-muted-foreground">Unchanged checks follow the {inheritedFrom}.</p>
+    </div>
+  );
+};
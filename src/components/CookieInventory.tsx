@@ -0,0 +1,70 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Cookie } from 'lucide-react';
+import { ObservedCookie, Project, TestResult } from '@/lib/models';
+import { getCookieInventory } from '@/lib/cookie-inventory';
+
+interface CookieInventoryProps {
+  projects: Project[];
+  testResults: TestResult[];
+}
+
+const describeAttributes = (cookie: ObservedCookie) => [
+  cookie.secure && 'Secure',
+  cookie.httpOnly && 'HttpOnly',
+  cookie.sameSite && `SameSite=${cookie.sameSite}`,
+  cookie.domain && `Domain=${cookie.domain}`,
+  cookie.path && `Path=${cookie.path}`,
+  cookie.lifetime !== undefined ? `Max-Age=${cookie.lifetime}` : 'Session',
+].filter(Boolean).join('; ');
+
+export const CookieInventory = ({ projects, testResults }: CookieInventoryProps) => {
+  const inventories = projects
+    .map(project => ({ project, cookies: getCookieInventory(project, testResults) }))
+    .filter(({ cookies }) => cookies.length > 0);
+
+  return (
+    <Card className="card-cyan">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Cookie className="h-5 w-5 text-primary" />
+          Cookie Inventory
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {inventories.length === 0 ? (
+          <div className="text-center py-8">
+            <Cookie className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No cookies seen yet</p>
+            <p className="text-sm text-muted-foreground">Browsers hide Set-Cookie headers; scan through the local agent transport to record them</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {inventories.map(({ project, cookies }) => (
+              <div key={project.id} className="space-y-2">
+                <span className="font-semibold">{project.name}</span>
+                <ul className="space-y-2">
+                  {cookies.map((entry) => (
+                    <li key={entry.name} className="p-2 border border-border rounded-lg text-sm space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono font-medium">{entry.name}</span>
+                        {entry.session && <Badge variant="outline" className="text-xs">Session</Badge>}
+                        <span className="ml-auto text-xs text-muted-foreground">{entry.setters.length} endpoint(s)</span>
+                      </div>
+                      {entry.setters.map((setter) => (
+                        <div key={setter.endpointKey} className="flex flex-wrap items-center gap-2 text-xs">
+                          <span className="font-mono">{setter.method} {setter.endpointName}</span>
+                          <span className="font-mono text-muted-foreground">{describeAttributes(setter.cookie)}</span>
+                        </div>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
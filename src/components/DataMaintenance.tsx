@@ -0,0 +1,123 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Wrench, Search, CheckCircle, AlertTriangle, Trash2, FolderInput } from 'lucide-react';
+import { toast } from 'sonner';
+import { Project } from '@/lib/models';
+import { deleteOrphans, findOrphans, OrphanReport, reassignOrphans } from '@/lib/trash';
+import { useStoredData, useStorageVersion } from '@/hooks/use-stored-data';
+
+export const DataMaintenance = () => {
+  const [projects] = useStoredData<Project[]>('projects', []);
+  const [report, setReport] = useState<OrphanReport | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [targetProjectId, setTargetProjectId] = useState('');
+  const dataVersion = useStorageVersion(['projects', 'endpoints', 'testResults', 'scanRuns', 'portScans', 'runStats']);
+
+  const scanForOrphans = async () => {
+    setIsScanning(true);
+    try {
+      setReport(await findOrphans());
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  // Keep an open report current when data changes, here or in another tab
+  useEffect(() => {
+    if (dataVersion > 0) {
+      findOrphans().then(next => setReport(current => current && next));
+    }
+  }, [dataVersion]);
+
+  const handleDelete = async () => {
+    if (!report) return;
+    if (await deleteOrphans(report)) {
+      toast.success(`Deleted ${report.total} orphaned records`);
+    }
+  };
+
+  const handleReassign = async () => {
+    if (!report || !targetProjectId) return;
+    if (await reassignOrphans(report, targetProjectId)) {
+      toast.success(`Moved ${report.total} records to ${projects.find(p => p.id === targetProjectId)?.name}`);
+    }
+  };
+
+  return (
+    <Card className="card-cyan">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wrench className="h-5 w-5 text-primary" />
+          Data Maintenance
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Finds endpoints, test results, scan runs and port scans that belong to a project which no longer exists.
+        </p>
+        <Button variant="outline" onClick={scanForOrphans} disabled={isScanning}>
+          <Search className="h-4 w-4 mr-2" />
+          {isScanning ? 'Scanning...' : 'Find Orphaned Records'}
+        </Button>
+
+        {report && (report.total === 0 ? (
+          <div className="flex items-center gap-2 text-success">
+            <CheckCircle className="h-4 w-4" />
+            No orphaned records found
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-warning">
+              <AlertTriangle className="h-4 w-4" />
+              {report.total} orphaned records found
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {([
+                ['Endpoints', report.endpoints.length],
+                ['Test results', report.testResults.length],
+                ['Scan runs', report.scanRuns.length],
+                ['Port scans', report.portScans.length],
+                ['Compacted runs', report.runStats.length],
+              ] as const).map(([label, count]) => (
+                <div key={label} className="text-center p-3 border border-border rounded-lg bg-muted/30">
+                  <div className="text-2xl font-bold text-primary">{count}</div>
+                  <div className="text-xs text-muted-foreground">{label}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Assign to project</Label>
+              <div className="flex gap-2">
+                <Select value={targetProjectId} onValueChange={setTargetProjectId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a project to adopt these records..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {projects.map((project) => (
+                      <SelectItem key={project.id} value={project.id}>
+                        {project.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" onClick={handleReassign} disabled={!targetProjectId}>
+                  <FolderInput className="h-4 w-4 mr-2" />
+                  Assign
+                </Button>
+              </div>
+            </div>
+
+            <Button variant="destructive" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete Orphaned Records
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
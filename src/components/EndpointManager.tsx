@@ -6,29 +6,35 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { Trash2, Edit, Plus, Target, FolderOpen } from 'lucide-react';
-import { getStoredData, saveStoredData } from '@/lib/storage';
+import { saveStoredData } from '@/lib/storage';
 import { getSessionData, saveSessionData, SESSION_KEYS } from '@/lib/session';
 import { useToast } from '@/components/ui/use-toast';
-import { ProjectManager, Project } from './ProjectManager';
+import { ProjectManager } from './ProjectManager';
+import { Assertion, Endpoint, Extractor, Priority, Project, RequestPolicy } from '@/lib/models';
+import { useStoredData } from '@/hooks/use-stored-data';
+import { trashEndpoint } from '@/lib/trash';
+import { hasLiteralCredentials } from '@/lib/secrets';
+import { describeVariableSources, getAssertionProblem, getExtractorProblem, NO_AUTH_PROFILE, resolveRequestPolicy } from '@/lib/scan';
+import { RequestPolicyFields } from './RequestPolicyFields';
+import { AssertionEditor } from './AssertionEditor';
+import { ExtractorEditor } from './ExtractorEditor';
 
-interface Endpoint {
-  id: string;
-  name: string;
-  url: string;
-  method: string;
-  headers?: string;
-  body?: string;
-  description?: string;
-  category: string;
-  priority: 'low' | 'medium' | 'high' | 'critical';
-  projectId: string;
-  expectedStatusCode?: number;
-  expectedResponse?: string;
-}
+// Select value for endpoints without a profile of their own
+const INHERIT_AUTH = 'inherit';
 
 export const EndpointManager = () => {
-  const [endpoints, setEndpoints] = useState<Endpoint[]>([]);
+  const [endpoints, setEndpoints] = useStoredData<Endpoint[]>('endpoints', []);
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -41,10 +47,15 @@ export const EndpointManager = () => {
     body: '',
     description: '',
     category: 'Authentication',
-    priority: 'medium' as 'low' | 'medium' | 'high' | 'critical',
+    priority: 'medium' as Priority,
     expectedStatusCode: 200,
-    expectedResponse: ''
+    expectedResponse: '',
+    assertions: [] as Assertion[],
+    extractors: [] as Extractor[],
+    authProfileId: undefined as string | undefined,
+    requestPolicy: {} as RequestPolicy
   });
+  const [pendingDelete, setPendingDelete] = useState<Endpoint | null>(null);
   const { toast } = useToast();
 
   const categories = [
@@ -61,8 +72,6 @@ export const EndpointManager = () => {
   ];
 
   useEffect(() => {
-    const storedEndpoints = getStoredData('endpoints', []);
-    setEndpoints(storedEndpoints);
     
     // Load last selected project from session
     const sessionProject = getSessionData(SESSION_KEYS.SELECTED_PROJECT, null);
@@ -116,6 +125,26 @@ export const EndpointManager = () => {
       return;
     }
 
+    const assertionProblem = getAssertionProblem(formData.assertions);
+    if (assertionProblem) {
+      toast({
+        title: "Validation Error",
+        description: assertionProblem,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const extractorProblem = getExtractorProblem(formData.extractors);
+    if (extractorProblem) {
+      toast({
+        title: "Validation Error",
+        description: extractorProblem,
+        variant: "destructive"
+      });
+      return;
+    }
+
     if (editingId) {
       const updatedEndpoints = endpoints.map(endpoint =>
         endpoint.id === editingId ? { ...endpoint, ...formData, projectId: selectedProject.id } : endpoint
@@ -152,7 +181,11 @@ export const EndpointManager = () => {
       category: 'Authentication',
       priority: 'medium',
       expectedStatusCode: 200,
-      expectedResponse: ''
+      expectedResponse: '',
+      assertions: [],
+      extractors: [],
+      authProfileId: undefined,
+      requestPolicy: {}
     });
     setIsEditing(false);
     setEditingId(null);
@@ -169,18 +202,54 @@ export const EndpointManager = () => {
       category: endpoint.category,
       priority: endpoint.priority,
       expectedStatusCode: endpoint.expectedStatusCode || 200,
-      expectedResponse: endpoint.expectedResponse || ''
+      expectedResponse: endpoint.expectedResponse || '',
+      assertions: endpoint.assertions || [],
+      extractors: endpoint.extractors || [],
+      authProfileId: endpoint.authProfileId,
+      requestPolicy: endpoint.requestPolicy || {}
     });
     setIsEditing(true);
     setEditingId(endpoint.id);
   };
 
-  const handleDelete = (id: string) => {
-    const updatedEndpoints = endpoints.filter(endpoint => endpoint.id !== id);
-    saveEndpoints(updatedEndpoints);
+  // Variables the endpoint extracts, and those it uses without an environment defining them, with their providers
+  const renderVariables = (endpoint: Endpoint) => {
+    const projectEndpoints = endpoints.filter(e => e.projectId === endpoint.projectId);
+    const environmentNames = new Set((selectedProject?.environments || []).flatMap(e => e.variables.map(variable => variable.name)));
+    const sources = describeVariableSources(endpoint, projectEndpoints)
+      .filter(({ name, provider }) => provider || !environmentNames.has(name));
+    const extracted = (endpoint.extractors || []).map(extractor => extractor.name);
+    if (sources.length === 0 && extracted.length === 0) return null;
+    return (
+      <div className="text-xs text-muted-foreground mt-1 space-x-3">
+        {extracted.length > 0 && (
+          <span>Extracts: <span className="font-mono text-primary">{extracted.join(', ')}</span></span>
+        )}
+        {sources.length > 0 && (
+          <span>
+            Uses:{' '}
+            {sources.map(({ name, provider }) => (
+              <span key={name} className={`font-mono mr-2 ${provider ? '' : 'text-destructive'}`}>
+                {`{{${name}}}`} {provider ? `from ${provider}` : '(not defined by an environment or earlier endpoint)'}
+              </span>
+            ))}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return;
+    const endpoint = pendingDelete;
+    setPendingDelete(null);
+    if (!await trashEndpoint(endpoint)) return;
+    if (editingId === endpoint.id) {
+      resetForm();
+    }
     toast({
-      title: "Success",
-      description: "Endpoint deleted successfully"
+      title: "Endpoint moved to trash",
+      description: "It can be restored from the Workspace tab"
     });
   };
 
@@ -228,7 +297,7 @@ export const EndpointManager = () => {
                       id="url"
                       value={formData.url}
                       onChange={(e) => setFormData({ ...formData, url: e.target.value })}
-                      placeholder="https://api.example.com/login"
+                      placeholder="{{baseUrl}}/login"
                     />
                   </div>
                 </div>
@@ -281,6 +350,57 @@ export const EndpointManager = () => {
                   </div>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="authProfile">Authentication</Label>
+                  <Select
+                    value={formData.authProfileId || INHERIT_AUTH}
+                    onValueChange={(value) => setFormData({ ...formData, authProfileId: value === INHERIT_AUTH ? undefined : value })}
+                  >
+                    <SelectTrigger id="authProfile" className="max-w-md">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={INHERIT_AUTH}>
+                        Project default ({selectedProject.authProfiles?.find(p => p.id === selectedProject.defaultAuthProfileId)?.name || 'none'})
+                      </SelectItem>
+                      <SelectItem value={NO_AUTH_PROFILE}>No authentication</SelectItem>
+                      {(selectedProject.authProfiles || []).map((profile) => (
+                        <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="headers">Headers (JSON)</Label>
+                    <Textarea
+                      id="headers"
+                      value={formData.headers}
+                      onChange={(e) => setFormData({ ...formData, headers: e.target.value })}
+                      placeholder='{"Authorization": "Bearer {{secret:api-token}}"}'
+                      className="font-mono text-sm"
+                      rows={3}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="body">Body</Label>
+                    <Textarea
+                      id="body"
+                      value={formData.body}
+                      onChange={(e) => setFormData({ ...formData, body: e.target.value })}
+                      placeholder='{"username": "admin", "password": "{{secret:admin-password}}"}'
+                      className="font-mono text-sm"
+                      rows={3}
+                    />
+                  </div>
+                </div>
+                {(hasLiteralCredentials(formData.headers) || hasLiteralCredentials(formData.body)) && (
+                  <p className="text-xs text-warning">
+                    This endpoint contains a credential in plain text. Store it in the secret vault (Workspace tab) and reference it as {'{{secret:name}}'} instead.
+                  </p>
+                )}
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label htmlFor="expectedStatusCode">Expected Status Code</Label>
@@ -300,8 +420,35 @@ export const EndpointManager = () => {
                       onChange={(e) => setFormData({ ...formData, expectedResponse: e.target.value })}
                       placeholder="success, token, data..."
                     />
+                    <p className="text-xs text-muted-foreground">Comma separated; every term must appear in the response body</p>
                   </div>
                 </div>
+
+                <div className="space-y-2">
+                  <Label>Assertions</Label>
+                  <AssertionEditor
+                    assertions={formData.assertions}
+                    onChange={(assertions) => setFormData({ ...formData, assertions })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Extract Variables</Label>
+                  <ExtractorEditor
+                    extractors={formData.extractors}
+                    onChange={(extractors) => setFormData({ ...formData, extractors })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Request Policy Overrides</Label>
+                  <RequestPolicyFields
+                    policy={formData.requestPolicy}
+                    onChange={(requestPolicy) => setFormData({ ...formData, requestPolicy })}
+                    inherited={resolveRequestPolicy(selectedProject)}
+                    inheritedFrom={`defaults of ${selectedProject.name}`}
+                  />
+                </div>
                 
                 <div className="flex gap-2">
                   <Button type="submit" className="bg-gradient-primary">
@@ -368,6 +515,7 @@ export const EndpointManager = () => {
                             <span> | Expected Response: <span className="font-mono text-primary">{endpoint.expectedResponse}</span></span>
                           )}
                         </div>
+                        {renderVariables(endpoint)}
                       </div>
                       <div className="flex items-center gap-2">
                         <Button
@@ -380,7 +528,7 @@ export const EndpointManager = () => {
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => handleDelete(endpoint.id)}
+                          onClick={() => setPendingDelete(endpoint)}
                         >
                           <Trash2 className="h-4 w-4" />
                         </Button>
@@ -401,6 +549,26 @@ export const EndpointManager = () => {
           </CardContent>
         </Card>
       )}
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete endpoint "{pendingDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The endpoint is moved to the trash and can be restored later. Its past test results stay in the scan history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Move to Trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Trash2 } from 'lucide-react';
+import { Environment, EnvironmentVariable } from '@/lib/models';
+
+interface EnvironmentEditorProps {
+  environments: Environment[];
+  defaultEnvironmentId?: string;
+  onChange: (environments: Environment[], defaultEnvironmentId?: string) => void;
+}
+
+export const EnvironmentEditor = ({ environments, defaultEnvironmentId, onChange }: EnvironmentEditorProps) => {
+  const defaultId = environments.some(e => e.id === defaultEnvironmentId) ? defaultEnvironmentId : environments[0]?.id;
+
+  const update = (id: string, changes: Partial<Environment>) =>
+    onChange(environments.map(environment => environment.id === id ? { ...environment, ...changes } : environment), defaultId);
+
+  const updateVariable = (environment: Environment, index: number, changes: Partial<EnvironmentVariable>) =>
+    update(environment.id, {
+      variables: environment.variables.map((variable, i) => i === index ? { ...variable, ...changes } : variable)
+    });
+
+  const addEnvironment = () => {
+    const environment: Environment = {
+      id: Date.now().toString(),
+      name: environments.length === 0 ? 'Default' : '',
+      variables: [{ name: 'baseUrl', value: '' }]
+    };
+    onChange([...environments, environment], defaultId || environment.id);
+  };
+
+  const removeEnvironment = (id: string) => {
+    const remaining = environments.filter(environment => environment.id !== id);
+    onChange(remaining, defaultId === id ? remaining[0]?.id : defaultId);
+  };
+
+  return (
+    <div className="space-y-2">
+      {environments.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          No environments. Add one per target (dev, staging, prod) and write endpoint URLs as {'{{baseUrl}}/path'}.
+        </p>
+      )}
+      {environments.map((environment) => (
+        <div key={environment.id} className="space-y-2 p-3 border border-border rounded-lg">
+          <div className="flex items-center gap-2">
+            <Input
+              className="w-48"
+              value={environment.name}
+              onChange={(e) => update(environment.id, { name: e.target.value })}
+              placeholder="e.g., staging"
+            />
+            {environment.id === defaultId ? (
+              <Badge variant="secondary">Default</Badge>
+            ) : (
+              <Button type="button" variant="ghost" size="sm" onClick={() => onChange(environments, environment.id)}>
+                Make Default
+              </Button>
+            )}
+            <Button type="button" variant="ghost" size="sm" className="ml-auto" onClick={() => removeEnvironment(environment.id)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          {environment.variables.map((variable, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                className="w-40 font-mono"
+                value={variable.name}
+                onChange={(e) => updateVariable(environment, index, { name: e.target.value })}
+                placeholder="host"
+              />
+              <Input
+                className="flex-1 font-mono"
+                value={variable.value}
+                onChange={(e) => updateVariable(environment, index, { value: e.target.value })}
+                placeholder="Value, or {{secret:name}}"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => update(environment.id, { variables: environment.variables.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => update(environment.id, { variables: [...environment.variables, { name: '', value: '' }] })}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Variable
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={addEnvironment}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Environment
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { Extractor, ExtractorSource } from '@/lib/models';
+import { EXTRACTOR_SOURCE_LABELS } from '@/lib/scan';
+
+const EXPRESSION_PLACEHOLDERS: Record<ExtractorSource, string> = {
+  jsonPath: '$.data.token',
+  regex: 'csrf_token" value="([^"]+)"',
+  header: 'Header name, e.g. Location',
+  cookie: 'Cookie name, e.g. session',
+};
+
+interface ExtractorEditorProps {
+  extractors: Extractor[];
+  onChange: (extractors: Extractor[]) => void;
+}
+
+export const ExtractorEditor = ({ extractors, onChange }: ExtractorEditorProps) => {
+  const update = (id: string, changes: Partial<Extractor>) =>
+    onChange(extractors.map(extractor => extractor.id === id ? { ...extractor, ...changes } : extractor));
+
+  const addExtractor = () => onChange([
+    ...extractors,
+    { id: Date.now().toString(), name: '', source: 'jsonPath', expression: '' }
+  ]);
+
+  return (
+    <div className="space-y-2">
+      {extractors.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          No extractors. Extracted values can be used as {'{{name}}'} in the URL, headers or body of later endpoints in the same run.
+        </p>
+      )}
+      {extractors.map((extractor) => (
+        <div key={extractor.id} className="flex flex-wrap items-start gap-2 p-2 border border-border rounded-lg">
+          <Input
+            className="w-40 font-mono"
+            value={extractor.name}
+            onChange={(e) => update(extractor.id, { name: e.target.value })}
+            placeholder="Variable name"
+          />
+          <Select value={extractor.source} onValueChange={(value) => update(extractor.id, { source: value as ExtractorSource })}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(EXTRACTOR_SOURCE_LABELS).map(([source, label]) => (
+                <SelectItem key={source} value={source}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            className="flex-1 min-w-[10rem] font-mono"
+            value={extractor.expression}
+            onChange={(e) => update(extractor.id, { expression: e.target.value })}
+            placeholder={EXPRESSION_PLACEHOLDERS[extractor.source]}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(extractors.filter(e => e.id !== extractor.id))}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={addExtractor}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Extractor
+      </Button>
+    </div>
+  );
+};
@@ -3,42 +3,24 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { FileUp, FileDown, Download, Upload, FileText, FileSpreadsheet, FolderOpen } from 'lucide-react';
+import { FileUp, FileDown, Download, Upload, FileText, FileSpreadsheet, FolderOpen, GitCompare } from 'lucide-react';
 import { toast } from 'sonner';
-import { getStoredData, saveStoredData, exportToJSON, exportToCSV } from '@/lib/storage';
+import { getStoredDataByProject, appendStoredData, deleteStoredRecords, exportToJSON, exportToCSV } from '@/lib/storage';
 import { getSessionData, saveSessionData, SESSION_KEYS } from '@/lib/session';
-import { ProjectManager, Project } from './ProjectManager';
-
-interface Endpoint {
-  id: string;
-  name: string;
-  url: string;
-  method: string;
-  headers?: string;
-  body?: string;
-  description?: string;
-  category: string;
-  priority: string;
-  projectId: string;
-  expectedStatusCode?: number;
-}
-
-interface TestResult {
-  id: string;
-  endpoint: string;
-  status: string;
-  vulnerability?: string;
-  responseTime?: number;
-  statusCode?: number;
-  timestamp: string;
-  details?: string;
-  projectId: string;
-}
+import { ProjectManager } from './ProjectManager';
+import { Endpoint, EndpointSchema, Project, TestResult } from '@/lib/models';
+import { exportComparisonCSV, exportComparisonJSON } from '@/lib/run-diff';
+import { getActiveFindings, getSuppressedFindings, summarizeFindings } from '@/lib/scan';
+import { useRunComparison } from '@/hooks/use-run-comparison';
+import { RunPairSelector } from './RunComparison';
+import { WorkspaceBackup } from './WorkspaceBackup';
+import { maskEndpointSecrets } from '@/lib/secrets';
 
 export const ImportExport = () => {
   const [importData, setImportData] = useState('');
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const runComparison = useRunComparison(selectedProject?.id);
 
   useEffect(() => {
     // Load last selected project from session
@@ -55,6 +37,25 @@ export const ImportExport = () => {
     }
   }, [selectedProject]);
 
+  // Imported rows go through the shared schema so malformed entries never reach storage
+  const validateEndpoints = (candidates: unknown[]) => {
+    const valid: Endpoint[] = [];
+    let skipped = 0;
+    candidates.forEach(candidate => {
+      const parsed = EndpointSchema.safeParse(candidate);
+      if (parsed.success) {
+        valid.push(parsed.data);
+      } else {
+        skipped++;
+        console.warn('Skipping invalid endpoint:', parsed.error.issues);
+      }
+    });
+    if (skipped > 0) {
+      toast.warning(`${skipped} row(s) skipped because they don't match the endpoint format`);
+    }
+    return valid;
+  };
+
   const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -65,7 +66,7 @@ export const ImportExport = () => {
     }
 
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
         const text = e.target?.result as string;
         let data;
@@ -122,14 +123,15 @@ export const ImportExport = () => {
 
         if (data && Array.isArray(data) && data.length > 0) {
           // Add project ID to all imported endpoints
-          const projectEndpoints = data.map(endpoint => ({
+          const projectEndpoints = validateEndpoints(data.map(endpoint => ({
             ...endpoint,
             projectId: selectedProject.id,
             id: `${selectedProject.id}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-          }));
+          })));
+          if (projectEndpoints.length === 0) return;
           
-          const existingEndpoints = getStoredData('endpoints', []);
-          saveStoredData('endpoints', [...existingEndpoints, ...projectEndpoints]);
+          const saved = await appendStoredData('endpoints', projectEndpoints);
+          if (!saved) return;
           toast.success(`Successfully imported ${projectEndpoints.length} endpoints to project: ${selectedProject.name}`);
         } else {
           toast.error('No valid endpoints found in file');
@@ -142,7 +144,7 @@ export const ImportExport = () => {
     reader.readAsText(file);
   };
 
-  const handleJSONImport = (jsonContent: string) => {
+  const handleJSONImport = async (jsonContent: string) => {
     if (!selectedProject) {
       toast.error('Please select a project first before importing');
       return;
@@ -151,8 +153,7 @@ export const ImportExport = () => {
     try {
       const data = JSON.parse(jsonContent);
       if (Array.isArray(data)) {
-        const existingEndpoints = getStoredData('endpoints', []);
-        const newEndpoints = data.map((item, index) => ({
+        const newEndpoints = validateEndpoints(data.map((item, index) => ({
           id: `${selectedProject.id}_imported_${Date.now()}_${index}`,
           name: item.name || `Imported Endpoint ${index + 1}`,
           url: item.url || '',
@@ -164,8 +165,10 @@ export const ImportExport = () => {
           description: item.description || '',
           projectId: selectedProject.id,
           expectedStatusCode: item.expectedStatusCode || 200
-        }));
-        saveStoredData('endpoints', [...existingEndpoints, ...newEndpoints]);
+        })));
+        if (newEndpoints.length === 0) return;
+        const saved = await appendStoredData('endpoints', newEndpoints);
+        if (!saved) return;
         toast.success(`Successfully imported ${newEndpoints.length} endpoints to project: ${selectedProject.name}`);
       } else {
         toast.error('Invalid JSON format - expected an array of endpoints');
@@ -176,14 +179,13 @@ export const ImportExport = () => {
     }
   };
 
-  const exportEndpointsByProject = () => {
+  const exportEndpointsByProject = async () => {
     if (!selectedProject) {
       toast.error('Please select a project to export');
       return;
     }
 
-    const allEndpoints = getStoredData('endpoints', []);
-    const projectEndpoints = allEndpoints.filter((ep: Endpoint) => ep.projectId === selectedProject.id);
+    const projectEndpoints = (await getStoredDataByProject<Endpoint>('endpoints', selectedProject.id)).map(maskEndpointSecrets);
     
     if (projectEndpoints.length === 0) {
       toast.error('No endpoints found for selected project');
@@ -230,14 +232,13 @@ export const ImportExport = () => {
     toast.success(`Endpoints exported for project: ${selectedProject.name}!`);
   };
 
-  const exportResultsByProject = () => {
+  const exportResultsByProject = async () => {
     if (!selectedProject) {
       toast.error('Please select a project to export results');
       return;
     }
 
-    const allResults = getStoredData('testResults', []);
-    const projectResults = allResults.filter((result: TestResult) => result.projectId === selectedProject.id);
+    const projectResults = await getStoredDataByProject<TestResult>('testResults', selectedProject.id);
     
     if (projectResults.length === 0) {
       toast.error('No test results found for selected project');
@@ -248,7 +249,7 @@ export const ImportExport = () => {
     const passResults = projectResults.filter((r: TestResult) => r.status === 'pass');
     const failResults = projectResults.filter((r: TestResult) => r.status === 'fail' || r.status === 'error');
 
-    const headers = ['Project', 'Category', 'Endpoint Name', 'URL', 'Method', 'Status', 'Vulnerabilities', 'Response Time', 'Status Code', 'Timestamp'];
+    const headers = ['Project', 'Category', 'Endpoint Name', 'URL', 'Method', 'Status', 'Vulnerabilities', 'Findings', 'Suppressed Findings', 'Response Time', 'Status Code', 'Timestamp'];
     const csvContent = [
       headers.join(','),
       '--- PASS RESULTS ---',
@@ -260,6 +261,8 @@ export const ImportExport = () => {
         result.method,
         result.status,
         `"${result.vulnerabilities ? result.vulnerabilities.join('; ') : ''}"`,
+        `"${summarizeFindings(getActiveFindings(result.findings)).replace(/"/g, '""')}"`,
+        `"${summarizeFindings(getSuppressedFindings(result.findings)).replace(/"/g, '""')}"`,
         result.responseTime || 0,
         result.statusCode || 'N/A',
         `"${new Date(result.timestamp).toLocaleString()}"`
@@ -273,6 +276,8 @@ export const ImportExport = () => {
         result.method,
         result.status,
         `"${result.vulnerabilities ? result.vulnerabilities.join('; ') : ''}"`,
+        `"${summarizeFindings(getActiveFindings(result.findings)).replace(/"/g, '""')}"`,
+        `"${summarizeFindings(getSuppressedFindings(result.findings)).replace(/"/g, '""')}"`,
         result.responseTime || 0,
         result.statusCode || 'N/A',
         `"${new Date(result.timestamp).toLocaleString()}"`
@@ -291,20 +296,17 @@ export const ImportExport = () => {
     toast.success(`Test results exported for project: ${selectedProject.name}!`);
   };
 
-  const clearProjectData = () => {
+  const clearProjectData = async () => {
     if (!selectedProject) {
       toast.error('Please select a project to clear data');
       return;
     }
 
-    const allEndpoints = getStoredData('endpoints', []);
-    const allResults = getStoredData('testResults', []);
-    
-    const filteredEndpoints = allEndpoints.filter((ep: Endpoint) => ep.projectId !== selectedProject.id);
-    const filteredResults = allResults.filter((result: TestResult) => result.projectId !== selectedProject.id);
+    const projectEndpoints = await getStoredDataByProject<Endpoint>('endpoints', selectedProject.id);
+    const projectResults = await getStoredDataByProject<TestResult>('testResults', selectedProject.id);
     
-    saveStoredData('endpoints', filteredEndpoints);
-    saveStoredData('testResults', filteredResults);
+    await deleteStoredRecords('endpoints', projectEndpoints.map(ep => ep.id));
+    await deleteStoredRecords('testResults', projectResults.map(result => result.id));
     
     toast.success(`All data cleared for project: ${selectedProject.name}`);
   };
@@ -429,10 +431,9 @@ export const ImportExport = () => {
                     Export Endpoints by Category
                   </Button>
                   <Button 
-                    onClick={() => {
-                      const allEndpoints = getStoredData('endpoints', []);
-                      const projectEndpoints = allEndpoints.filter((ep: Endpoint) => ep.projectId === selectedProject.id);
-                      exportToJSON(projectEndpoints, 'endpoints', selectedProject.name);
+                    onClick={async () => {
+                      const projectEndpoints = await getStoredDataByProject<Endpoint>('endpoints', selectedProject.id);
+                      exportToJSON(projectEndpoints.map(maskEndpointSecrets), 'endpoints', selectedProject.name);
                     }} 
                     variant="outline" 
                     className="w-full"
@@ -452,9 +453,8 @@ export const ImportExport = () => {
                     Export Results by Category
                   </Button>
                   <Button 
-                    onClick={() => {
-                      const allResults = getStoredData('testResults', []);
-                      const projectResults = allResults.filter((result: TestResult) => result.projectId === selectedProject.id);
+                    onClick={async () => {
+                      const projectResults = await getStoredDataByProject<TestResult>('testResults', selectedProject.id);
                       exportToJSON(projectResults, `${selectedProject.name}-test-results`);
                     }} 
                     variant="outline" 
@@ -470,6 +470,56 @@ export const ImportExport = () => {
         </CardContent>
       </Card>
 
+      {/* Run Comparison Export */}
+      {selectedProject && (
+        <Card className="card-purple">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5 text-primary" />
+              Export Run Comparison
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {runComparison.runs.length < 2 ? (
+              <p className="text-sm text-muted-foreground">
+                At least two finished scan runs of {selectedProject.name} are needed to export a comparison
+              </p>
+            ) : (
+              <>
+                <RunPairSelector
+                  runs={runComparison.runs}
+                  baseRunId={runComparison.baseRunId}
+                  targetRunId={runComparison.targetRunId}
+                  onBaseChange={runComparison.setBaseRunId}
+                  onTargetChange={runComparison.setTargetRunId}
+                />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Button
+                    variant="outline"
+                    disabled={!runComparison.comparison}
+                    onClick={() => exportComparisonCSV(runComparison.comparison!, selectedProject.name)}
+                  >
+                    <FileSpreadsheet className="h-4 w-4 mr-2" />
+                    Export Comparison as CSV
+                  </Button>
+                  <Button
+                    variant="outline"
+                    disabled={!runComparison.comparison}
+                    onClick={() => exportComparisonJSON(runComparison.comparison!, selectedProject.name)}
+                  >
+                    <FileText className="h-4 w-4 mr-2" />
+                    Export Comparison as JSON
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Workspace Backup */}
+      <WorkspaceBackup />
+
       {/* Data Management */}
       <Card className="card-red">
         <CardHeader>
@@ -9,14 +9,10 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/
 import { Network, Wifi, WifiOff, Play, Pause, Square, RotateCcw, CheckCircle, AlertTriangle, List } from 'lucide-react';
 import { toast } from 'sonner';
 import { getSessionData, saveSessionData, SESSION_KEYS } from '@/lib/session';
-import { ProjectManager, Project } from './ProjectManager';
-
-interface PortScanResult {
-  port: number;
-  status: 'open' | 'closed' | 'filtered' | 'scanning';
-  service?: string;
-  banner?: string;
-}
+import { ProjectManager } from './ProjectManager';
+import { appendStoredData } from '@/lib/storage';
+import { PortScan, PortScanResult, Project } from '@/lib/models';
+import { getEnvironmentHost, getProjectEnvironment } from '@/lib/scan';
 
 const commonPorts = [
   { port: 21, service: 'FTP' },
@@ -92,8 +88,9 @@ export const PortScanner = ({ onScanningStateChange }: PortScannerProps = {}) =>
   useEffect(() => {
     if (selectedProject) {
       saveSessionData(SESSION_KEYS.SELECTED_PROJECT, selectedProject);
-      if (selectedProject.ipAddress) {
-        setTarget(selectedProject.ipAddress);
+      const host = getEnvironmentHost(getProjectEnvironment(selectedProject));
+      if (host) {
+        setTarget(host);
       }
     }
   }, [selectedProject]);
@@ -263,6 +260,7 @@ export const PortScanner = ({ onScanningStateChange }: PortScannerProps = {}) =>
     });
 
     const results: PortScanResult[] = [];
+    const startedAt = new Date().toISOString();
     let wasStopped = false;
 
     for (let i = 0; i < ports.length; i++) {
@@ -295,6 +293,21 @@ export const PortScanner = ({ onScanningStateChange }: PortScannerProps = {}) =>
 
     setScanState('idle');
     scanStateRef.current = 'idle';
+
+    // Scans are kept with the project they were run for; without a project they only live in the session
+    if (selectedProject && results.length > 0) {
+      const scan: PortScan = {
+        id: `portscan_${Date.now()}`,
+        projectId: selectedProject.id,
+        target,
+        scanType,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        status: wasStopped ? 'stopped' : 'completed',
+        results,
+      };
+      await appendStoredData('portScans', [scan]);
+    }
     
     // Only show completion message if not stopped
     if (!wasStopped) {
@@ -6,19 +6,30 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { Trash2, Edit, Plus, FolderOpen } from 'lucide-react';
-import { getStoredData, saveStoredData } from '@/lib/storage';
+import { saveStoredData } from '@/lib/storage';
 import { useToast } from '@/components/ui/use-toast';
-
-export interface Project {
-  id: string;
-  name: string;
-  description: string;
-  ipAddress?: string;
-  category: string;
-  createdAt: string;
-  updatedAt: string;
-}
+import { AuthProfile, CheckOverrides, Endpoint, Environment, Project, RequestPolicy, SeverityThreshold, Suppression } from '@/lib/models';
+import { useStoredData } from '@/hooks/use-stored-data';
+import { getProjectDataCounts, trashProject } from '@/lib/trash';
+import { getScanLock, isLockedByOtherTab } from '@/lib/scan-lock';
+import { DEFAULT_REQUEST_POLICY, getAuthProfileProblem, getEnvironmentProblem, getProjectEnvironment, SEVERITY_THRESHOLD_LABELS } from '@/lib/scan';
+import { RequestPolicyFields } from './RequestPolicyFields';
+import { EnvironmentEditor } from './EnvironmentEditor';
+import { AuthProfileEditor } from './AuthProfileEditor';
+import { CheckSelection } from './CheckSelection';
+import { SuppressionList } from './SuppressionList';
 
 interface ProjectManagerProps {
   selectedProject?: Project;
@@ -27,15 +38,27 @@ interface ProjectManagerProps {
 }
 
 export const ProjectManager = ({ selectedProject, onProjectSelect, showSelector = false }: ProjectManagerProps) => {
-  const [projects, setProjects] = useState<Project[]>([]);
+  const [projects, setProjects, projectsLoaded] = useStoredData<Project[]>('projects', []);
+  const [endpoints] = useStoredData<Endpoint[]>('endpoints', []);
   const [isEditing, setIsEditing] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     description: '',
-    ipAddress: '',
-    category: 'Web Application'
+    category: 'Web Application',
+    environments: [] as Environment[],
+    defaultEnvironmentId: undefined as string | undefined,
+    authProfiles: [] as AuthProfile[],
+    defaultAuthProfileId: undefined as string | undefined,
+    checkOverrides: {} as CheckOverrides,
+    failSeverity: 'high' as SeverityThreshold,
+    suppressions: [] as Suppression[],
+    requestPolicy: {} as RequestPolicy
   });
+  const [pendingDelete, setPendingDelete] = useState<Project | null>(null);
+  const [pendingCounts, setPendingCounts] = useState<Awaited<ReturnType<typeof getProjectDataCounts>> | null>(null);
+  const [deleteMode, setDeleteMode] = useState<'cascade' | 'reassign'>('cascade');
+  const [reassignTo, setReassignTo] = useState('');
   const { toast } = useToast();
 
   const categories = [
@@ -49,10 +72,16 @@ export const ProjectManager = ({ selectedProject, onProjectSelect, showSelector
     'Microservice'
   ];
 
+  // Keep the caller's selection in step with edits and deletions made elsewhere (including other tabs)
   useEffect(() => {
-    const storedProjects = getStoredData('projects', []);
-    setProjects(storedProjects);
-  }, []);
+    if (!projectsLoaded || !selectedProject) return;
+    const current = projects.find(p => p.id === selectedProject.id);
+    if (!current) {
+      onProjectSelect(null);
+    } else if (current.updatedAt !== selectedProject.updatedAt) {
+      onProjectSelect(current);
+    }
+  }, [projects, projectsLoaded, selectedProject, onProjectSelect]);
 
   const saveProjects = (updatedProjects: Project[]) => {
     setProjects(updatedProjects);
@@ -71,6 +100,26 @@ export const ProjectManager = ({ selectedProject, onProjectSelect, showSelector
       return;
     }
 
+    const environmentProblem = getEnvironmentProblem(formData.environments);
+    if (environmentProblem) {
+      toast({
+        title: "Validation Error",
+        description: environmentProblem,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const authProfileProblem = getAuthProfileProblem(formData.authProfiles);
+    if (authProfileProblem) {
+      toast({
+        title: "Validation Error",
+        description: authProfileProblem,
+        variant: "destructive"
+      });
+      return;
+    }
+
     const now = new Date().toISOString();
     
     if (editingId) {
@@ -105,8 +154,15 @@ export const ProjectManager = ({ selectedProject, onProjectSelect, showSelector
     setFormData({
       name: '',
       description: '',
-      ipAddress: '',
-      category: 'Web Application'
+      category: 'Web Application',
+      environments: [],
+      defaultEnvironmentId: undefined,
+      authProfiles: [],
+      defaultAuthProfileId: undefined,
+      checkOverrides: {},
+      failSeverity: 'high',
+      suppressions: [],
+      requestPolicy: {}
     });
     setIsEditing(false);
     setEditingId(null);
@@ -116,28 +172,62 @@ export const ProjectManager = ({ selectedProject, onProjectSelect, showSelector
     setFormData({
       name: project.name,
       description: project.description,
-      ipAddress: project.ipAddress || '',
-      category: project.category
+      category: project.category,
+      environments: project.environments || [],
+      defaultEnvironmentId: project.defaultEnvironmentId,
+      authProfiles: project.authProfiles || [],
+      defaultAuthProfileId: project.defaultAuthProfileId,
+      checkOverrides: project.checkOverrides || {},
+      failSeverity: project.failSeverity || 'high',
+      suppressions: project.suppressions || [],
+      requestPolicy: project.requestPolicy || {}
     });
     setIsEditing(true);
     setEditingId(project.id);
   };
 
-  const handleDelete = (id: string) => {
-    const updatedProjects = projects.filter(project => project.id !== id);
-    saveProjects(updatedProjects);
-    
+  const handleDelete = (project: Project) => {
+    if (isLockedByOtherTab(project.id)) {
+      toast({
+        title: "Project is being scanned",
+        description: `${getScanLock(project.id)?.owner} is scanning this project in another tab`,
+        variant: "destructive"
+      });
+      return;
+    }
+    setPendingDelete(project);
+    setPendingCounts(null);
+    setDeleteMode('cascade');
+    setReassignTo('');
+    getProjectDataCounts(project.id).then(setPendingCounts);
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return;
+    const project = pendingDelete;
+    setPendingDelete(null);
+
+    const target = deleteMode === 'reassign' ? reassignTo : undefined;
+    if (!await trashProject(project, target)) return;
+
     // If deleted project was selected, clear selection
-    if (selectedProject?.id === id) {
+    if (selectedProject?.id === project.id) {
       onProjectSelect(null);
     }
-    
+
     toast({
-      title: "Success",
-      description: "Project deleted successfully"
+      title: "Project moved to trash",
+      description: target
+        ? `Its data now belongs to ${projects.find(p => p.id === target)?.name}`
+        : "It can be restored from the Workspace tab"
     });
   };
 
+  const pendingTotal = pendingCounts
+    ? pendingCounts.endpoints + pendingCounts.testResults + pendingCounts.scanRuns + pendingCounts.portScans + pendingCounts.runStats
+    : 0;
+  const reassignTargets = projects.filter(project => project.id !== pendingDelete?.id);
+
   if (showSelector) {
     return (
       <Card className="card-cyan mb-6">
@@ -185,8 +275,10 @@ export const ProjectManager = ({ selectedProject, onProjectSelect, showSelector
                 {selectedProject.description && (
                   <p className="text-sm text-muted-foreground mb-2">{selectedProject.description}</p>
                 )}
-                {selectedProject.ipAddress && (
-                  <p className="text-xs font-mono text-primary">IP: {selectedProject.ipAddress}</p>
+                {selectedProject.environments?.length > 0 && (
+                  <p className="text-xs font-mono text-primary">
+                    Environments: {selectedProject.environments.map(e => e.name).join(', ')}
+                  </p>
                 )}
               </div>
             )}
@@ -236,12 +328,61 @@ export const ProjectManager = ({ selectedProject, onProjectSelect, showSelector
             </div>
             
             <div className="space-y-2">
-              <Label htmlFor="ipAddress">IP Address (Optional)</Label>
-              <Input
-                id="ipAddress"
-                value={formData.ipAddress}
-                onChange={(e) => setFormData({ ...formData, ipAddress: e.target.value })}
-                placeholder="e.g., 192.168.1.100 (will replace domain names in URLs)"
+              <Label>Environments</Label>
+              <EnvironmentEditor
+                environments={formData.environments}
+                defaultEnvironmentId={formData.defaultEnvironmentId}
+                onChange={(environments, defaultEnvironmentId) => setFormData({ ...formData, environments, defaultEnvironmentId })}
+              />
+            </div>
+            
+            <div className="space-y-2">
+              <Label>Auth Profiles</Label>
+              <AuthProfileEditor
+                profiles={formData.authProfiles}
+                defaultProfileId={formData.defaultAuthProfileId}
+                onChange={(authProfiles, defaultAuthProfileId) => setFormData({ ...formData, authProfiles, defaultAuthProfileId })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Security Checks</Label>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm">Fail endpoints on findings of</span>
+                <Select value={formData.failSeverity} onValueChange={(value) => setFormData({ ...formData, failSeverity: value as SeverityThreshold })}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(SEVERITY_THRESHOLD_LABELS).map(([threshold, label]) => (
+                      <SelectItem key={threshold} value={threshold}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <CheckSelection
+                overrides={formData.checkOverrides}
+                onChange={(checkOverrides) => setFormData({ ...formData, checkOverrides })}
+                inheritedFrom="built-in defaults; scan profiles can override each check"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Suppressed Findings</Label>
+              <SuppressionList
+                suppressions={formData.suppressions}
+                endpoints={endpoints.filter(endpoint => endpoint.projectId === editingId)}
+                onChange={(suppressions) => setFormData({ ...formData, suppressions })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Request Policy</Label>
+              <RequestPolicyFields
+                policy={formData.requestPolicy}
+                onChange={(requestPolicy) => setFormData({ ...formData, requestPolicy })}
+                inherited={DEFAULT_REQUEST_POLICY}
+                inheritedFrom="built-in defaults; endpoints can override each field"
               />
             </div>
             
@@ -303,8 +444,11 @@ export const ProjectManager = ({ selectedProject, onProjectSelect, showSelector
                     {project.description && (
                       <p className="text-sm text-muted-foreground mb-2">{project.description}</p>
                     )}
-                    {project.ipAddress && (
-                      <p className="text-xs font-mono text-primary mb-2">IP: {project.ipAddress}</p>
+                    {project.environments?.length > 0 && (
+                      <p className="text-xs font-mono text-primary mb-2">
+                        Default environment: {getProjectEnvironment(project)?.name}
+                        {project.environments.length > 1 && ` (+${project.environments.length - 1} more)`}
+                      </p>
                     )}
                     <div className="text-xs text-muted-foreground">
                       Created: {new Date(project.createdAt).toLocaleDateString()}
@@ -331,7 +475,7 @@ export const ProjectManager = ({ selectedProject, onProjectSelect, showSelector
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => handleDelete(project.id)}
+                      onClick={() => handleDelete(project)}
                     >
                       <Trash2 className="h-4 w-4" />
                     </Button>
@@ -342,6 +486,55 @@ export const ProjectManager = ({ selectedProject, onProjectSelect, showSelector
           )}
         </CardContent>
       </Card>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete project "{pendingDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingCounts
+                ? `This project has ${pendingCounts.endpoints} endpoints, ${pendingCounts.testResults} test results, ${pendingCounts.scanRuns} scan runs and ${pendingCounts.portScans} port scans.`
+                : 'Counting the data of this project...'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {pendingTotal > 0 && (
+            <RadioGroup value={deleteMode} onValueChange={(value) => setDeleteMode(value as 'cascade' | 'reassign')}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="cascade" id="delete-cascade" />
+                <Label htmlFor="delete-cascade">Move the project and all of its data to the trash</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="reassign" id="delete-reassign" disabled={reassignTargets.length === 0} />
+                <Label htmlFor="delete-reassign">Keep the data and move it to another project</Label>
+              </div>
+              {deleteMode === 'reassign' && (
+                <Select value={reassignTo} onValueChange={setReassignTo}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose the project that takes over the data..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {reassignTargets.map((project) => (
+                      <SelectItem key={project.id} value={project.id}>
+                        {project.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </RadioGroup>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              disabled={!pendingCounts || (deleteMode === 'reassign' && !reassignTo)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Move to Trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,169 @@
+import { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BackoffStrategy, RequestPolicy, RetryableError } from '@/lib/models';
+import { parseStatusList, ResolvedRequestPolicy } from '@/lib/scan';
+
+const INHERIT = 'inherit';
+
+const RETRY_ERROR_OPTIONS: Record<string, RetryableError[]> = {
+  'timeout,network': ['timeout', 'network'],
+  timeout: ['timeout'],
+  network: ['network'],
+  none: [],
+};
+
+const RETRY_ERROR_LABELS: Record<string, string> = {
+  'timeout,network': 'Timeouts and network errors',
+  timeout: 'Timeouts only',
+  network: 'Network errors only',
+  none: 'Never',
+};
+
+const parseOptionalInt = (value: string) => {
+  const parsed = parseInt(value);
+  return parsed >= 0 ? parsed : undefined;
+};
+
+interface RequestPolicyFieldsProps {
+  policy?: RequestPolicy;
+  onChange: (policy: RequestPolicy) => void;
+  // Values used for every field left empty, shown as placeholders
+  inherited: ResolvedRequestPolicy;
+  inheritedFrom: string;
+}
+
+export const RequestPolicyFields = ({ policy = {}, onChange, inherited, inheritedFrom }: RequestPolicyFieldsProps) => {
+  const [statusText, setStatusText] = useState(policy.retryOnStatus?.join(', ') || '');
+
+  // Follow resets and edits of another record; typing stays untouched while it parses to the same list
+  useEffect(() => {
+    setStatusText(current => parseStatusList(current).join(',') === (policy.retryOnStatus || []).join(',')
+      ? current
+      : policy.retryOnStatus?.join(', ') || '');
+  }, [policy.retryOnStatus]);
+
+  const update = (changes: RequestPolicy) => onChange({ ...policy, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">Empty fields use the {inheritedFrom}.</p>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="policy-timeout">Timeout (ms)</Label>
+          <Input
+            id="policy-timeout"
+            type="number"
+            min={1}
+            value={policy.timeoutMs ?? ''}
+            onChange={(e) => update({ timeoutMs: parseOptionalInt(e.target.value) || undefined })}
+            placeholder={inherited.timeoutMs.toString()}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="policy-retries">Retries</Label>
+          <Input
+            id="policy-retries"
+            type="number"
+            min={0}
+            max={10}
+            value={policy.retries ?? ''}
+            onChange={(e) => {
+              const retries = parseOptionalInt(e.target.value);
+              update({ retries: retries === undefined ? undefined : Math.min(10, retries) });
+            }}
+            placeholder={inherited.retries.toString()}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Backoff</Label>
+          <Select
+            value={policy.backoff || INHERIT}
+            onValueChange={(value) => update({ backoff: value === INHERIT ? undefined : value as BackoffStrategy })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={INHERIT}>Inherit ({inherited.backoff})</SelectItem>
+              <SelectItem value="none">None</SelectItem>
+              <SelectItem value="fixed">Fixed</SelectItem>
+              <SelectItem value="linear">Linear</SelectItem>
+              <SelectItem value="exponential">Exponential</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="policy-backoff-delay">Backoff Delay (ms)</Label>
+          <Input
+            id="policy-backoff-delay"
+            type="number"
+            min={0}
+            value={policy.backoffDelayMs ?? ''}
+            onChange={(e) => update({ backoffDelayMs: parseOptionalInt(e.target.value) })}
+            placeholder={inherited.backoffDelayMs.toString()}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="policy-retry-status">Retry on Status</Label>
+          <Input
+            id="policy-retry-status"
+            value={statusText}
+            onChange={(e) => {
+              setStatusText(e.target.value);
+              update({ retryOnStatus: e.target.value.trim() ? parseStatusList(e.target.value) : undefined });
+            }}
+            placeholder={inherited.retryOnStatus.join(', ') || 'None'}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Retry on Errors</Label>
+          <Select
+            value={policy.retryOnErrors ? policy.retryOnErrors.join(',') || 'none' : INHERIT}
+            onValueChange={(value) => update({ retryOnErrors: value === INHERIT ? undefined : RETRY_ERROR_OPTIONS[value] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={INHERIT}>Inherit ({RETRY_ERROR_LABELS[inherited.retryOnErrors.join(',') || 'none']})</SelectItem>
+              {Object.entries(RETRY_ERROR_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Follow Redirects</Label>
+          <Select
+            value={policy.followRedirects === undefined ? INHERIT : String(policy.followRedirects)}
+            onValueChange={(value) => update({ followRedirects: value === INHERIT ? undefined : value === 'true' })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={INHERIT}>Inherit ({inherited.followRedirects ? 'yes' : 'no'})</SelectItem>
+              <SelectItem value="true">Yes</SelectItem>
+              <SelectItem value="false">No</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="policy-max-redirects">Max Redirects</Label>
+          <Input
+            id="policy-max-redirects"
+            type="number"
+            min={0}
+            value={policy.maxRedirects ?? ''}
+            onChange={(e) => update({ maxRedirects: parseOptionalInt(e.target.value) })}
+            placeholder={inherited.maxRedirects.toString()}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
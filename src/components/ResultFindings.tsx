@@ -0,0 +1,79 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Finding, FindingEvidence, Severity } from '@/lib/models';
+import { getCheck, OWASP_TOP_10, SEVERITY_LABELS } from '@/lib/scan';
+
+const SEVERITY_CLASSES: Record<Severity, string> = {
+  critical: 'bg-destructive text-destructive-foreground',
+  high: 'text-destructive border-destructive',
+  medium: 'text-warning border-warning',
+  low: 'text-primary border-primary',
+  info: 'text-muted-foreground',
+};
+
+// Raw HTTP-style rendering so the request can be replayed by hand
+const formatEvidence = (evidence: FindingEvidence) => [
+  `${evidence.method} ${evidence.url}`,
+  ...Object.entries(evidence.headers).map(([name, value]) => `${name}: ${value}`),
+  ...(evidence.body ? ['', evidence.body] : []),
+].join('\n');
+
+export const SeverityBadge = ({ severity }: { severity: Severity }) => (
+  <Badge variant={severity === 'critical' ? 'default' : 'outline'} className={`text-xs ${SEVERITY_CLASSES[severity]}`}>
+    {SEVERITY_LABELS[severity]}
+  </Badge>
+);
+
+interface ResultFindingsProps {
+  findings: Finding[];
+  // Remediation advice from the check registry
+  showRemediation?: boolean;
+  // Offers to accept each unsuppressed finding when given
+  onSuppress?: (finding: Finding) => void;
+}
+
+export const ResultFindings = ({ findings, showRemediation = true, onSuppress }: ResultFindingsProps) => (
+  <ul className="space-y-2">
+    {findings.map((finding, index) => {
+      const remediation = showRemediation ? getCheck(finding.checkId)?.remediation : undefined;
+      return (
+        <li key={`${finding.checkId}-${index}`} className="text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <SeverityBadge severity={finding.severity} />
+            <span className="font-medium">{finding.title}</span>
+            {finding.cvssScore !== undefined && (
+              <span className="text-xs font-mono text-muted-foreground" title={finding.cvss}>CVSS {finding.cvssScore.toFixed(1)}</span>
+            )}
+            {finding.cwe && <span className="text-xs font-mono text-muted-foreground">{finding.cwe}</span>}
+            {finding.owasp && (
+              <span className="text-xs font-mono text-muted-foreground" title={OWASP_TOP_10[finding.owasp]}>
+                OWASP {finding.owasp}
+              </span>
+            )}
+            {onSuppress && !finding.suppression && (
+              <Button type="button" variant="ghost" size="sm" className="h-6 px-2 text-xs ml-auto" onClick={() => onSuppress(finding)}>
+                Suppress
+              </Button>
+            )}
+          </div>
+          {finding.detail && <p className="text-xs text-muted-foreground ml-1 mt-1">{finding.detail}</p>}
+          {finding.evidence && (
+            <details className="text-xs ml-1 mt-1">
+              <summary className="cursor-pointer text-muted-foreground">Request sent</summary>
+              <pre className="mt-1 p-2 rounded bg-muted font-mono whitespace-pre-wrap break-all">
+                {formatEvidence(finding.evidence)}
+              </pre>
+            </details>
+          )}
+          {remediation && <p className="text-xs ml-1 mt-1"><strong>Fix:</strong> {remediation}</p>}
+          {finding.suppression && (
+            <p className="text-xs text-muted-foreground ml-1 mt-1">
+              Accepted by {finding.suppression.owner}: {finding.suppression.reason}
+              {finding.suppression.expiresAt && ` (until ${finding.suppression.expiresAt})`}
+            </p>
+          )}
+        </li>
+      );
+    })}
+  </ul>
+);
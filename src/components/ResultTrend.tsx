@@ -0,0 +1,59 @@
+import { useState, useEffect } from 'react';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { TrendingUp } from 'lucide-react';
+import { getResultTrend, TrendPoint } from '@/lib/retention';
+import { useStorageVersion } from '@/hooks/use-stored-data';
+
+const chartConfig = {
+  pass: { label: 'Pass', color: 'hsl(var(--success))' },
+  fail: { label: 'Fail', color: 'hsl(var(--destructive))' },
+  error: { label: 'Error', color: 'hsl(var(--warning))' },
+} satisfies ChartConfig;
+
+interface ResultTrendProps {
+  projectId?: string;
+}
+
+export const ResultTrend = ({ projectId }: ResultTrendProps) => {
+  const [trend, setTrend] = useState<TrendPoint[]>([]);
+  const dataVersion = useStorageVersion(['scanRuns', 'runStats']);
+
+  useEffect(() => {
+    getResultTrend(projectId).then(setTrend);
+  }, [projectId, dataVersion]);
+
+  return (
+    <Card className="card-cyan">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5 text-primary" />
+          Result Trend
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {trend.length === 0 ? (
+          <div className="text-center py-8">
+            <TrendingUp className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No finished scan runs yet</p>
+            <p className="text-sm text-muted-foreground">Daily pass/fail totals appear here, including compacted history</p>
+          </div>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-64 w-full">
+            <AreaChart data={trend}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Area dataKey="pass" type="monotone" stackId="results" fill="var(--color-pass)" stroke="var(--color-pass)" fillOpacity={0.4} />
+              <Area dataKey="fail" type="monotone" stackId="results" fill="var(--color-fail)" stroke="var(--color-fail)" fillOpacity={0.4} />
+              <Area dataKey="error" type="monotone" stackId="results" fill="var(--color-error)" stroke="var(--color-error)" fillOpacity={0.4} />
+            </AreaChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarClock, Save, Minimize2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Project, RetentionPolicy } from '@/lib/models';
+import { saveStoredData } from '@/lib/storage';
+import { applyRetention, hasRetentionLimits } from '@/lib/retention';
+import { getScanLock, isLockedByOtherTab } from '@/lib/scan-lock';
+import { useStoredData } from '@/hooks/use-stored-data';
+
+const parseLimit = (value: string) => {
+  const parsed = parseInt(value);
+  return parsed > 0 ? parsed : undefined;
+};
+
+export const RetentionSettings = () => {
+  const [projects] = useStoredData<Project[]>('projects', []);
+  const [projectId, setProjectId] = useState('');
+  const [keepRuns, setKeepRuns] = useState('');
+  const [keepDays, setKeepDays] = useState('');
+  const [keepLatestPerEndpoint, setKeepLatestPerEndpoint] = useState(true);
+  const [isCompacting, setIsCompacting] = useState(false);
+
+  const project = projects.find(p => p.id === projectId);
+
+  useEffect(() => {
+    if (!project) return;
+    setKeepRuns(project.retention?.keepRuns?.toString() || '');
+    setKeepDays(project.retention?.keepDays?.toString() || '');
+    setKeepLatestPerEndpoint(project.retention?.keepLatestPerEndpoint ?? true);
+  }, [project]);
+
+  const buildPolicy = (): RetentionPolicy => ({
+    keepRuns: parseLimit(keepRuns),
+    keepDays: parseLimit(keepDays),
+    keepLatestPerEndpoint,
+  });
+
+  const handleSave = async () => {
+    if (!project) return;
+    const updated = projects.map(p =>
+      p.id === project.id ? { ...p, retention: buildPolicy(), updatedAt: new Date().toISOString() } : p
+    );
+    if (await saveStoredData('projects', updated)) {
+      toast.success(`Retention policy saved for ${project.name}`);
+    }
+  };
+
+  const handleCompact = async () => {
+    if (!project) return;
+    if (isLockedByOtherTab(project.id)) {
+      toast.error('Project is being scanned', {
+        description: `${getScanLock(project.id)?.owner} is scanning ${project.name} in another tab. Try again when the scan has finished.`
+      });
+      return;
+    }
+    setIsCompacting(true);
+    try {
+      const summary = await applyRetention({ ...project, retention: buildPolicy() });
+      toast.success(summary.runs + summary.results > 0
+        ? `Compacted ${summary.runs} runs and ${summary.results} results`
+        : 'Nothing to compact');
+    } finally {
+      setIsCompacting(false);
+    }
+  };
+
+  return (
+    <Card className="card-blue">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5 text-primary" />
+          Result Retention
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Runs outside the policy are compacted after each scan: their results are deleted and only aggregate statistics are kept for the dashboard trend.
+        </p>
+        <Select value={projectId} onValueChange={setProjectId}>
+          <SelectTrigger>
+            <SelectValue placeholder="Choose a project..." />
+          </SelectTrigger>
+          <SelectContent>
+            {projects.map((p) => (
+              <SelectItem key={p.id} value={p.id}>
+                {p.name}{hasRetentionLimits(p.retention) ? '' : ' (keeps everything)'}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {project && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="keep-runs">Keep the last N runs</Label>
+                <Input
+                  id="keep-runs"
+                  type="number"
+                  min={1}
+                  value={keepRuns}
+                  onChange={(e) => setKeepRuns(e.target.value)}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="keep-days">Keep runs for X days</Label>
+                <Input
+                  id="keep-days"
+                  type="number"
+                  min={1}
+                  value={keepDays}
+                  onChange={(e) => setKeepDays(e.target.value)}
+                  placeholder="Unlimited"
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="keep-latest" checked={keepLatestPerEndpoint} onCheckedChange={setKeepLatestPerEndpoint} />
+              <Label htmlFor="keep-latest">Always keep the latest result of every endpoint</Label>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSave}>
+                <Save className="h-4 w-4 mr-2" />
+                Save Policy
+              </Button>
+              <Button variant="outline" onClick={handleCompact} disabled={isCompacting || !hasRetentionLimits(buildPolicy())}>
+                <Minimize2 className="h-4 w-4 mr-2" />
+                {isCompacting ? 'Compacting...' : 'Compact Now'}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,73 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Gauge } from 'lucide-react';
+import { Endpoint, Project, TestResult } from '@/lib/models';
+import { getProjectRisk } from '@/lib/risk';
+import { getCvssSeverity, SEVERITY_LABELS } from '@/lib/scan';
+import { SeverityBadge } from './ResultFindings';
+
+// Riskiest endpoints listed per project
+const TOP_ENDPOINTS = 5;
+
+interface RiskOverviewProps {
+  projects: Project[];
+  endpoints: Endpoint[];
+  testResults: TestResult[];
+}
+
+export const RiskOverview = ({ projects, endpoints, testResults }: RiskOverviewProps) => {
+  const risks = projects
+    .map(project => getProjectRisk(project, testResults, endpoints))
+    .filter(risk => risk.endpoints.length > 0)
+    .sort((a, b) => b.score - a.score);
+
+  return (
+    <Card className="card-red">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5 text-primary" />
+          Risk Overview
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {risks.length === 0 ? (
+          <div className="text-center py-8">
+            <Gauge className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No scanned projects yet</p>
+            <p className="text-sm text-muted-foreground">Scores combine the latest findings of each endpoint with its priority</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {risks.map((risk) => (
+              <div key={risk.projectId} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">{risk.projectName}</span>
+                  <SeverityBadge severity={getCvssSeverity(risk.score)} />
+                  <span className="ml-auto font-mono text-sm">{risk.score.toFixed(1)} / 10</span>
+                </div>
+                <Progress value={risk.score * 10} className="h-2" />
+                <ul className="space-y-1">
+                  {risk.endpoints.slice(0, TOP_ENDPOINTS).map((endpoint) => (
+                    <li key={endpoint.endpointKey} className="flex items-center gap-2 text-sm">
+                      <span className="font-mono truncate">{endpoint.endpointName}</span>
+                      <Badge variant="outline" className="text-xs">{endpoint.priority}</Badge>
+                      {endpoint.topSeverity && (
+                        <span className="text-xs text-muted-foreground">
+                          {endpoint.findings} finding(s), worst {SEVERITY_LABELS[endpoint.topSeverity]}
+                        </span>
+                      )}
+                      <span className="ml-auto font-mono text-xs" title="Score weighted by endpoint priority">
+                        {endpoint.weightedScore.toFixed(1)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
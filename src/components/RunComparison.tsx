@@ -0,0 +1,217 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { GitCompare, Download, FileText, AlertTriangle, CheckCircle, ArrowRight } from 'lucide-react';
+import { ScanRun } from '@/lib/models';
+import { describeRun, exportComparisonCSV, exportComparisonJSON, FindingChange, StatusChange } from '@/lib/run-diff';
+import { useRunComparison } from '@/hooks/use-run-comparison';
+import { SeverityBadge } from './ResultFindings';
+
+interface RunPairSelectorProps {
+  runs: ScanRun[];
+  baseRunId: string;
+  targetRunId: string;
+  onBaseChange: (id: string) => void;
+  onTargetChange: (id: string) => void;
+}
+
+export const RunPairSelector = ({ runs, baseRunId, targetRunId, onBaseChange, onTargetChange }: RunPairSelectorProps) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+    <div className="space-y-2">
+      <Label>Baseline run</Label>
+      <Select value={baseRunId} onValueChange={onBaseChange}>
+        <SelectTrigger>
+          <SelectValue placeholder="Choose the earlier run..." />
+        </SelectTrigger>
+        <SelectContent>
+          {runs.map((run) => (
+            <SelectItem key={run.id} value={run.id} disabled={run.id === targetRunId}>
+              {describeRun(run)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+    <div className="space-y-2">
+      <Label>Compared run</Label>
+      <Select value={targetRunId} onValueChange={onTargetChange}>
+        <SelectTrigger>
+          <SelectValue placeholder="Choose the later run..." />
+        </SelectTrigger>
+        <SelectContent>
+          {runs.map((run) => (
+            <SelectItem key={run.id} value={run.id} disabled={run.id === baseRunId}>
+              {describeRun(run)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  </div>
+);
+
+const FindingList = ({ items, className }: { items: FindingChange[]; className: string }) => (
+  items.length === 0 ? (
+    <p className="text-center text-muted-foreground py-2">None</p>
+  ) : (
+    <ul className="space-y-1 text-sm">
+      {items.map((item, index) => (
+        <li key={`${item.endpointKey}-${index}`}>
+          <SeverityBadge severity={item.severity} />{' '}
+          <span className="font-mono font-medium">{item.endpointName}</span>
+          <span className="text-muted-foreground"> — </span>
+          <span className={className}>{item.finding}</span>
+        </li>
+      ))}
+    </ul>
+  )
+);
+
+const StatusList = ({ items }: { items: StatusChange[] }) => (
+  items.length === 0 ? (
+    <p className="text-center text-muted-foreground py-2">None</p>
+  ) : (
+    <ul className="space-y-1 text-sm">
+      {items.map((item) => (
+        <li key={item.endpointKey} className="flex items-center gap-2">
+          <span className="font-mono font-medium">{item.endpointName}</span>
+          <Badge variant="outline">{(item.from || 'not tested').toUpperCase()}</Badge>
+          <ArrowRight className="h-3 w-3" />
+          <Badge variant="outline">{(item.to || 'not tested').toUpperCase()}</Badge>
+        </li>
+      ))}
+    </ul>
+  )
+);
+
+interface RunComparisonProps {
+  projectId: string;
+  projectName: string;
+}
+
+export const RunComparison = ({ projectId, projectName }: RunComparisonProps) => {
+  const { runs, baseRunId, setBaseRunId, targetRunId, setTargetRunId, comparison } = useRunComparison(projectId);
+
+  return (
+    <Card className="card-orange">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitCompare className="h-5 w-5 text-primary" />
+          Compare Runs
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {runs.length < 2 ? (
+          <div className="text-center py-8">
+            <GitCompare className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">At least two finished runs are needed for a comparison</p>
+            <p className="text-sm text-muted-foreground">Run the test suite again to see what changed</p>
+          </div>
+        ) : (
+          <>
+            <RunPairSelector
+              runs={runs}
+              baseRunId={baseRunId}
+              targetRunId={targetRunId}
+              onBaseChange={setBaseRunId}
+              onTargetChange={setTargetRunId}
+            />
+
+            {comparison && (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="text-center p-3 border border-border rounded-lg bg-destructive/10">
+                    <div className="text-2xl font-bold text-destructive">{comparison.newFindings.length}</div>
+                    <div className="text-xs text-muted-foreground">New findings</div>
+                  </div>
+                  <div className="text-center p-3 border border-border rounded-lg bg-success/10">
+                    <div className="text-2xl font-bold text-success">{comparison.fixedFindings.length}</div>
+                    <div className="text-xs text-muted-foreground">Fixed findings</div>
+                  </div>
+                  <div className="text-center p-3 border border-border rounded-lg bg-warning/10">
+                    <div className="text-2xl font-bold text-warning">{comparison.regressed.length}</div>
+                    <div className="text-xs text-muted-foreground">Regressed endpoints</div>
+                  </div>
+                  <div className="text-center p-3 border border-border rounded-lg bg-primary/10">
+                    <div className="text-2xl font-bold text-primary">{comparison.resolved.length}</div>
+                    <div className="text-xs text-muted-foreground">Resolved endpoints</div>
+                  </div>
+                </div>
+
+                <Accordion type="multiple" defaultValue={['new', 'regressed']} className="space-y-2">
+                  <AccordionItem value="new" className="border border-destructive/20 rounded-lg bg-destructive/5">
+                    <AccordionTrigger className="px-4 hover:no-underline">
+                      <div className="flex items-center gap-2">
+                        <AlertTriangle className="h-4 w-4 text-destructive" />
+                        New Findings
+                      </div>
+                    </AccordionTrigger>
+                    <AccordionContent className="px-4">
+                      <FindingList items={comparison.newFindings} className="text-destructive" />
+                    </AccordionContent>
+                  </AccordionItem>
+                  <AccordionItem value="fixed" className="border border-success/20 rounded-lg bg-success/5">
+                    <AccordionTrigger className="px-4 hover:no-underline">
+                      <div className="flex items-center gap-2">
+                        <CheckCircle className="h-4 w-4 text-success" />
+                        Fixed Findings
+                      </div>
+                    </AccordionTrigger>
+                    <AccordionContent className="px-4">
+                      <FindingList items={comparison.fixedFindings} className="text-success line-through" />
+                    </AccordionContent>
+                  </AccordionItem>
+                  <AccordionItem value="regressed" className="border border-warning/20 rounded-lg bg-warning/5">
+                    <AccordionTrigger className="px-4 hover:no-underline">
+                      <div className="flex items-center gap-2">
+                        <AlertTriangle className="h-4 w-4 text-warning" />
+                        Regressed (pass → fail)
+                      </div>
+                    </AccordionTrigger>
+                    <AccordionContent className="px-4">
+                      <StatusList items={comparison.regressed} />
+                    </AccordionContent>
+                  </AccordionItem>
+                  <AccordionItem value="resolved" className="border border-primary/20 rounded-lg bg-primary/5">
+                    <AccordionTrigger className="px-4 hover:no-underline">
+                      <div className="flex items-center gap-2">
+                        <CheckCircle className="h-4 w-4 text-primary" />
+                        Resolved (fail → pass)
+                      </div>
+                    </AccordionTrigger>
+                    <AccordionContent className="px-4">
+                      <StatusList items={comparison.resolved} />
+                    </AccordionContent>
+                  </AccordionItem>
+                  <AccordionItem value="other" className="border border-border rounded-lg">
+                    <AccordionTrigger className="px-4 hover:no-underline">
+                      Other Changes ({comparison.otherChanges.length}) • Persisting Findings ({comparison.persistingFindings.length})
+                    </AccordionTrigger>
+                    <AccordionContent className="px-4 space-y-3">
+                      <StatusList items={comparison.otherChanges} />
+                      <FindingList items={comparison.persistingFindings} className="text-muted-foreground" />
+                    </AccordionContent>
+                  </AccordionItem>
+                </Accordion>
+
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => exportComparisonCSV(comparison, projectName)}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Export CSV
+                  </Button>
+                  <Button variant="outline" onClick={() => exportComparisonJSON(comparison, projectName)}>
+                    <FileText className="h-4 w-4 mr-2" />
+                    Export JSON
+                  </Button>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,204 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { History, Eye, CheckCircle, AlertTriangle, Clock, User } from 'lucide-react';
+import { Project, ScanRun, TestResult } from '@/lib/models';
+import { getScanRuns, getRunResults, getRunDuration } from '@/lib/scan-runs';
+import { useStorageVersion } from '@/hooks/use-stored-data';
+import { ResultFindings } from './ResultFindings';
+
+interface ScanRunHistoryProps {
+  projectId?: string;
+  projects?: Project[];
+  activeRunId?: string | null;
+  limit?: number;
+}
+
+const formatDuration = (ms?: number) => {
+  if (ms === undefined) return '—';
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const getRunStatusLabel = (run: ScanRun, activeRunId?: string | null) => {
+  // A run still marked running that isn't the active one was cut off by a reload or closed tab
+  if (run.status === 'running' && run.id !== activeRunId) return 'interrupted';
+  return run.status;
+};
+
+export const ScanRunHistory = ({ projectId, projects = [], activeRunId, limit }: ScanRunHistoryProps) => {
+  const [runs, setRuns] = useState<ScanRun[]>([]);
+  const [openRun, setOpenRun] = useState<ScanRun | null>(null);
+  const [runResults, setRunResults] = useState<TestResult[]>([]);
+  const runsVersion = useStorageVersion(['scanRuns']);
+
+  useEffect(() => {
+    getScanRuns(projectId).then(setRuns);
+  }, [projectId, runsVersion]);
+
+  useEffect(() => {
+    if (openRun) {
+      getRunResults(openRun.id).then(setRunResults);
+    } else {
+      setRunResults([]);
+    }
+  }, [openRun]);
+
+  const visibleRuns = limit ? runs.slice(0, limit) : runs;
+
+  const getProjectName = (id: string) => projects.find(p => p.id === id)?.name || 'Unknown project';
+
+  return (
+    <Card className="card-blue">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          Scan History ({runs.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {visibleRuns.length === 0 ? (
+          <div className="text-center py-8">
+            <History className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No scan runs recorded yet</p>
+            <p className="text-sm text-muted-foreground">Each execution of the scanner is listed here</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {visibleRuns.map((run) => {
+              const status = getRunStatusLabel(run, activeRunId);
+              return (
+                <div
+                  key={run.id}
+                  className="flex items-center justify-between p-3 border border-border rounded-lg bg-muted/30 hover:bg-muted/50 transition-colors"
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-mono text-sm font-medium">
+                        {new Date(run.startedAt).toLocaleString()}
+                      </span>
+                      {!projectId && <Badge variant="outline">{getProjectName(run.projectId)}</Badge>}
+                      <Badge variant="secondary">{run.trigger === 'all' ? 'Full run' : 'Single endpoint'}</Badge>
+                      {run.environment && <Badge variant="outline">{run.environment.name}</Badge>}
+                      <Badge
+                        variant={status === 'completed' ? 'default' : status === 'running' ? 'secondary' : 'outline'}
+                        className={status === 'interrupted' || status === 'stopped' ? 'text-warning border-warning' : ''}
+                      >
+                        {status.toUpperCase()}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1"><User className="h-3 w-3" />{run.triggeredBy}</span>
+                      <span className="flex items-center gap-1"><Clock className="h-3 w-3" />{formatDuration(getRunDuration(run))}</span>
+                      <span className="text-success">{run.counts.pass} pass</span>
+                      <span className="text-destructive">{run.counts.fail} fail</span>
+                      <span className="text-warning">{run.counts.error} error</span>
+                    </div>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setOpenRun(run)}>
+                    <Eye className="h-4 w-4 mr-2" />
+                    Open
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!openRun} onOpenChange={(open) => !open && setOpenRun(null)}>
+        <DialogContent className="max-w-3xl">
+          {openRun && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Scan run {new Date(openRun.startedAt).toLocaleString()}</DialogTitle>
+                <DialogDescription>
+                  {getProjectName(openRun.projectId)}{openRun.environment && ` (${openRun.environment.name})`} • triggered by {openRun.triggeredBy} • {getRunStatusLabel(openRun, activeRunId)}
+                </DialogDescription>
+              </DialogHeader>
+              <ScrollArea className="max-h-[60vh] pr-4">
+                <div className="space-y-4 text-sm">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    <div className="text-center p-2 border border-border rounded-lg bg-primary/10">
+                      <div className="text-xl font-bold text-primary">{openRun.counts.total}</div>
+                      <div className="text-xs text-muted-foreground">Results</div>
+                    </div>
+                    <div className="text-center p-2 border border-border rounded-lg bg-success/10">
+                      <div className="text-xl font-bold text-success">{openRun.counts.pass}</div>
+                      <div className="text-xs text-muted-foreground">Pass</div>
+                    </div>
+                    <div className="text-center p-2 border border-border rounded-lg bg-destructive/10">
+                      <div className="text-xl font-bold text-destructive">{openRun.counts.fail}</div>
+                      <div className="text-xs text-muted-foreground">Fail</div>
+                    </div>
+                    <div className="text-center p-2 border border-border rounded-lg bg-warning/10">
+                      <div className="text-xl font-bold text-warning">{openRun.counts.error}</div>
+                      <div className="text-xs text-muted-foreground">Error</div>
+                    </div>
+                  </div>
+
+                  <div>
+                    <h4 className="font-semibold mb-1">Configuration</h4>
+                    <p className="text-muted-foreground">
+                      Content check: {openRun.config.checkContent ? `"${openRun.config.expectedContent}"` : 'disabled'}
+                    </p>
+                    <p className="text-muted-foreground">Duration: {formatDuration(getRunDuration(openRun))}</p>
+                  </div>
+
+                  <div>
+                    <h4 className="font-semibold mb-1">Endpoints ({openRun.endpoints.length})</h4>
+                    <div className="space-y-1">
+                      {openRun.endpoints.map((endpoint) => (
+                        <p key={endpoint.id} className="font-mono text-xs text-muted-foreground">
+                          {endpoint.method} {endpoint.url} <span className="text-foreground">({endpoint.name})</span>
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <h4 className="font-semibold mb-1">Results ({runResults.length})</h4>
+                    {runResults.length === 0 ? (
+                      <p className="text-muted-foreground">No results were recorded for this run</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {runResults.map((result) => (
+                          <div key={result.id} className="p-2 border border-border rounded-lg bg-muted/30">
+                            <div className="flex items-center gap-2">
+                              {result.status === 'pass'
+                                ? <CheckCircle className="h-4 w-4 text-success" />
+                                : <AlertTriangle className={`h-4 w-4 ${result.status === 'fail' ? 'text-destructive' : 'text-warning'}`} />}
+                              <span className="font-mono font-medium">{result.endpointName}</span>
+                              <Badge variant="outline" className="text-xs">{result.statusCode || 'N/A'}</Badge>
+                              <span className="text-xs text-muted-foreground ml-auto">{result.responseTime}ms</span>
+                            </div>
+                            {result.vulnerabilities.length > 0 && (
+                              <ul className="list-disc pl-8 mt-1 text-xs text-destructive">
+                                {result.vulnerabilities.map((vuln, index) => (
+                                  <li key={index}>{vuln}</li>
+                                ))}
+                              </ul>
+                            )}
+                            {result.findings?.length > 0 && (
+                              <div className="pl-6 mt-2">
+                                <ResultFindings findings={result.findings} showRemediation={false} />
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </ScrollArea>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
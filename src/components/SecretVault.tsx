@@ -0,0 +1,226 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { KeyRound, Lock, Unlock, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  StoredVault,
+  VAULT_KEY,
+  VaultError,
+  createVault,
+  deleteSecret,
+  isVaultUnlocked,
+  lockVault,
+  setSecret,
+  subscribeToVault,
+  unlockVault,
+} from '@/lib/vault';
+import { useStoredData } from '@/hooks/use-stored-data';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export const SecretVault = () => {
+  const [vault, , vaultLoaded] = useStoredData<StoredVault | null>(VAULT_KEY, null);
+  const [unlocked, setUnlocked] = useState(isVaultUnlocked());
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [secretName, setSecretName] = useState('');
+  const [secretValue, setSecretValue] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => subscribeToVault(() => setUnlocked(isVaultUnlocked())), []);
+
+  const reportError = (error: unknown) => {
+    if (error instanceof VaultError) {
+      toast.error(error.message);
+      return;
+    }
+    console.error('Vault error:', error);
+    toast.error('Secret vault operation failed');
+  };
+
+  const handleCreate = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast.error(`The passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      toast.error('The passphrases do not match');
+      return;
+    }
+    setIsWorking(true);
+    try {
+      if (await createVault(passphrase)) {
+        toast.success('Secret vault created', {
+          description: 'The passphrase cannot be recovered; keep it somewhere safe.'
+        });
+      }
+    } catch (error) {
+      reportError(error);
+    } finally {
+      setIsWorking(false);
+      setPassphrase('');
+      setConfirmation('');
+    }
+  };
+
+  const handleUnlock = async () => {
+    setIsWorking(true);
+    try {
+      await unlockVault(passphrase);
+      toast.success('Secret vault unlocked');
+    } catch (error) {
+      reportError(error);
+    } finally {
+      setIsWorking(false);
+      setPassphrase('');
+    }
+  };
+
+  const handleAddSecret = async () => {
+    try {
+      if (await setSecret(secretName.trim(), secretValue)) {
+        toast.success(`Secret "${secretName.trim()}" saved`);
+        setSecretName('');
+        setSecretValue('');
+      }
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const handleDeleteSecret = async (name: string) => {
+    if (await deleteSecret(name)) {
+      toast.success(`Secret "${name}" deleted`);
+    }
+  };
+
+  const secretNames = Object.keys(vault?.secrets || {}).sort();
+
+  return (
+    <Card className="card-purple">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5 text-primary" />
+            Secret Vault
+          </span>
+          {vault && (
+            <Badge variant={unlocked ? 'default' : 'outline'}>
+              {unlocked ? 'UNLOCKED' : 'LOCKED'}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Tokens, API keys and passwords are encrypted with your passphrase. Reference them in endpoint URLs, headers or bodies as <code className="text-xs bg-muted p-1 rounded">{'{{secret:name}}'}</code>; they are only decrypted while a test runs.
+        </p>
+
+        {vaultLoaded && !vault && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="vault-passphrase">Passphrase</Label>
+                <Input id="vault-passphrase" type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vault-confirmation">Confirm passphrase</Label>
+                <Input id="vault-confirmation" type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} />
+              </div>
+            </div>
+            <Button onClick={handleCreate} disabled={isWorking || !passphrase}>
+              <Lock className="h-4 w-4 mr-2" />
+              Create Vault
+            </Button>
+          </div>
+        )}
+
+        {vault && !unlocked && (
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleUnlock();
+            }}
+          >
+            <Input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Vault passphrase"
+            />
+            <Button type="submit" disabled={isWorking || !passphrase}>
+              <Unlock className="h-4 w-4 mr-2" />
+              {isWorking ? 'Unlocking...' : 'Unlock'}
+            </Button>
+          </form>
+        )}
+
+        {vault && (
+          <div className="space-y-2">
+            <h4 className="font-semibold">Secrets ({secretNames.length})</h4>
+            {secretNames.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No secrets stored yet</p>
+            ) : (
+              secretNames.map((name) => (
+                <div key={name} className="flex items-center justify-between p-2 border border-border rounded-lg bg-muted/30">
+                  <div>
+                    <span className="font-mono text-sm font-medium">{`{{secret:${name}}}`}</span>
+                    <span className="font-mono text-xs text-muted-foreground ml-3">••••••••</span>
+                    <p className="text-xs text-muted-foreground">
+                      Updated {new Date(vault.secrets[name].updatedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleDeleteSecret(name)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        {vault && unlocked && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="secret-name">Name</Label>
+                <Input
+                  id="secret-name"
+                  value={secretName}
+                  onChange={(e) => setSecretName(e.target.value)}
+                  placeholder="api-token"
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="secret-value">Value</Label>
+                <Input
+                  id="secret-value"
+                  type="password"
+                  value={secretValue}
+                  onChange={(e) => setSecretValue(e.target.value)}
+                  autoComplete="off"
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleAddSecret} disabled={!secretName.trim() || !secretValue}>
+                <Plus className="h-4 w-4 mr-2" />
+                Save Secret
+              </Button>
+              <Button variant="outline" onClick={lockVault}>
+                <Lock className="h-4 w-4 mr-2" />
+                Lock Vault
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
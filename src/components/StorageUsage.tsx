@@ -0,0 +1,72 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { HardDrive } from 'lucide-react';
+import { formatBytes, getStorageEstimate, getStorageUsage, ProjectStorageUsage } from '@/lib/retention';
+import { useStorageVersion } from '@/hooks/use-stored-data';
+
+const COLLECTION_LABELS: Record<string, string> = {
+  endpoints: 'Endpoints',
+  testResults: 'Results',
+  scanRuns: 'Runs',
+  portScans: 'Port scans',
+  runStats: 'Compacted stats',
+};
+
+export const StorageUsage = () => {
+  const [usage, setUsage] = useState<ProjectStorageUsage[]>([]);
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const dataVersion = useStorageVersion(['projects', 'endpoints', 'testResults', 'scanRuns', 'portScans', 'runStats']);
+
+  useEffect(() => {
+    getStorageUsage().then(setUsage);
+    getStorageEstimate().then(setEstimate);
+  }, [dataVersion]);
+
+  const largest = usage[0]?.total || 0;
+
+  return (
+    <Card className="card-green">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HardDrive className="h-5 w-5 text-primary" />
+          Storage Usage
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {estimate?.quota ? (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>Browser storage used</span>
+              <span className="font-mono">{formatBytes(estimate.usage || 0)} of {formatBytes(estimate.quota)}</span>
+            </div>
+            <Progress value={((estimate.usage || 0) / estimate.quota) * 100} />
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">This browser does not report its storage quota</p>
+        )}
+
+        {usage.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No projects yet</p>
+        ) : (
+          <div className="space-y-3">
+            {usage.map((project) => (
+              <div key={project.projectId} className="p-3 border border-border rounded-lg bg-muted/30 space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">{project.projectName}</span>
+                  <span className="font-mono">{formatBytes(project.total)}</span>
+                </div>
+                <Progress value={largest > 0 ? (project.total / largest) * 100 : 0} />
+                <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+                  {Object.entries(project.bytes).filter(([, bytes]) => bytes > 0).map(([key, bytes]) => (
+                    <span key={key}>{COLLECTION_LABELS[key] || key}: {formatBytes(bytes)}</span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,123 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Endpoint, Finding, Suppression, SuppressionScope } from '@/lib/models';
+import { getSuppressionProblem, SUPPRESSION_SCOPE_LABELS } from '@/lib/scan';
+
+export interface SuppressionTarget {
+  finding: Finding;
+  // Missing when the endpoint was deleted after the scan; only the project scope is left then
+  endpoint?: Endpoint;
+}
+
+interface SuppressionDialogProps {
+  target: SuppressionTarget | null;
+  defaultOwner: string;
+  onSave: (suppression: Suppression) => void;
+  onClose: () => void;
+}
+
+export const SuppressionDialog = ({ target, defaultOwner, onSave, onClose }: SuppressionDialogProps) => {
+  const [scope, setScope] = useState<SuppressionScope>('endpoint');
+  const [reason, setReason] = useState('');
+  const [owner, setOwner] = useState(defaultOwner);
+  const [expiresAt, setExpiresAt] = useState('');
+
+  // Start from a clean form for every finding
+  useEffect(() => {
+    if (!target) return;
+    setScope(target.endpoint ? 'endpoint' : 'project');
+    setReason('');
+    setOwner(defaultOwner);
+    setExpiresAt('');
+  }, [target, defaultOwner]);
+
+  const handleSave = () => {
+    if (!target) return;
+    const suppression: Suppression = {
+      id: Date.now().toString(),
+      checkId: target.finding.checkId,
+      scope,
+      endpointId: scope === 'endpoint' ? target.endpoint?.id : undefined,
+      category: scope === 'category' ? target.endpoint?.category : undefined,
+      reason: reason.trim(),
+      owner: owner.trim(),
+      expiresAt: expiresAt || undefined,
+      createdAt: new Date().toISOString()
+    };
+
+    const problem = getSuppressionProblem(suppression);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    onSave(suppression);
+  };
+
+  const scopeTarget: Record<SuppressionScope, string | undefined> = {
+    endpoint: target?.endpoint?.name,
+    category: target?.endpoint?.category,
+    project: undefined,
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Accept "{target?.finding.title}"</DialogTitle>
+          <DialogDescription>
+            Suppressed findings stay on record but no longer fail endpoints. The suppression applies from the next scan.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Scope</Label>
+            <Select value={scope} onValueChange={(value) => setScope(value as SuppressionScope)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SUPPRESSION_SCOPE_LABELS)
+                  .filter(([value]) => value === 'project' || target?.endpoint)
+                  .map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}{scopeTarget[value as SuppressionScope] && ` (${scopeTarget[value as SuppressionScope]})`}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="suppression-reason">Reason *</Label>
+            <Textarea
+              id="suppression-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., Internal API, only reachable from the VPN"
+              rows={2}
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="suppression-owner">Owner *</Label>
+              <Input id="suppression-owner" value={owner} onChange={(e) => setOwner(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="suppression-expiry">Expires</Label>
+              <Input id="suppression-expiry" type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave}>Suppress Finding</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
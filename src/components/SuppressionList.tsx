@@ -0,0 +1,57 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Trash2 } from 'lucide-react';
+import { Endpoint, Suppression } from '@/lib/models';
+import { getCheck, isSuppressionActive, SUPPRESSION_SCOPE_LABELS } from '@/lib/scan';
+
+interface SuppressionListProps {
+  suppressions: Suppression[];
+  // Used to name the suppressed endpoints
+  endpoints: Endpoint[];
+  onChange: (suppressions: Suppression[]) => void;
+}
+
+export const SuppressionList = ({ suppressions, endpoints, onChange }: SuppressionListProps) => {
+  const describeScope = (suppression: Suppression) => {
+    switch (suppression.scope) {
+      case 'endpoint': return endpoints.find(e => e.id === suppression.endpointId)?.name || 'Deleted endpoint';
+      case 'category': return `${suppression.category} endpoints`;
+      case 'project': return SUPPRESSION_SCOPE_LABELS.project;
+    }
+  };
+
+  if (suppressions.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        No suppressed findings. Suppress a finding from the scan results to accept it.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {suppressions.map((suppression) => (
+        <div key={suppression.id} className="flex items-start gap-2 p-2 border border-border rounded-lg text-sm">
+          <div className="flex-1 space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{getCheck(suppression.checkId)?.title || suppression.checkId}</span>
+              <Badge variant="outline" className="text-xs">{describeScope(suppression)}</Badge>
+              {!isSuppressionActive(suppression) && <Badge variant="destructive" className="text-xs">Expired</Badge>}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {suppression.reason} ({suppression.owner}{suppression.expiresAt && `, until ${suppression.expiresAt}`})
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(suppressions.filter(s => s.id !== suppression.id))}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
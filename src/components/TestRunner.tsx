@@ -6,76 +6,88 @@ import { Progress } from '@/components/ui/progress';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import { Play, Pause, Square, RotateCcw, Zap, AlertTriangle, CheckCircle, Clock, Download, Settings, FolderOpen } from 'lucide-react';
+import { Play, Pause, Square, RotateCcw, Zap, AlertTriangle, CheckCircle, Clock, Download, Settings, FolderOpen, ShieldOff } from 'lucide-react';
 import { toast } from 'sonner';
-import { getStoredData, saveStoredData } from '@/lib/storage';
+import { getStoredData, saveStoredData, appendStoredData, removeStoredData } from '@/lib/storage';
 import { getSessionData, saveSessionData, SESSION_KEYS } from '@/lib/session';
-import { ProjectManager, Project } from './ProjectManager';
-import axios from 'axios';
-
-interface Endpoint {
-  id: string;
-  name: string;
-  url: string;
-  method: string;
-  headers?: string;
-  body?: string;
-  priority: string;
-  projectId: string;
-  expectedStatusCode?: number;
-  expectedContent?: string;
-}
-
-interface TestResult {
-  id: string;
-  endpointName: string;
-  url: string;
-  method: string;
-  status: 'pass' | 'fail' | 'error';
-  vulnerabilities: string[];
-  responseTime?: number;
-  statusCode?: number;
-  timestamp: string;
-  projectId: string;
-  actualContent?: string;
-}
-
-interface TestConfig {
-  projectId: string;
-  expectedContent: string;
-  checkContent: boolean;
-}
+import { ProjectManager } from './ProjectManager';
+import { Endpoint, Project, ScanProfile, ScanRun, Suppression, TestConfig, TestResult } from '@/lib/models';
+import { startScanRun, finishScanRun, OPERATOR_NAME_KEY, DEFAULT_OPERATOR } from '@/lib/scan-runs';
+import { acquireScanLock, releaseScanLock } from '@/lib/scan-lock';
+import { applyRetention } from '@/lib/retention';
+import { useStoredData } from '@/hooks/use-stored-data';
+import { useScanLock } from '@/hooks/use-scan-lock';
+import { hasSecretReferences, maskSecrets } from '@/lib/secrets';
+import { isVaultUnlocked, resolveSecrets } from '@/lib/vault';
+import {
+  CORS_CHECKS,
+  createScan,
+  createTransport,
+  DEFAULT_TRANSPORT_SETTINGS,
+  getActiveFindings,
+  getEnabledChecks,
+  getEnvironmentVariables,
+  getProjectEnvironment,
+  getSuppressedFindings,
+  getTransportProblem,
+  SCAN_PROFILES_KEY,
+  ScanController,
+  ScanOutcome,
+  substituteVariables,
+  summarizeFindings,
+  TRANSPORT_SETTINGS_KEY,
+  TransportSettings
+} from '@/lib/scan';
+import { ScanRunHistory } from './ScanRunHistory';
+import { RunComparison } from './RunComparison';
+import { TransportSettingsPanel } from './TransportSettingsPanel';
+import { ResultFindings } from './ResultFindings';
+import { CheckSelection } from './CheckSelection';
+import { SuppressionDialog, SuppressionTarget } from './SuppressionDialog';
 
 type TestState = 'idle' | 'running' | 'paused' | 'stopped';
 
+// Select value for checks chosen by hand rather than from a saved scan profile
+const CUSTOM_CHECKS = 'custom';
+
 interface TestRunnerProps {
   onScanningStateChange?: (isScanning: boolean) => void;
 }
 
 export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
-  const [endpoints, setEndpoints] = useState<Endpoint[]>([]);
-  const [projects, setProjects] = useState<Project[]>([]);
+  const [endpoints] = useStoredData<Endpoint[]>('endpoints', []);
+  const [projects] = useStoredData<Project[]>('projects', []);
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
-  const [testResults, setTestResults] = useState<TestResult[]>([]);
+  // Falls back to the project's default environment when unset or no longer defined
+  const [environmentId, setEnvironmentId] = useState<string | null>(null);
+  const [testResults, setTestResults] = useStoredData<TestResult[]>('testResults', []);
   const [testState, setTestState] = useState<TestState>('idle');
-  const [currentTest, setCurrentTest] = useState<string | null>(null);
+  // Endpoints with a request in flight; several at once when the run is concurrent
+  const [runningTests, setRunningTests] = useState<string[]>([]);
   const [currentTestIndex, setCurrentTestIndex] = useState(0);
   const [progress, setProgress] = useState(0);
   const [searchQuery, setSearchQuery] = useState('');
   const [testConfig, setTestConfig] = useState<TestConfig>({
     projectId: '',
     expectedContent: '',
-    checkContent: false
+    checkContent: false,
+    concurrency: 1,
+    checkOverrides: {}
   });
+  const [scanProfiles, setScanProfiles] = useStoredData<ScanProfile[]>(SCAN_PROFILES_KEY, []);
+  const [scanProfileName, setScanProfileName] = useState('');
   const [showConfig, setShowConfig] = useState(false);
+  const [suppressing, setSuppressing] = useState<SuppressionTarget | null>(null);
+  const [operatorName, setOperatorName] = useStoredData<string>(OPERATOR_NAME_KEY, DEFAULT_OPERATOR);
+  const [transportSettings] = useStoredData<TransportSettings>(TRANSPORT_SETTINGS_KEY, DEFAULT_TRANSPORT_SETTINGS);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
   const [summary, setSummary] = useState({ total: 0, pass: 0, fail: 0, notStarted: 0 });
-  
-  // Ref to track the current state for the test loop
-  const testStateRef = useRef<TestState>('idle');
-  
-  // Helper to get current state without type narrowing
-  const getCurrentState = (): TestState => testStateRef.current;
+  // Set while another tab is scanning the selected project
+  const foreignLock = useScanLock(selectedProject?.id);
+  // Engine driving the current run, if any
+  const scanRef = useRef<ScanController | null>(null);
 
   // Notify parent when scanning state changes
   useEffect(() => {
@@ -84,32 +96,23 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
   }, [testState, onScanningStateChange]);
 
   useEffect(() => {
-    const storedEndpoints = getStoredData('endpoints', []);
-    const storedProjects = getStoredData('projects', []);
     const sessionProject = getSessionData(SESSION_KEYS.SELECTED_PROJECT, null);
-    
-    setEndpoints(storedEndpoints);
-    setProjects(storedProjects);
-    
+
     if (sessionProject) {
-      const project = storedProjects.find((p: Project) => p.id === sessionProject.id);
-      if (project) setSelectedProject(project);
+      getStoredData<Project[]>('projects', []).then(storedProjects => {
+        const project = storedProjects.find((p: Project) => p.id === sessionProject.id);
+        if (project) setSelectedProject(project);
+      });
     }
 
-    // Restore session state including test results
+    // Restore scanner progress from session; results themselves come from storage
     const savedState = getSessionData(SESSION_KEYS.SCANNER_STATE, null);
     if (savedState) {
-      // Restore test results from session
-      if (savedState.testResults) {
-        setTestResults(savedState.testResults);
-      }
-      
       // Reset to idle if was running, paused, or stopped
       const restoredState = ['running', 'paused', 'stopped'].includes(savedState.testState) 
         ? 'idle' 
         : savedState.testState;
       setTestState(restoredState);
-      testStateRef.current = restoredState;
       setCurrentTestIndex(savedState.currentTestIndex || 0);
       setProgress(savedState.progress || 0);
     }
@@ -122,17 +125,13 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
   }, [selectedProject]);
 
   useEffect(() => {
-    // Update ref whenever state changes
-    testStateRef.current = testState;
-    
-    // Save scanner state to session including test results
+    // Save scanner state to session
     saveSessionData(SESSION_KEYS.SCANNER_STATE, {
       testState,
       currentTestIndex,
-      progress,
-      testResults
+      progress
     });
-  }, [testState, currentTestIndex, progress, testResults]);
+  }, [testState, currentTestIndex, progress]);
 
   useEffect(() => {
     // Update summary stats
@@ -146,9 +145,10 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
     });
   }, [endpoints, testResults, selectedProject]);
 
+  // Only the new results are written; the rest of the history is already persisted
   const saveResults = (newResults: TestResult[]) => {
-    setTestResults(newResults);
-    saveStoredData('testResults', newResults);
+    setTestResults(prev => [...prev, ...newResults]);
+    appendStoredData('testResults', newResults);
   };
 
   const getProjectEndpoints = () => {
@@ -168,163 +168,130 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
     );
   };
 
-  const replaceIPAddress = (url: string, projectIP?: string) => {
-    if (!projectIP || !projectIP.trim()) return url;
-    
-    try {
-      if (url.startsWith('http://') || url.startsWith('https://')) {
-        const urlObj = new URL(url);
-        if (!urlObj.hostname.match(/^\d+\.\d+\.\d+\.\d+$/) || urlObj.hostname !== projectIP) {
-          urlObj.hostname = projectIP;
-        }
-        return urlObj.toString();
-      }
-      
-      if (url.includes('://')) {
-        return url;
-      }
-      
-      const domainPortPath = url.split('/');
-      const domainPort = domainPortPath[0];
-      const pathPart = domainPortPath.slice(1).join('/');
-      
-      let newDomainPort;
-      if (domainPort.includes(':')) {
-        const [, port] = domainPort.split(':');
-        newDomainPort = `${projectIP}:${port}`;
-      } else {
-        newDomainPort = projectIP;
-      }
-      
-      return pathPart ? `${newDomainPort}/${pathPart}` : newDomainPort;
-      
-    } catch (error) {
-      console.warn('Error replacing IP address:', error);
-      return url;
-    }
+  const selectedEnvironment = getProjectEnvironment(selectedProject, environmentId);
+
+  const beginRun = async (trigger: ScanRun['trigger'], runEndpoints: Endpoint[]) => {
+    const run = await startScanRun({
+      projectId: selectedProject!.id,
+      trigger,
+      config: testConfig,
+      endpoints: runEndpoints,
+      environment: selectedEnvironment
+    });
+    setActiveRunId(run.id);
+    return run;
   };
 
-  const runSingleTest = async (endpoint: Endpoint): Promise<TestResult> => {
-    const startTime = Date.now();
-    setCurrentTest(endpoint.id);
-    
-    try {
-      const finalUrl = replaceIPAddress(endpoint.url, selectedProject?.ipAddress);
-      
-      let headers = {};
-      if (endpoint.headers) {
-        try {
-          headers = JSON.parse(endpoint.headers);
-        } catch (e) {
-          console.warn('Invalid headers JSON:', endpoint.headers);
-        }
-      }
+  const endRun = async (run: ScanRun, results: TestResult[], status: 'completed' | 'stopped') => {
+    await finishScanRun(run, results, status);
+    setActiveRunId(null);
 
-      const targetUrl = finalUrl.startsWith('http') ? finalUrl : `https://${finalUrl}`;
-      
-      const proxyServices = [
-        'https://api.codetabs.com/v1/proxy?quest=',
-        'https://cors-anywhere.herokuapp.com/',
-        'https://api.allorigins.win/raw?url='
-      ];
-      
-      let requestUrl = targetUrl;
-      if (!targetUrl.includes(window.location.hostname)) {
-        requestUrl = `${proxyServices[2]}${encodeURIComponent(targetUrl)}`;
-      }
+    // Compacted while the project is still locked, so no other tab scans it meanwhile
+    const project = projects.find(p => p.id === run.projectId);
+    if (project) await applyRetention(project);
+  };
 
-      const config: any = {
-        method: endpoint.method.toLowerCase(),
-        url: requestUrl,
-        headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'VulnScan-Pro/1.0',
-          'Accept': '*/*',
-          ...headers
-        },
-        timeout: 10000,
-        validateStatus: () => true,
-        maxRedirects: 3,
-        withCredentials: false
-      };
-
-      if (['post', 'put', 'patch'].includes(config.method) && endpoint.body) {
-        try {
-          config.data = JSON.parse(endpoint.body);
-        } catch (e) {
-          config.data = endpoint.body;
-        }
-      }
+  // Claims the project for this tab; another tab already scanning it wins
+  const claimProject = (project: Project) => {
+    const lock = acquireScanLock(project.id, operatorName.trim() || DEFAULT_OPERATOR);
+    if (!lock.acquired) {
+      toast.error('Project is already being scanned', {
+        description: `${lock.holder.owner} started a scan of ${project.name} in another tab at ${new Date(lock.holder.acquiredAt).toLocaleTimeString()}.`
+      });
+      return false;
+    }
+    return true;
+  };
 
-      const response = await axios(config);
-      const responseTime = Date.now() - startTime;
-      const responseText = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+  const ensureTransportReady = () => {
+    const problem = getTransportProblem({ ...DEFAULT_TRANSPORT_SETTINGS, ...transportSettings });
+    if (!problem) return true;
+    setShowConfig(true);
+    toast.error('Request transport is not configured', { description: problem });
+    return false;
+  };
 
-      let status: 'pass' | 'fail' | 'error' = 'pass';
-      const vulnerabilities = [];
+  // Secrets are only decrypted in this tab, so a locked vault has to be opened before the run starts
+  const ensureSecretsAvailable = (targets: Endpoint[]) => {
+    const needingSecrets = targets.filter(endpoint =>
+      hasSecretReferences(endpoint.url) || hasSecretReferences(endpoint.headers) || hasSecretReferences(endpoint.body));
+    const environmentNeedsSecrets = (selectedEnvironment?.variables || []).some(variable => hasSecretReferences(variable.value));
+    const profileIds = new Set(targets.map(endpoint => endpoint.authProfileId || selectedProject?.defaultAuthProfileId));
+    const profilesNeedingSecrets = (selectedProject?.authProfiles || [])
+      .filter(profile => profileIds.has(profile.id) && hasSecretReferences(JSON.stringify(profile)));
+    if ((needingSecrets.length === 0 && !environmentNeedsSecrets && profilesNeedingSecrets.length === 0) || isVaultUnlocked()) return true;
+    let source = `The ${selectedEnvironment?.name} environment references`;
+    if (needingSecrets.length > 0) source = `${needingSecrets.length} endpoint(s) reference`;
+    else if (profilesNeedingSecrets.length > 0) source = `Auth profile ${profilesNeedingSecrets.map(profile => profile.name).join(', ')} references`;
+    toast.error('Secret vault is locked', {
+      description: `${source} vault secrets. Unlock the vault in the Workspace tab first.`
+    });
+    return false;
+  };
 
-      if (endpoint.expectedStatusCode && response.status !== endpoint.expectedStatusCode) {
-        status = 'fail';
-        vulnerabilities.push(`Expected status ${endpoint.expectedStatusCode}, got ${response.status}`);
-      }
+  // Drives one engine run; progress and results are reported through its events.
+  // A failed run is recorded as stopped with what it reported so far, and the lock is released either way
+  const runScan = async (project: Project, trigger: ScanRun['trigger'], runEndpoints: Endpoint[]): Promise<ScanOutcome> => {
+    const reported: TestResult[] = [];
+    try {
+      const run = await beginRun(trigger, runEndpoints);
+      const scan = createScan({
+        runId: run.id,
+        project,
+        config: testConfig,
+        endpoints: runEndpoints,
+        variables: getEnvironmentVariables(run.environment),
+        transport: createTransport({ ...DEFAULT_TRANSPORT_SETTINGS, ...transportSettings }),
+        resolveSecrets
+      });
+      scanRef.current = scan;
 
-      if (testConfig.checkContent && testConfig.expectedContent) {
-        if (!responseText.includes(testConfig.expectedContent)) {
-          status = 'fail';
-          vulnerabilities.push(`Expected content "${testConfig.expectedContent}" not found in response`);
+      scan.subscribe((event) => {
+        switch (event.type) {
+          case 'endpointStarted':
+            setRunningTests(prev => [...prev, event.endpoint.id]);
+            setCurrentTestIndex(event.index);
+            break;
+          case 'endpointFinished':
+            setRunningTests(prev => prev.filter(id => id !== event.endpoint.id));
+            break;
+          case 'result':
+            reported.push(event.result);
+            setProgress((event.completed / event.total) * 100);
+            saveResults([event.result]);
+            break;
+          case 'paused':
+            setTestState('paused');
+            if (event.inFlight > 0) {
+              toast.info(`${event.inFlight} request(s) already in flight will still finish`);
+            }
+            break;
+          case 'resumed':
+            setTestState('running');
+            break;
         }
-      }
+      });
 
-      if (!response.headers['x-content-type-options']) {
-        vulnerabilities.push('Missing X-Content-Type-Options header');
-      }
-      if (!response.headers['x-frame-options']) {
-        vulnerabilities.push('Missing X-Frame-Options header');
-      }
-      if (!response.headers['x-xss-protection']) {
-        vulnerabilities.push('Missing X-XSS-Protection header');
+      let outcome: ScanOutcome;
+      try {
+        outcome = await scan.start();
+      } catch (error) {
+        toast.error('Scan failed', { description: error instanceof Error ? error.message : String(error) });
+        outcome = { status: 'stopped', results: reported };
       }
-      if (!response.headers['strict-transport-security'] && endpoint.url.startsWith('https:')) {
-        vulnerabilities.push('Missing Strict-Transport-Security header');
-      }
-      
-      if (response.status >= 500) {
-        vulnerabilities.push('Server Error - Potential Information Disclosure');
-      }
-      
-      if (responseText.includes('mysql_') || responseText.includes('ORA-') || responseText.includes('SQLException')) {
-        vulnerabilities.push('Potential SQL Error Information Disclosure');
-      }
-
-      return {
-        id: `${endpoint.id}_${Date.now()}`,
-        endpointName: endpoint.name,
-        url: endpoint.url,
-        method: endpoint.method,
-        status,
-        vulnerabilities,
-        responseTime,
-        statusCode: response.status,
-        timestamp: new Date().toISOString(),
-        projectId: endpoint.projectId,
-        actualContent: responseText.substring(0, 500)
-      };
-
-    } catch (error: any) {
-      const responseTime = Date.now() - startTime;
-      
-      return {
-        id: `${endpoint.id}_${Date.now()}`,
-        endpointName: endpoint.name,
-        url: endpoint.url,
-        method: endpoint.method,
-        status: 'error',
-        vulnerabilities: [`Connection Error: ${error.message}`],
-        responseTime,
-        statusCode: 0,
-        timestamp: new Date().toISOString(),
-        projectId: endpoint.projectId
-      };
+      scanRef.current = null;
+      await endRun(run, outcome.results, outcome.status);
+      return outcome;
+    } catch (error) {
+      // Starting or finishing the run record failed
+      toast.error('Scan run could not be saved', { description: error instanceof Error ? error.message : String(error) });
+      return { status: 'stopped', results: reported };
+    } finally {
+      scanRef.current = null;
+      setActiveRunId(null);
+      releaseScanLock(project.id);
+      setRunningTests([]);
+      setTestState('idle');
     }
   };
 
@@ -341,56 +308,22 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
       return;
     }
 
+    if (!ensureTransportReady() || !ensureSecretsAvailable(projectEndpoints) || !claimProject(selectedProject)) return;
+
     setTestState('running');
-    testStateRef.current = 'running';
     setProgress(0);
     setCurrentTestIndex(0);
     toast.info(`Starting tests for project: ${selectedProject.name}`, {
       description: 'Tests are being validated in the background'
     });
 
-    const newResults: TestResult[] = [];
-    let wasStopped = false;
-
-    for (let i = 0; i < projectEndpoints.length; i++) {
-      // Check ref instead of state for immediate updates
-      if (getCurrentState() === 'stopped') {
-        wasStopped = true;
-        break;
-      }
-      
-      // Wait while paused
-      while (getCurrentState() === 'paused') {
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-      
-      // Double check if stopped while paused
-      if (getCurrentState() === 'stopped') {
-        wasStopped = true;
-        break;
-      }
-
-      const endpoint = projectEndpoints[i];
-      setCurrentTest(endpoint.id);
-      setCurrentTestIndex(i);
-      setProgress(((i + 1) / projectEndpoints.length) * 100);
-
-      const result = await runSingleTest(endpoint);
-      newResults.push(result);
-
-      const allResults = [...testResults, ...newResults];
-      saveResults(allResults);
-    }
-
-    setCurrentTest(null);
-    setTestState('idle');
-    testStateRef.current = 'idle';
+    const { status, results } = await runScan(selectedProject, 'all', projectEndpoints);
     
     // Only show completion message if not stopped
-    if (!wasStopped) {
+    if (status === 'completed') {
       setProgress(100);
-      const passCount = newResults.filter(r => r.status === 'pass').length;
-      const failCount = newResults.filter(r => r.status === 'fail' || r.status === 'error').length;
+      const passCount = results.filter(r => r.status === 'pass').length;
+      const failCount = results.filter(r => r.status === 'fail' || r.status === 'error').length;
       
       if (failCount > 0) {
         toast.error(`Tests complete! ${passCount} passed, ${failCount} failed.`);
@@ -401,54 +334,87 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
   };
 
   const runSingleEndpointTest = async (endpoint: Endpoint) => {
+    if (!selectedProject || !ensureTransportReady() || !ensureSecretsAvailable([endpoint]) || !claimProject(selectedProject)) return;
+
     setTestState('running');
     toast.info(`Testing ${endpoint.name}...`);
 
-    const result = await runSingleTest(endpoint);
-    const updatedResults = [...testResults, result];
-    saveResults(updatedResults);
-
-    setTestState('idle');
-    setCurrentTest(null);
+    const { results: [result] } = await runScan(selectedProject, 'single', [endpoint]);
+    if (!result) return;
 
     if (result.status === 'fail' || result.status === 'error') {
       toast.error(`Test failed: ${result.vulnerabilities.join(', ')}`);
     } else {
-      toast.success('Test passed!');
+      const findingCount = getActiveFindings(result.findings).length;
+      toast.success(findingCount > 0 ? `Test passed with ${findingCount} security finding(s)` : 'Test passed!');
     }
   };
 
   const pauseTests = () => {
-    setTestState('paused');
-    testStateRef.current = 'paused';
+    scanRef.current?.pause();
     toast.info('Tests paused');
   };
 
   const resumeTests = () => {
-    setTestState('running');
-    testStateRef.current = 'running';
+    scanRef.current?.resume();
     toast.info('Tests resumed');
   };
 
+  // The run settles back to idle once the engine reports it has finished
   const stopTests = () => {
     setTestState('stopped');
-    testStateRef.current = 'stopped';
-    setCurrentTest(null);
+    setRunningTests([]);
+    scanRef.current?.stop();
     toast.warning('Tests stopped');
-    
-    // Reset to idle after a brief moment
-    setTimeout(() => {
-      setTestState('idle');
-      testStateRef.current = 'idle';
-    }, 500);
   };
 
   const clearResults = () => {
     setTestResults([]);
-    saveStoredData('testResults', []);
+    removeStoredData('testResults');
+    removeStoredData('scanRuns');
     toast.success('Test results cleared');
   };
 
+  const applyScanProfile = (id: string) => {
+    const profile = scanProfiles.find(p => p.id === id);
+    setTestConfig({ ...testConfig, checkOverrides: profile?.checkOverrides || {}, scanProfileId: profile?.id });
+  };
+
+  const saveScanProfile = () => {
+    const name = scanProfileName.trim();
+    if (!name) {
+      toast.error('Enter a name for the scan profile');
+      return;
+    }
+    // Saving under an existing name replaces that profile's selection
+    const existing = scanProfiles.find(p => p.name === name);
+    const profile: ScanProfile = { id: existing?.id || Date.now().toString(), name, checkOverrides: testConfig.checkOverrides || {} };
+    const updated = existing ? scanProfiles.map(p => p.id === existing.id ? profile : p) : [...scanProfiles, profile];
+    setScanProfiles(updated);
+    saveStoredData(SCAN_PROFILES_KEY, updated);
+    setTestConfig({ ...testConfig, scanProfileId: profile.id });
+    setScanProfileName('');
+    toast.success(`Scan profile "${name}" saved`);
+  };
+
+  const deleteScanProfile = (id: string) => {
+    const updated = scanProfiles.filter(p => p.id !== id);
+    setScanProfiles(updated);
+    saveStoredData(SCAN_PROFILES_KEY, updated);
+    setTestConfig({ ...testConfig, scanProfileId: undefined });
+  };
+
+  const saveSuppression = (suppression: Suppression) => {
+    if (!selectedProject) return;
+    const now = new Date().toISOString();
+    const updated = projects.map(project => project.id === selectedProject.id
+      ? { ...project, suppressions: [...(project.suppressions || []), suppression], updatedAt: now }
+      : project);
+    saveStoredData('projects', updated);
+    setSuppressing(null);
+    toast.success('Finding suppressed for future scans');
+  };
+
   const downloadResultsCSV = () => {
     const projectResults = testResults.filter(r => !selectedProject || r.projectId === selectedProject.id);
     
@@ -457,7 +423,7 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
       return;
     }
 
-    const headers = ['Project', 'Endpoint Name', 'URL', 'Method', 'Status', 'Vulnerabilities', 'Response Time (ms)', 'Status Code', 'Timestamp'];
+    const headers = ['Project', 'Endpoint Name', 'URL', 'Method', 'Status', 'Vulnerabilities', 'Findings', 'Suppressed Findings', 'Response Time (ms)', 'Status Code', 'Timestamp'];
     const csvContent = [
       headers.join(','),
       ...projectResults.map(result => {
@@ -469,6 +435,8 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
           result.method,
           result.status,
           `"${result.vulnerabilities ? result.vulnerabilities.join('; ') : ''}"`,
+          `"${summarizeFindings(getActiveFindings(result.findings)).replace(/"/g, '""')}"`,
+          `"${summarizeFindings(getSuppressedFindings(result.findings)).replace(/"/g, '""')}"`,
           result.responseTime || 0,
           result.statusCode || 'N/A',
           `"${new Date(result.timestamp).toLocaleString()}"`
@@ -501,6 +469,11 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
   const projectResults = testResults.filter(r => !selectedProject || r.projectId === selectedProject.id);
   const passResults = projectResults.filter(r => r.status === 'pass');
   const failResults = projectResults.filter(r => r.status === 'fail' || r.status === 'error');
+  const enabledChecks = getEnabledChecks(selectedProject?.checkOverrides, testConfig.checkOverrides);
+  const activeFuzzing = enabledChecks.some(check => check.injection);
+  // Browsers drop a custom Origin header and hide most Access-Control-* response headers
+  const corsChecksNeedAgent = transportSettings.mode === 'direct' && enabledChecks.some(check => CORS_CHECKS.includes(check));
+  const suppressedResults = projectResults.filter(r => getSuppressedFindings(r.findings).length > 0);
 
   return (
     <div className="space-y-6">
@@ -587,6 +560,101 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
                 />
               )}
             </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="concurrency">Concurrent Requests</Label>
+                <Input
+                  id="concurrency"
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={testConfig.concurrency || 1}
+                  onChange={(e) => setTestConfig({...testConfig, concurrency: Math.min(50, Math.max(1, parseInt(e.target.value) || 1))})}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="requestsPerSecond">Max Requests / Second</Label>
+                <Input
+                  id="requestsPerSecond"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={testConfig.requestsPerSecond || ''}
+                  onChange={(e) => setTestConfig({...testConfig, requestsPerSecond: parseFloat(e.target.value) > 0 ? parseFloat(e.target.value) : undefined})}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="perHostRequestsPerSecond">Max Requests / Second per Host</Label>
+                <Input
+                  id="perHostRequestsPerSecond"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={testConfig.perHostRequestsPerSecond || ''}
+                  onChange={(e) => setTestConfig({...testConfig, perHostRequestsPerSecond: parseFloat(e.target.value) > 0 ? parseFloat(e.target.value) : undefined})}
+                  placeholder="Unlimited"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="operatorName">Operator</Label>
+              <Input
+                id="operatorName"
+                value={operatorName}
+                onChange={(e) => setOperatorName(e.target.value)}
+                onBlur={() => saveStoredData(OPERATOR_NAME_KEY, operatorName)}
+                placeholder="Name recorded on each scan run"
+                className="max-w-md"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Security Checks</Label>
+              <div className="flex flex-wrap items-center gap-2">
+                <Select value={testConfig.scanProfileId || CUSTOM_CHECKS} onValueChange={applyScanProfile}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={CUSTOM_CHECKS}>Project selection</SelectItem>
+                    {scanProfiles.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="w-48"
+                  value={scanProfileName}
+                  onChange={(e) => setScanProfileName(e.target.value)}
+                  placeholder="Profile name"
+                />
+                <Button type="button" variant="outline" size="sm" onClick={saveScanProfile}>
+                  Save as Profile
+                </Button>
+                {testConfig.scanProfileId && (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => deleteScanProfile(testConfig.scanProfileId)}>
+                    Delete Profile
+                  </Button>
+                )}
+              </div>
+              <CheckSelection
+                overrides={testConfig.checkOverrides}
+                onChange={(checkOverrides) => setTestConfig({ ...testConfig, checkOverrides, scanProfileId: undefined })}
+                inherited={[selectedProject?.checkOverrides]}
+                inheritedFrom={selectedProject ? `checks enabled on ${selectedProject.name}` : 'built-in defaults'}
+              />
+              {corsChecksNeedAgent && (
+                <p className="text-xs text-warning">
+                  CORS checks need the local agent or a proxy transport. Sent directly from the browser, the crafted Origin header is replaced and the responses' CORS headers stay hidden.
+                </p>
+              )}
+              {activeFuzzing && (
+                <p className="text-xs text-warning">
+                  Active checks send attack payloads in every query parameter and body field, several requests per payload. Only scan systems you are authorized to test.
+                </p>
+              )}
+            </div>
+            <TransportSettingsPanel />
             <div className="text-xs text-muted-foreground">
               Configure test criteria to determine PASS/FAIL results. Tests will also check for security vulnerabilities.
             </div>
@@ -604,10 +672,28 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
         </CardHeader>
         <CardContent>
           <div className="flex items-center gap-4 mb-4 flex-wrap">
+            {selectedProject?.environments?.length > 0 && (
+              <Select
+                value={selectedEnvironment?.id}
+                onValueChange={setEnvironmentId}
+                disabled={testState !== 'idle'}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Environment" />
+                </SelectTrigger>
+                <SelectContent>
+                  {selectedProject.environments.map((environment) => (
+                    <SelectItem key={environment.id} value={environment.id}>
+                      {environment.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
             {testState === 'idle' && (
               <Button
                 onClick={runAllTests}
-                disabled={!selectedProject || getProjectEndpoints().length === 0}
+                disabled={!selectedProject || getProjectEndpoints().length === 0 || !!foreignLock}
                 className="bg-primary hover:bg-primary/90"
               >
                 <Play className="h-4 w-4 mr-2" />
@@ -664,13 +750,23 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
             </div>
           </div>
 
+          {foreignLock && (
+            <div className="mb-4 p-3 bg-warning/10 border border-warning/30 rounded-lg">
+              <p className="text-sm font-bold text-warning">
+                🔒 {foreignLock.owner} is scanning this project in another tab (since {new Date(foreignLock.acquiredAt).toLocaleTimeString()})
+              </p>
+              <p className="text-xs text-muted-foreground">Results will appear here as they are saved. Running is disabled until that scan finishes.</p>
+            </div>
+          )}
+
           {testState === 'running' && (
             <div className="space-y-2">
               <div className="flex justify-between text-sm">
                 <span>Progress: {Math.round(progress)}%</span>
-                {currentTest && (
+                {runningTests.length > 0 && (
                   <span className="text-primary animate-pulse font-bold">
-                    Testing endpoint {currentTestIndex + 1} of {getProjectEndpoints().length}...
+                    Testing endpoint {currentTestIndex + 1} of {getProjectEndpoints().length}
+                    {runningTests.length > 1 ? ` (${runningTests.length} in flight)` : ''}...
                   </span>
                 )}
               </div>
@@ -688,7 +784,7 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
               <Play className="h-5 w-5 text-primary" />
               Individual Run Test
             </div>
-            {testState === 'running' && currentTest && (
+            {testState === 'running' && runningTests.length > 0 && (
               <Badge variant="secondary" className="text-sm">
                 Running: {currentTestIndex + 1} / {getProjectEndpoints().length}
               </Badge>
@@ -716,7 +812,7 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
               </div>
               <Accordion type="multiple" className="space-y-3">
                 {getFilteredEndpoints().map((endpoint) => {
-                const isCurrentlyTesting = currentTest === endpoint.id;
+                const isCurrentlyTesting = runningTests.includes(endpoint.id);
                 return (
                   <AccordionItem 
                     key={endpoint.id} 
@@ -743,7 +839,7 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
                             )}
                           </div>
                           <p className="font-mono text-sm text-muted-foreground">
-                            {selectedProject?.ipAddress ? replaceIPAddress(endpoint.url, selectedProject.ipAddress) : endpoint.url}
+                            {substituteVariables(endpoint.url, getEnvironmentVariables(selectedEnvironment))}
                           </p>
                         </div>
                         <Button
@@ -752,7 +848,7 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
                             e.stopPropagation();
                             runSingleEndpointTest(endpoint);
                           }}
-                          disabled={testState === 'running'}
+                          disabled={testState === 'running' || !!foreignLock}
                           className="bg-primary hover:bg-primary/90"
                         >
                           {isCurrentlyTesting ? (
@@ -773,8 +869,8 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
                       <div className="space-y-2 text-sm">
                         <div><strong>Method:</strong> {endpoint.method}</div>
                         <div><strong>Priority:</strong> {endpoint.priority}</div>
-                        {endpoint.headers && <div><strong>Headers:</strong> <code className="text-xs bg-muted p-1 rounded">{endpoint.headers}</code></div>}
-                        {endpoint.body && <div><strong>Body:</strong> <code className="text-xs bg-muted p-1 rounded">{endpoint.body}</code></div>}
+                        {endpoint.headers && <div><strong>Headers:</strong> <code className="text-xs bg-muted p-1 rounded">{maskSecrets(endpoint.headers)}</code></div>}
+                        {endpoint.body && <div><strong>Body:</strong> <code className="text-xs bg-muted p-1 rounded">{maskSecrets(endpoint.body)}</code></div>}
                       </div>
                     </AccordionContent>
                   </AccordionItem>
@@ -791,6 +887,23 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
         </CardContent>
       </Card>
 
+      {/* Scan Run History */}
+      {selectedProject && (
+        <ScanRunHistory
+          projectId={selectedProject.id}
+          projects={projects}
+          activeRunId={activeRunId}
+        />
+      )}
+
+      {/* Run-to-run Comparison */}
+      {selectedProject && (
+        <RunComparison
+          projectId={selectedProject.id}
+          projectName={selectedProject.name}
+        />
+      )}
+
       {/* Test Results - Parent Accordion with PASS/FAIL Categories */}
       {projectResults.length > 0 && (
         <Card className="card-gradient">
@@ -837,6 +950,25 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
                               <p><strong>URL:</strong> {result.url}</p>
                               <p><strong>Response Time:</strong> {result.responseTime}ms</p>
                               <p><strong>Status Code:</strong> {result.statusCode}</p>
+                              {result.attempts > 1 && <p><strong>Attempts:</strong> {result.attempts}</p>}
+                              {result.timings?.ttfb !== undefined && <p><strong>Time to First Byte:</strong> {result.timings.ttfb}ms</p>}
+                              {result.assertions?.length > 0 && (
+                                <p><strong>Assertions:</strong> {result.assertions.filter(a => a.passed).length} / {result.assertions.length} passed</p>
+                              )}
+                              {result.extractedVariables?.length > 0 && (
+                                <p><strong>Extracted:</strong> <span className="font-mono">{result.extractedVariables.join(', ')}</span></p>
+                              )}
+                              {getActiveFindings(result.findings).length > 0 && (
+                                <div>
+                                  <strong>Findings:</strong>
+                                  <div className="mt-1">
+                                    <ResultFindings
+                                      findings={getActiveFindings(result.findings)}
+                                      onSuppress={(finding) => setSuppressing({ finding, endpoint: endpoints.find(e => e.id === result.endpointId) })}
+                                    />
+                                  </div>
+                                </div>
+                              )}
                               <p><strong>Timestamp:</strong> {new Date(result.timestamp).toLocaleString()}</p>
                             </div>
                           </AccordionContent>
@@ -882,9 +1014,17 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
                               <p><strong>URL:</strong> {result.url}</p>
                               <p><strong>Response Time:</strong> {result.responseTime}ms</p>
                               <p><strong>Status Code:</strong> {result.statusCode}</p>
+                              {result.attempts > 1 && <p><strong>Attempts:</strong> {result.attempts}</p>}
+                              {result.timings?.ttfb !== undefined && <p><strong>Time to First Byte:</strong> {result.timings.ttfb}ms</p>}
+                              {result.assertions?.length > 0 && (
+                                <p><strong>Assertions:</strong> {result.assertions.filter(a => a.passed).length} / {result.assertions.length} passed</p>
+                              )}
+                              {result.extractedVariables?.length > 0 && (
+                                <p><strong>Extracted:</strong> <span className="font-mono">{result.extractedVariables.join(', ')}</span></p>
+                              )}
                               {result.vulnerabilities.length > 0 && (
                                 <div>
-                                  <strong>Vulnerabilities:</strong>
+                                  <strong>Failures:</strong>
                                   <ul className="list-disc pl-5 mt-1 space-y-1">
                                     {result.vulnerabilities.map((vuln, index) => (
                                       <li key={index} className="text-destructive">
@@ -894,6 +1034,17 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
                                   </ul>
                                 </div>
                               )}
+                              {getActiveFindings(result.findings).length > 0 && (
+                                <div>
+                                  <strong>Findings:</strong>
+                                  <div className="mt-1">
+                                    <ResultFindings
+                                      findings={getActiveFindings(result.findings)}
+                                      onSuppress={(finding) => setSuppressing({ finding, endpoint: endpoints.find(e => e.id === result.endpointId) })}
+                                    />
+                                  </div>
+                                </div>
+                              )}
                               <p><strong>Timestamp:</strong> {new Date(result.timestamp).toLocaleString()}</p>
                             </div>
                           </AccordionContent>
@@ -903,10 +1054,47 @@ export const TestRunner = ({ onScanningStateChange }: TestRunnerProps = {}) => {
                   )}
                 </AccordionContent>
               </AccordionItem>
+
+              {/* Suppressed Findings Section */}
+              <AccordionItem value="suppressed-findings" className="border-border rounded-lg bg-muted/30">
+                <AccordionTrigger className="px-4 hover:no-underline">
+                  <div className="flex items-center gap-3 w-full">
+                    <ShieldOff className="h-5 w-5 text-muted-foreground" />
+                    <span className="font-semibold text-lg">Suppressed Findings</span>
+                    <Badge variant="secondary" className="ml-auto mr-4">
+                      {suppressedResults.reduce((sum, result) => sum + getSuppressedFindings(result.findings).length, 0)}
+                    </Badge>
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent className="px-4 pt-3">
+                  {suppressedResults.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-4">No suppressed findings</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {suppressedResults.slice().reverse().map((result) => (
+                        <div key={result.id} className="p-3 border border-border rounded-lg">
+                          <p className="font-mono text-sm font-medium mb-2">
+                            {result.endpointName}
+                            <span className="text-xs text-muted-foreground ml-2">{new Date(result.timestamp).toLocaleString()}</span>
+                          </p>
+                          <ResultFindings findings={getSuppressedFindings(result.findings)} showRemediation={false} />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </AccordionContent>
+              </AccordionItem>
             </Accordion>
           </CardContent>
         </Card>
       )}
+
+      <SuppressionDialog
+        target={suppressing}
+        defaultOwner={operatorName}
+        onSave={saveSuppression}
+        onClose={() => setSuppressing(null)}
+      />
     </div>
   );
 };
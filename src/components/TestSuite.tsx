@@ -3,22 +3,19 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Activity, Shield, AlertTriangle, CheckCircle, Clock } from 'lucide-react';
-import { getStoredData } from '@/lib/storage';
-
-interface TestResult {
-  id: string;
-  endpointName: string;
-  url: string;
-  method: string;
-  status: 'secure' | 'vulnerable' | 'error';
-  vulnerabilities: string[];
-  responseTime?: number;
-  statusCode?: number;
-  timestamp: string;
-}
+import { Endpoint, Project, TestResult } from '@/lib/models';
+import { useStoredData } from '@/hooks/use-stored-data';
+import { getActiveFindings } from '@/lib/scan';
+import { ScanRunHistory } from './ScanRunHistory';
+import { ResultTrend } from './ResultTrend';
+import { SeverityBadge } from './ResultFindings';
+import { RiskOverview } from './RiskOverview';
+import { CookieInventory } from './CookieInventory';
 
 export const TestSuite = () => {
-  const [testResults, setTestResults] = useState<TestResult[]>([]);
+  const [testResults] = useStoredData<TestResult[]>('testResults', []);
+  const [projects] = useStoredData<Project[]>('projects', []);
+  const [endpoints] = useStoredData<Endpoint[]>('endpoints', []);
   const [stats, setStats] = useState({
     total: 0,
     passed: 0,
@@ -27,17 +24,14 @@ export const TestSuite = () => {
   });
 
   useEffect(() => {
-    const results = getStoredData('testResults', []);
-    setTestResults(results);
-    
-    const stats = results.reduce((acc: any, result: TestResult) => {
+    const stats = testResults.reduce((acc: any, result: TestResult) => {
       acc.total++;
-      acc[result.status === 'secure' ? 'passed' : result.status === 'vulnerable' ? 'failed' : 'pending']++;
+      acc[result.status === 'pass' ? 'passed' : result.status === 'fail' ? 'failed' : 'pending']++;
       return acc;
     }, { total: 0, passed: 0, failed: 0, pending: 0 });
-    
+
     setStats(stats);
-  }, []);
+  }, [testResults]);
 
   const successRate = stats.total > 0 ? (stats.passed / stats.total) * 100 : 0;
 
@@ -96,6 +90,18 @@ export const TestSuite = () => {
         </Card>
       </div>
 
+      {/* Latest findings per project, weighted by endpoint priority */}
+      <RiskOverview projects={projects} endpoints={endpoints} testResults={testResults} />
+
+      {/* Cookies set by each project's endpoints in their latest results */}
+      <CookieInventory projects={projects} testResults={testResults} />
+
+      {/* Trend across runs, including compacted history */}
+      <ResultTrend />
+
+      {/* Past Scan Runs */}
+      <ScanRunHistory projects={projects} limit={10} />
+
       {/* Recent Test Results */}
       <Card className="card-orange">
         <CardHeader>
@@ -119,8 +125,8 @@ export const TestSuite = () => {
                   className="flex items-center justify-between p-4 border border-border rounded-lg bg-muted/30 hover:bg-muted/50 transition-colors animate-matrix"
                 >
                   <div className="flex items-center gap-3">
-                    {result.status === 'secure' && <CheckCircle className="h-5 w-5 text-success" />}
-                    {result.status === 'vulnerable' && <AlertTriangle className="h-5 w-5 text-destructive" />}
+                    {result.status === 'pass' && <CheckCircle className="h-5 w-5 text-success" />}
+                    {result.status === 'fail' && <AlertTriangle className="h-5 w-5 text-destructive" />}
                     {result.status === 'error' && <Clock className="h-5 w-5 text-warning" />}
                     <div>
                       <p className="font-mono text-sm font-medium">{result.endpointName}</p>
@@ -134,6 +140,16 @@ export const TestSuite = () => {
                           ))}
                         </div>
                       )}
+                      {getActiveFindings(result.findings).length > 0 && (
+                        <div className="flex flex-wrap items-center gap-1 mt-1">
+                          {getActiveFindings(result.findings).map((finding, index) => (
+                            <span key={index} className="flex items-center gap-1 text-xs">
+                              <SeverityBadge severity={finding.severity} />
+                              {finding.title}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                       {result.responseTime && result.statusCode && (
                         <p className="text-xs text-muted-foreground">
                           Response: {result.responseTime}ms | Status: {result.statusCode}
@@ -143,8 +159,8 @@ export const TestSuite = () => {
                   </div>
                   <div className="flex items-center gap-3">
                     <Badge
-                      variant={result.status === 'secure' ? 'default' : result.status === 'vulnerable' ? 'destructive' : 'secondary'}
-                      className={result.status === 'secure' ? 'bg-success text-success-foreground' : ''}
+                      variant={result.status === 'pass' ? 'default' : result.status === 'fail' ? 'destructive' : 'secondary'}
+                      className={result.status === 'pass' ? 'bg-success text-success-foreground' : ''}
                     >
                       {result.status.toUpperCase()}
                     </Badge>
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { PlugZap } from 'lucide-react';
+import { toast } from 'sonner';
+import { saveStoredData } from '@/lib/storage';
+import { useStoredData } from '@/hooks/use-stored-data';
+import {
+  checkAgentConnection,
+  DEFAULT_AGENT_URL,
+  DEFAULT_TRANSPORT_SETTINGS,
+  TRANSPORT_SETTINGS_KEY,
+  TransportMode,
+  TransportSettings
+} from '@/lib/scan';
+
+export const TransportSettingsPanel = () => {
+  const [settings, setSettings] = useStoredData<TransportSettings>(TRANSPORT_SETTINGS_KEY, DEFAULT_TRANSPORT_SETTINGS);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const update = (changes: Partial<TransportSettings>) => {
+    const updated = { ...DEFAULT_TRANSPORT_SETTINGS, ...settings, ...changes };
+    setSettings(updated);
+    return updated;
+  };
+
+  const persist = (updated: TransportSettings = settings) => saveStoredData(TRANSPORT_SETTINGS_KEY, updated);
+
+  const handleCheckAgent = async () => {
+    setIsChecking(true);
+    try {
+      const version = await checkAgentConnection(settings.agentUrl || DEFAULT_AGENT_URL, settings.agentToken);
+      toast.success(`Connected to scanning agent ${version}`);
+    } catch (error) {
+      toast.error('Agent check failed', { description: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Request Transport</Label>
+      <RadioGroup
+        value={settings.mode}
+        onValueChange={(mode) => persist(update({ mode: mode as TransportMode }))}
+        className="space-y-1"
+      >
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="agent" id="transport-agent" />
+          <Label htmlFor="transport-agent" className="font-normal">Local scanning agent (recommended)</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="direct" id="transport-direct" />
+          <Label htmlFor="transport-direct" className="font-normal">Direct from the browser</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="proxy" id="transport-proxy" />
+          <Label htmlFor="transport-proxy" className="font-normal">Custom proxy</Label>
+        </div>
+      </RadioGroup>
+
+      {settings.mode === 'agent' && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Start the agent with <code className="bg-muted px-1 rounded">npm run agent</code> and paste the token it prints. Requests go from your machine to the target with real response headers.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              value={settings.agentUrl}
+              onChange={(e) => update({ agentUrl: e.target.value })}
+              onBlur={() => persist()}
+              placeholder={DEFAULT_AGENT_URL}
+            />
+            <Input
+              type="password"
+              value={settings.agentToken}
+              onChange={(e) => update({ agentToken: e.target.value })}
+              onBlur={() => persist()}
+              placeholder="Agent token"
+            />
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={handleCheckAgent} disabled={isChecking || !settings.agentToken}>
+            <PlugZap className="h-4 w-4 mr-2" />
+            {isChecking ? 'Checking...' : 'Check Connection'}
+          </Button>
+        </div>
+      )}
+
+      {settings.mode === 'direct' && (
+        <p className="text-xs text-muted-foreground">
+          Only works for targets that allow cross-origin requests. The browser hides most response headers and always follows redirects.
+        </p>
+      )}
+
+      {settings.mode === 'proxy' && (
+        <div className="space-y-2">
+          <Input
+            value={settings.proxyUrl}
+            onChange={(e) => update({ proxyUrl: e.target.value })}
+            onBlur={() => persist()}
+            placeholder="https://proxy.internal/fetch?url={url}"
+          />
+          <p className="text-xs text-muted-foreground">
+            The encoded target URL replaces <code className="bg-muted px-1 rounded">{'{url}'}</code>, or is appended when the placeholder is missing.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Trash2, RotateCcw, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { TrashEntry } from '@/lib/models';
+import { countTrashedRecords, purgeTrashEntries, restoreTrashEntry, TrashRestoreError } from '@/lib/trash';
+import { useStoredData } from '@/hooks/use-stored-data';
+
+const describeContents = (entry: TrashEntry) => {
+  const counts = countTrashedRecords(entry.payload);
+  if (entry.kind === 'endpoint') return 'Endpoint only';
+  const parts = [
+    counts.endpoints && `${counts.endpoints} endpoints`,
+    counts.testResults && `${counts.testResults} results`,
+    counts.scanRuns && `${counts.scanRuns} runs`,
+    counts.portScans && `${counts.portScans} port scans`,
+    counts.runStats && `${counts.runStats} compacted runs`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'Project only';
+};
+
+export const TrashBin = () => {
+  const [trash] = useStoredData<TrashEntry[]>('trash', []);
+  // Single entry id, or 'all' when emptying the trash
+  const [pendingPurge, setPendingPurge] = useState<string | null>(null);
+
+  const entries = trash.slice().reverse();
+
+  const handleRestore = async (entry: TrashEntry) => {
+    try {
+      if (await restoreTrashEntry(entry)) {
+        toast.success(`Restored ${entry.label}`);
+      }
+    } catch (error) {
+      if (error instanceof TrashRestoreError) {
+        toast.error('Cannot restore', { description: error.message });
+        return;
+      }
+      throw error;
+    }
+  };
+
+  const confirmPurge = async () => {
+    const ids = pendingPurge === 'all' ? trash.map(entry => entry.id) : [pendingPurge!];
+    setPendingPurge(null);
+    if (await purgeTrashEntries(ids)) {
+      toast.success(ids.length === 1 ? 'Permanently deleted' : `Permanently deleted ${ids.length} items`);
+    }
+  };
+
+  return (
+    <Card className="card-orange">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Trash2 className="h-5 w-5 text-primary" />
+            Trash ({trash.length})
+          </span>
+          {trash.length > 0 && (
+            <Button variant="destructive" size="sm" onClick={() => setPendingPurge('all')}>
+              Empty Trash
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <div className="text-center py-8">
+            <Trash2 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">The trash is empty</p>
+            <p className="text-sm text-muted-foreground">Deleted projects and endpoints are kept here until purged</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {entries.map((entry) => (
+              <div
+                key={entry.id}
+                className="flex items-center justify-between p-3 border border-border rounded-lg bg-muted/30 hover:bg-muted/50 transition-colors"
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{entry.label}</span>
+                    <Badge variant="outline">{entry.kind === 'project' ? 'Project' : 'Endpoint'}</Badge>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Deleted {new Date(entry.deletedAt).toLocaleString()} • {describeContents(entry)}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={() => handleRestore(entry)}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setPendingPurge(entry.id)}>
+                    <XCircle className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!pendingPurge} onOpenChange={(open) => !open && setPendingPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingPurge === 'all' ? 'Empty the trash?' : 'Delete permanently?'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              This cannot be undone. Purged projects and endpoints are removed together with the data deleted alongside them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmPurge}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
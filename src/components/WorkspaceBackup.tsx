@@ -0,0 +1,204 @@
+import { useState, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Archive, Download, Upload, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { BackupFormatError, BackupPreview, downloadBackup, parseBackup, restoreBackup, RestoreMode } from '@/lib/backup';
+import { SchemaVersionError } from '@/lib/migrations';
+
+const COLLECTION_LABELS: Record<string, string> = {
+  projects: 'Projects',
+  endpoints: 'Endpoints',
+  testResults: 'Test results',
+  scanRuns: 'Scan runs',
+  portScans: 'Port scans',
+  runStats: 'Compacted runs',
+  trash: 'Trash items',
+};
+
+export const WorkspaceBackup = () => {
+  const [preview, setPreview] = useState<BackupPreview | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [includeSecrets, setIncludeSecrets] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleDownload = async () => {
+    try {
+      const archive = await downloadBackup({ includeSecrets });
+      const total = Object.values(archive.collections).reduce((sum, records) => sum + records.length, 0);
+      toast.success(`Workspace backup created with ${total} records`, {
+        description: includeSecrets ? 'It contains readable credentials; store it somewhere safe.' : undefined
+      });
+    } catch (error) {
+      console.error('Backup error:', error);
+      toast.error('Failed to create backup');
+    }
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        setPreview(parseBackup(e.target?.result as string));
+      } catch (error) {
+        setPreview(null);
+        if (error instanceof BackupFormatError || error instanceof SchemaVersionError) {
+          toast.error('Cannot restore this file', { description: error.message });
+          return;
+        }
+        console.error('Backup validation error:', error);
+        toast.error('Failed to read backup file');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleRestore = async () => {
+    if (!preview) return;
+    setConfirmOpen(false);
+    setIsRestoring(true);
+    try {
+      await restoreBackup(preview, mode);
+      toast.success(mode === 'replace' ? 'Workspace replaced from backup' : 'Backup merged into workspace');
+      setPreview(null);
+    } catch (error) {
+      console.error('Restore error:', error);
+      toast.error('Failed to restore backup', {
+        description: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Card className="card-purple">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Archive className="h-5 w-5 text-primary" />
+          Workspace Backup
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          One archive with every project, endpoint, scan run, test result, port scan and setting — use it to move the whole workspace to another machine.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Button variant="outline" onClick={handleDownload}>
+            <Download className="h-4 w-4 mr-2" />
+            Download Backup
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Restore from Backup
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json"
+            onChange={handleFile}
+            className="hidden"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="backup-include-secrets" checked={includeSecrets} onCheckedChange={setIncludeSecrets} />
+          <Label htmlFor="backup-include-secrets">Include credentials in the backup</Label>
+        </div>
+        {includeSecrets ? (
+          <div className="flex items-center gap-2 text-sm text-warning">
+            <AlertTriangle className="h-4 w-4" />
+            Auth profile credentials, credentials typed into endpoints and the agent token are written to the file in plain text
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Credentials are masked, so restored auth profiles and endpoints need them re-entered; vault secrets are always kept, encrypted.
+          </p>
+        )}
+
+        {preview && (
+          <div className="space-y-4 p-4 border border-border rounded-lg bg-muted/30">
+            <p className="text-sm font-medium">
+              Backup from {new Date(preview.exportedAt).toLocaleString()}
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {Object.entries(preview.counts).map(([name, count]) => (
+                <div key={name} className="text-center p-2 border border-border rounded-lg bg-primary/10">
+                  <div className="text-xl font-bold text-primary">{count}</div>
+                  <div className="text-xs text-muted-foreground">{COLLECTION_LABELS[name] || name}</div>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">{Object.keys(preview.settings).length} settings included</p>
+            {preview.rejected.length > 0 && (
+              <div className="flex items-center gap-2 text-sm text-warning">
+                <AlertTriangle className="h-4 w-4" />
+                {preview.rejected.length} record(s) don't match the current format and will be quarantined instead of restored
+              </div>
+            )}
+
+            <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="merge" id="restore-merge" />
+                <Label htmlFor="restore-merge">Merge into the current workspace (backup wins on conflicts)</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="replace" id="restore-replace" />
+                <Label htmlFor="restore-replace">Replace the current workspace</Label>
+              </div>
+            </RadioGroup>
+
+            <div className="flex gap-2">
+              <Button onClick={() => setConfirmOpen(true)} disabled={isRestoring} className="bg-primary hover:bg-primary/90">
+                {isRestoring ? 'Restoring...' : 'Restore'}
+              </Button>
+              <Button variant="outline" onClick={() => setPreview(null)} disabled={isRestoring}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{mode === 'replace' ? 'Replace the whole workspace?' : 'Merge the backup?'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {mode === 'replace'
+                ? 'All current projects, endpoints, results, runs, port scans and settings are deleted and replaced by the backup. This cannot be undone.'
+                : 'Records from the backup are added to the workspace. Records with the same id are overwritten by the backup.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRestore}
+              className={mode === 'replace' ? 'bg-destructive text-destructive-foreground hover:bg-destructive/90' : ''}
+            >
+              {mode === 'replace' ? 'Replace Workspace' : 'Merge Backup'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
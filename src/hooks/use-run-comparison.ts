@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { ScanRun } from '@/lib/models';
+import { getScanRuns, getRunResults } from '@/lib/scan-runs';
+import { compareRuns, RunComparison } from '@/lib/run-diff';
+import { useStorageVersion } from './use-stored-data';
+
+// Loads a project's finished runs and compares the selected pair (previous vs latest by default)
+export function useRunComparison(projectId?: string) {
+  const runsVersion = useStorageVersion(['scanRuns']);
+  const [runs, setRuns] = useState<ScanRun[]>([]);
+  const [baseRunId, setBaseRunId] = useState<string>('');
+  const [targetRunId, setTargetRunId] = useState<string>('');
+  const [comparison, setComparison] = useState<RunComparison | null>(null);
+
+  useEffect(() => {
+    if (!projectId) {
+      setRuns([]);
+      return;
+    }
+    getScanRuns(projectId).then(projectRuns => {
+      const finished = projectRuns.filter(run => run.status !== 'running' && run.counts.total > 0);
+      setRuns(finished);
+      setTargetRunId(current => finished.some(run => run.id === current) ? current : finished[0]?.id || '');
+      setBaseRunId(current => finished.some(run => run.id === current) ? current : finished[1]?.id || '');
+    });
+  }, [projectId, runsVersion]);
+
+  useEffect(() => {
+    if (!baseRunId || !targetRunId) {
+      setComparison(null);
+      return;
+    }
+    let cancelled = false;
+    Promise.all([getRunResults(baseRunId), getRunResults(targetRunId)]).then(([baseResults, targetResults]) => {
+      if (!cancelled) {
+        setComparison(compareRuns(baseRunId, baseResults, targetRunId, targetResults));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [baseRunId, targetRunId]);
+
+  return { runs, baseRunId, setBaseRunId, targetRunId, setTargetRunId, comparison };
+}
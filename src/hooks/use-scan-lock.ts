@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { getScanLock, subscribeToScanLocks, ScanLock, TAB_ID } from '@/lib/scan-lock';
+
+const STALE_CHECK_INTERVAL = 5000;
+
+// Lock currently held on the project by another tab, or null when this tab may scan it
+export function useScanLock(projectId?: string) {
+  const [foreignLock, setForeignLock] = useState<ScanLock | null>(null);
+
+  useEffect(() => {
+    if (!projectId) {
+      setForeignLock(null);
+      return;
+    }
+    const refresh = () => {
+      const lock = getScanLock(projectId);
+      setForeignLock(lock && lock.tabId !== TAB_ID ? lock : null);
+    };
+
+    refresh();
+    const unsubscribe = subscribeToScanLocks(refresh);
+    // Locks of closed tabs expire silently, so re-check periodically as well
+    const interval = setInterval(refresh, STALE_CHECK_INTERVAL);
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [projectId]);
+
+  return foreignLock;
+}
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isCollection } from '@/lib/db';
+import { getStoredData, mergeStoredRecords } from '@/lib/storage';
+import { subscribeToStorage } from '@/lib/storage-events';
+
+// Stored value that follows changes in this or any other tab: appended records are merged, anything else reloads
+export function useStoredData<T>(key: string, defaultValue: T) {
+  const defaultRef = useRef(defaultValue);
+  const [data, setData] = useState<T>(defaultValue);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    let pendingLoads = 0;
+    const load = () => {
+      pendingLoads++;
+      getStoredData<T>(key, defaultRef.current).then(value => {
+        pendingLoads--;
+        if (active) {
+          setData(value);
+          setLoaded(true);
+        }
+      });
+    };
+    // A load still in flight may predate the appended records, so it is followed by another instead of merging
+    const onChange = (_key: string, upserted?: unknown[]) => {
+      if (upserted && pendingLoads === 0 && isCollection(key)) {
+        setData(current => mergeStoredRecords(key, current as unknown[], upserted) as T);
+      } else {
+        load();
+      }
+    };
+
+    load();
+    const unsubscribe = subscribeToStorage([key], onChange);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [key]);
+
+  return [data, setData, loaded] as const;
+}
+
+// Counter that increments on every change of the given keys; handy as an effect dependency
+export function useStorageVersion(keys: string[]) {
+  const [version, setVersion] = useState(0);
+  const keyList = keys.join('|');
+
+  const bump = useCallback(() => setVersion(v => v + 1), []);
+
+  useEffect(() => subscribeToStorage(keyList.split('|'), bump), [keyList, bump]);
+
+  return version;
+}
@@ -0,0 +1,185 @@
+// Versioned workspace archive: every collection and setting in one JSON file
+import { z } from 'zod';
+import {
+  COLLECTIONS,
+  INTERNAL_SETTINGS,
+  QUARANTINE_KEY,
+  SETTINGS_STORE,
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+} from './db';
+import { RejectedRecord, SCHEMA_VERSION, migrateWorkspace, validateWorkspace, WorkspaceData } from './migrations';
+import { Project, ScanRun, TrashEntry } from './models';
+import { TRANSPORT_SETTINGS_KEY, TransportSettings } from './scan';
+import { maskAuthProfileSecrets, maskEndpointSecrets } from './secrets';
+import { exportToJSON } from './storage';
+import { notifyStorageChange } from './storage-events';
+import { lockVault, VAULT_KEY } from './vault';
+
+export const BACKUP_FORMAT = 'vulnscan-workspace';
+// Bump when the archive envelope itself changes; record shapes are covered by schemaVersion
+export const BACKUP_FORMAT_VERSION = 1;
+
+const BackupArchiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  formatVersion: z.number().int(),
+  schemaVersion: z.number().int(),
+  exportedAt: z.string(),
+  collections: z.record(z.array(z.unknown())),
+  settings: z.record(z.unknown()).default({}),
+});
+
+export type BackupArchive = z.infer<typeof BackupArchiveSchema>;
+
+// Replace wipes the workspace first; merge adds the archive on top, archive records winning on id clashes
+export type RestoreMode = 'replace' | 'merge';
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+// A parsed and validated archive, ready to be restored
+export interface BackupPreview {
+  exportedAt: string;
+  schemaVersion: number;
+  data: WorkspaceData;
+  settings: Record<string, unknown>;
+  counts: Record<string, number>;
+  rejected: RejectedRecord[];
+}
+
+const isBackedUpSetting = (key: string) => !INTERNAL_SETTINGS.includes(key);
+
+const readSettings = async (db: IDBDatabase) => {
+  const store = db.transaction(SETTINGS_STORE, 'readonly').objectStore(SETTINGS_STORE);
+  const keys = (await requestToPromise(store.getAllKeys())).map(String).filter(isBackedUpSetting);
+  const values = await Promise.all(keys.map(key => requestToPromise(store.get(key))));
+  return Object.fromEntries(keys.map((key, i) => [key, values[i]]));
+};
+
+export interface BackupOptions {
+  // Keeps auth profile credentials, literal endpoint credentials and the agent token readable; the vault is always encrypted
+  includeSecrets?: boolean;
+}
+
+const maskProjectSecrets = (project: Project): Project => ({ ...project, authProfiles: (project.authProfiles || []).map(maskAuthProfileSecrets) });
+
+const maskRunSecrets = (run: ScanRun): ScanRun => ({ ...run, endpoints: run.endpoints.map(maskEndpointSecrets) });
+
+const SECRET_MASKS: Record<string, (record: never) => unknown> = {
+  projects: maskProjectSecrets,
+  endpoints: maskEndpointSecrets,
+  scanRuns: maskRunSecrets,
+  trash: (entry: TrashEntry): TrashEntry => ({
+    ...entry,
+    payload: {
+      ...entry.payload,
+      projects: (entry.payload.projects || []).map(maskProjectSecrets),
+      endpoints: (entry.payload.endpoints || []).map(maskEndpointSecrets),
+      scanRuns: (entry.payload.scanRuns || []).map(maskRunSecrets),
+    },
+  }),
+};
+
+const maskSettingSecrets = (key: string, value: unknown) =>
+  key === TRANSPORT_SETTINGS_KEY && value ? { ...(value as TransportSettings), agentToken: '' } : value;
+
+export const createBackup = async ({ includeSecrets = false }: BackupOptions = {}): Promise<BackupArchive> => {
+  const db = await openDatabase();
+  const collectionNames = Object.keys(COLLECTIONS);
+  const transaction = db.transaction(collectionNames, 'readonly');
+  const records = await Promise.all(
+    collectionNames.map(name => requestToPromise(transaction.objectStore(name).getAll()))
+  );
+
+  const settings = await readSettings(db);
+
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    collections: Object.fromEntries(collectionNames.map((name, i) => [
+      name,
+      includeSecrets || !SECRET_MASKS[name] ? records[i] : records[i].map(record => SECRET_MASKS[name](record as never)),
+    ])),
+    settings: includeSecrets ? settings : Object.fromEntries(Object.entries(settings).map(([key, value]) => [key, maskSettingSecrets(key, value)])),
+  };
+};
+
+export const downloadBackup = async (options?: BackupOptions) => {
+  const archive = await createBackup(options);
+  exportToJSON(archive, 'vulnscan-workspace-backup');
+  return archive;
+};
+
+// Throws BackupFormatError for anything that isn't a readable archive, SchemaVersionError for newer ones
+export const parseBackup = (text: string): BackupPreview => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupFormatError('The file is not valid JSON');
+  }
+
+  const parsed = BackupArchiveSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new BackupFormatError('The file is not a workspace backup');
+  }
+  const archive = parsed.data;
+  if (archive.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new BackupFormatError(`The backup uses archive format ${archive.formatVersion}; please update the application`);
+  }
+
+  // Collections unknown to this release are dropped rather than written into stores that don't exist
+  const known: WorkspaceData = Object.fromEntries(
+    Object.keys(COLLECTIONS).map(name => [name, archive.collections[name] || []])
+  );
+  const { data, rejected } = validateWorkspace(migrateWorkspace(known, archive.schemaVersion));
+  const settings = Object.fromEntries(Object.entries(archive.settings).filter(([key]) => isBackedUpSetting(key)));
+
+  return {
+    exportedAt: archive.exportedAt,
+    schemaVersion: archive.schemaVersion,
+    data,
+    settings,
+    counts: Object.fromEntries(Object.entries(data).map(([name, records]) => [name, records.length])),
+    rejected,
+  };
+};
+
+export const restoreBackup = async (preview: BackupPreview, mode: RestoreMode) => {
+  const db = await openDatabase();
+  const collectionNames = Object.keys(COLLECTIONS);
+  const replacedSettings = mode === 'replace' ? Object.keys(await readSettings(db)) : [];
+
+  const transaction = db.transaction([...collectionNames, SETTINGS_STORE], 'readwrite');
+  collectionNames.forEach(name => {
+    const store = transaction.objectStore(name);
+    if (mode === 'replace') store.clear();
+    (preview.data[name] || []).forEach(record => store.put(record));
+  });
+
+  const settingsStore = transaction.objectStore(SETTINGS_STORE);
+  replacedSettings.forEach(key => settingsStore.delete(key));
+  Object.entries(preview.settings).forEach(([key, value]) => settingsStore.put(value, key));
+
+  // Like a schema upgrade, records that don't validate are kept aside instead of silently dropped
+  if (preview.rejected.length > 0) {
+    const quarantineRequest = settingsStore.get(QUARANTINE_KEY);
+    quarantineRequest.onsuccess = () => {
+      settingsStore.put([...(quarantineRequest.result || []), ...preview.rejected], QUARANTINE_KEY);
+    };
+  }
+
+  await transactionDone(transaction);
+
+  // The unlocked key belongs to the vault that was just replaced
+  if (mode === 'replace' || VAULT_KEY in preview.settings) lockVault();
+
+  new Set([...collectionNames, ...replacedSettings, ...Object.keys(preview.settings)]).forEach(key => notifyStorageChange(key));
+};
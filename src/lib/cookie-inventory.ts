@@ -0,0 +1,35 @@
+// Cookie inventory: every cookie a project's endpoints set, taken from the latest result of each endpoint
+import { ObservedCookie, Project, TestResult } from './models';
+import { getEndpointKey, getLatestResults } from './risk';
+import { isSessionCookie } from './scan';
+
+export interface CookieSetter {
+  endpointKey: string;
+  endpointName: string;
+  method: string;
+  cookie: ObservedCookie;
+}
+
+export interface CookieInventoryEntry {
+  name: string;
+  session: boolean;
+  setters: CookieSetter[];
+}
+
+// Ordered by cookie name; results stored before cookies were recorded contribute nothing
+export const getCookieInventory = (project: Project, results: TestResult[]): CookieInventoryEntry[] => {
+  const inventory = new Map<string, CookieInventoryEntry>();
+  getLatestResults(project, results).forEach((result) => {
+    (result.cookies || []).forEach((cookie) => {
+      const entry = inventory.get(cookie.name) || { name: cookie.name, session: isSessionCookie(cookie.name), setters: [] };
+      const endpointKey = getEndpointKey(result);
+      // A response setting the same cookie twice keeps the last one, as browsers do
+      entry.setters = [
+        ...entry.setters.filter(setter => setter.endpointKey !== endpointKey),
+        { endpointKey, endpointName: result.endpointName, method: result.method, cookie },
+      ];
+      inventory.set(cookie.name, entry);
+    });
+  });
+  return [...inventory.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
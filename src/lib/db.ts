@@ -0,0 +1,167 @@
+// IndexedDB persistence layer backing the storage utilities
+import { SCHEMA_VERSION, migrateWorkspace, validateWorkspace, WorkspaceData } from './migrations';
+
+const DB_NAME = 'vulnscan-pro';
+const DB_VERSION = 4;
+
+interface CollectionDefinition {
+  keyPath: string;
+  indexes: string[];
+  // Index used to return records in a stable order (defaults to key order)
+  orderBy?: string;
+}
+
+// Record collections get their own object store; every other key lives in the settings store
+export const COLLECTIONS: Record<string, CollectionDefinition> = {
+  projects: { keyPath: 'id', indexes: [] },
+  endpoints: { keyPath: 'id', indexes: ['projectId'] },
+  testResults: { keyPath: 'id', indexes: ['projectId', 'timestamp', 'runId'], orderBy: 'timestamp' },
+  scanRuns: { keyPath: 'id', indexes: ['projectId', 'startedAt'], orderBy: 'startedAt' },
+  portScans: { keyPath: 'id', indexes: ['projectId', 'startedAt'], orderBy: 'startedAt' },
+  runStats: { keyPath: 'id', indexes: ['projectId', 'startedAt'], orderBy: 'startedAt' },
+  trash: { keyPath: 'id', indexes: ['deletedAt'], orderBy: 'deletedAt' },
+};
+
+export const SETTINGS_STORE = 'settings';
+
+const LOCAL_STORAGE_MIGRATED = 'localStorageMigrated';
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+// Records that failed validation during a schema upgrade are parked here instead of being dropped
+export const QUARANTINE_KEY = 'quarantine';
+// Bookkeeping of this browser's database; never part of a workspace backup
+export const INTERNAL_SETTINGS = [LOCAL_STORAGE_MIGRATED, SCHEMA_VERSION_KEY, QUARANTINE_KEY];
+
+export class StorageQuotaError extends Error {
+  constructor(public readonly key: string) {
+    super(`Storage quota exceeded while saving ${key}`);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+export const isCollection = (key: string) => Object.prototype.hasOwnProperty.call(COLLECTIONS, key);
+
+export const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+
+export const requestToPromise = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+const upgradeDatabase = (db: IDBDatabase, transaction: IDBTransaction) => {
+  Object.entries(COLLECTIONS).forEach(([name, definition]) => {
+    const store = db.objectStoreNames.contains(name)
+      ? transaction.objectStore(name)
+      : db.createObjectStore(name, { keyPath: definition.keyPath });
+
+    definition.indexes.forEach(index => {
+      if (!store.indexNames.contains(index)) {
+        store.createIndex(index, index, { unique: false });
+      }
+    });
+  });
+
+  if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+    db.createObjectStore(SETTINGS_STORE);
+  }
+};
+
+// One-time copy of the legacy localStorage blobs into IndexedDB
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+  const settings = db.transaction(SETTINGS_STORE, 'readonly').objectStore(SETTINGS_STORE);
+  const migrated = await requestToPromise(settings.get(LOCAL_STORAGE_MIGRATED));
+  if (migrated) return;
+
+  const legacyKeys = Object.keys(COLLECTIONS).filter(key => localStorage.getItem(key) !== null);
+  const transaction = db.transaction([...Object.keys(COLLECTIONS), SETTINGS_STORE], 'readwrite');
+
+  legacyKeys.forEach(key => {
+    try {
+      const records = JSON.parse(localStorage.getItem(key) || '[]');
+      if (Array.isArray(records)) {
+        const store = transaction.objectStore(key);
+        records
+          .filter(record => record && record[COLLECTIONS[key].keyPath] !== undefined)
+          .forEach(record => store.put(record));
+      }
+    } catch (error) {
+      console.error(`Error migrating ${key} from localStorage:`, error);
+    }
+  });
+  transaction.objectStore(SETTINGS_STORE).put(new Date().toISOString(), LOCAL_STORAGE_MIGRATED);
+
+  await transactionDone(transaction);
+
+  // Free the localStorage quota only once the copy has been committed
+  legacyKeys.forEach(key => localStorage.removeItem(key));
+};
+
+// Brings every collection up to SCHEMA_VERSION and validates it before the app reads anything
+const upgradeStoredSchema = async (db: IDBDatabase) => {
+  const settings = db.transaction(SETTINGS_STORE, 'readonly').objectStore(SETTINGS_STORE);
+  const storedVersion: number = (await requestToPromise(settings.get(SCHEMA_VERSION_KEY))) ?? 0;
+  if (storedVersion === SCHEMA_VERSION) return;
+
+  const collectionNames = Object.keys(COLLECTIONS);
+  const readTransaction = db.transaction(collectionNames, 'readonly');
+  const stored = await Promise.all(
+    collectionNames.map(name => requestToPromise(readTransaction.objectStore(name).getAll()))
+  );
+  const data: WorkspaceData = Object.fromEntries(collectionNames.map((name, i) => [name, stored[i]]));
+
+  const { data: valid, rejected } = validateWorkspace(migrateWorkspace(data, storedVersion));
+
+  const writeTransaction = db.transaction([...collectionNames, SETTINGS_STORE], 'readwrite');
+  collectionNames.forEach(name => {
+    const store = writeTransaction.objectStore(name);
+    store.clear();
+    (valid[name] || []).forEach(record => store.put(record));
+  });
+
+  const settingsStore = writeTransaction.objectStore(SETTINGS_STORE);
+  if (rejected.length > 0) {
+    console.warn(`${rejected.length} stored record(s) failed validation and were quarantined`, rejected);
+    const quarantineRequest = settingsStore.get(QUARANTINE_KEY);
+    quarantineRequest.onsuccess = () => {
+      settingsStore.put([...(quarantineRequest.result || []), ...rejected], QUARANTINE_KEY);
+    };
+  }
+  settingsStore.put(SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+
+  await transactionDone(writeTransaction);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgradeDatabase(request.result, request.transaction!);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => console.warn('IndexedDB upgrade blocked by another open tab');
+    }).then(async db => {
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      await migrateFromLocalStorage(db);
+      await upgradeStoredSchema(db);
+      return db;
+    });
+
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
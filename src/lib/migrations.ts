@@ -0,0 +1,241 @@
+// Versioned schema migrations applied to persisted workspace data on load
+import { COLLECTION_SCHEMAS, PrioritySchema } from './models';
+
+// Bump together with a new entry in MIGRATIONS whenever a stored shape changes
+export const SCHEMA_VERSION = 4;
+
+export type WorkspaceData = Record<string, unknown[]>;
+
+type LegacyRecord = Record<string, unknown>;
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: WorkspaceData) => WorkspaceData;
+}
+
+export interface RejectedRecord {
+  collection: string;
+  record: unknown;
+  issues: string[];
+}
+
+export class SchemaVersionError extends Error {
+  constructor(public readonly storedVersion: number) {
+    super(`Stored data uses schema version ${storedVersion}, but this release only understands up to ${SCHEMA_VERSION}`);
+    this.name = 'SchemaVersionError';
+  }
+}
+
+const mapRecords = (records: unknown[] | undefined, fn: (record: LegacyRecord) => LegacyRecord) =>
+  (records || []).map(record => fn((record || {}) as LegacyRecord));
+
+const LEGACY_RESULT_STATUS: Record<string, string> = {
+  pass: 'pass',
+  secure: 'pass',
+  fail: 'fail',
+  vulnerable: 'fail',
+  error: 'error',
+};
+
+// Result ids are `${endpoint.id}_${Date.now()}`
+const endpointIdFromResultId = (id: unknown) => {
+  if (typeof id !== 'string' || !id.includes('_')) return undefined;
+  return id.substring(0, id.lastIndexOf('_'));
+};
+
+// The old IP address replacement applied to http(s) URLs and URLs without a scheme, keeping port and path
+const templateHost = (url: unknown) => {
+  if (typeof url !== 'string' || (url.includes('://') && !/^https?:\/\//.test(url))) return url;
+  return url.replace(/^(https?:\/\/)?[^/:?#]+/, (_, scheme: string | undefined) => `${scheme || ''}{{host}}`);
+};
+
+// Projects with an IP address, including those in the trash whose endpoints may have been restored
+const getIpAddressProjects = (data: WorkspaceData) => {
+  const payloads = mapRecords(data.trash, entry => (entry.payload || {}) as LegacyRecord);
+  const projects = [...(data.projects || []), ...payloads.flatMap(payload => (payload.projects as unknown[]) || [])];
+  return new Set(mapRecords(projects, project => project)
+    .filter(project => typeof project.ipAddress === 'string' && project.ipAddress.trim())
+    .map(project => String(project.id)));
+};
+
+// Project.ipAddress becomes a Default environment whose `host` the project's endpoints reference
+const moveIpAddressToEnvironment = (ipProjects: Set<string>, projects: unknown[] | undefined, endpoints: unknown[] | undefined) => ({
+  projects: mapRecords(projects, ({ ipAddress, ...project }) => {
+    if (typeof ipAddress !== 'string' || !ipAddress.trim()) return { ...project, environments: project.environments ?? [] };
+    const environment = { id: `${project.id}_default`, name: 'Default', variables: [{ name: 'host', value: ipAddress.trim() }] };
+    return { ...project, environments: [environment], defaultEnvironmentId: environment.id };
+  }),
+  endpoints: mapRecords(endpoints, endpoint =>
+    ipProjects.has(String(endpoint.projectId)) ? { ...endpoint, url: templateHost(endpoint.url) } : endpoint),
+});
+
+// Strings the hardcoded checks used to write into vulnerabilities, as of version 2
+const LEGACY_CHECK_FINDINGS: Record<string, LegacyRecord> = {
+  'Missing X-Content-Type-Options header': { checkId: 'missing-x-content-type-options', severity: 'low', cwe: 'CWE-693', owasp: 'A05:2021' },
+  'Missing X-Frame-Options header': { checkId: 'missing-x-frame-options', severity: 'medium', cwe: 'CWE-1021', owasp: 'A05:2021' },
+  'Missing X-XSS-Protection header': { checkId: 'missing-x-xss-protection', severity: 'low', cwe: 'CWE-79', owasp: 'A03:2021' },
+  'Missing Strict-Transport-Security header': { checkId: 'missing-hsts', severity: 'medium', cwe: 'CWE-319', owasp: 'A02:2021' },
+  'Server Error - Potential Information Disclosure': {
+    checkId: 'server-error-disclosure', title: 'Server error - potential information disclosure', severity: 'medium', cwe: 'CWE-209', owasp: 'A05:2021',
+  },
+  'Potential SQL Error Information Disclosure': {
+    checkId: 'sql-error-disclosure', title: 'SQL error information disclosure', severity: 'high', cwe: 'CWE-209', owasp: 'A03:2021',
+  },
+};
+
+// Check output moves to structured findings; expectation and connection messages stay in vulnerabilities
+const splitLegacyFindings = (results: unknown[] | undefined) => mapRecords(results, (result) => {
+  const messages = Array.isArray(result.vulnerabilities) ? result.vulnerabilities.map(String) : [];
+  return {
+    ...result,
+    vulnerabilities: messages.filter(message => !LEGACY_CHECK_FINDINGS[message]),
+    findings: [
+      ...(Array.isArray(result.findings) ? result.findings : []),
+      ...messages
+        .filter(message => LEGACY_CHECK_FINDINGS[message])
+        .map(message => ({ title: message, ...LEGACY_CHECK_FINDINGS[message] })),
+    ],
+  };
+});
+
+// Checks that were removed rather than renamed; nothing they reported still counts as a finding
+const RETIRED_CHECK_IDS = ['missing-x-xss-protection'];
+
+const isRetiredCheck = (checkId: unknown) => RETIRED_CHECK_IDS.includes(String(checkId));
+
+const dropRetiredFindings = (results: unknown[] | undefined) => mapRecords(results, result => ({
+  ...result,
+  findings: (Array.isArray(result.findings) ? result.findings as LegacyRecord[] : []).filter(finding => !isRetiredCheck(finding?.checkId)),
+}));
+
+const dropRetiredCheckSettings = (projects: unknown[] | undefined) => mapRecords(projects, (project) => {
+  const checkOverrides = { ...((project.checkOverrides || {}) as LegacyRecord) };
+  RETIRED_CHECK_IDS.forEach(id => delete checkOverrides[id]);
+  return {
+    ...project,
+    checkOverrides,
+    suppressions: (Array.isArray(project.suppressions) ? project.suppressions as LegacyRecord[] : []).filter(suppression => !isRetiredCheck(suppression?.checkId)),
+  };
+});
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Unify endpoint and test result shapes written by the individual screens',
+    migrate: (data) => ({
+      ...data,
+      projects: mapRecords(data.projects, project => ({
+        ...project,
+        description: project.description ?? '',
+      })),
+      endpoints: mapRecords(data.endpoints, endpoint => {
+        const priority = String(endpoint.priority ?? 'medium').toLowerCase();
+        const expectedStatusCode = Number(endpoint.expectedStatusCode);
+        return {
+          ...endpoint,
+          method: String(endpoint.method ?? 'GET').toUpperCase(),
+          priority: PrioritySchema.safeParse(priority).success ? priority : 'medium',
+          expectedStatusCode: Number.isInteger(expectedStatusCode) && expectedStatusCode > 0 ? expectedStatusCode : undefined,
+          expectedResponse: endpoint.expectedResponse ?? endpoint.expectedContent,
+        };
+      }),
+      testResults: mapRecords(data.testResults, result => {
+        const vulnerabilities = Array.isArray(result.vulnerabilities)
+          ? result.vulnerabilities
+          : result.vulnerability ? [result.vulnerability] : [];
+        return {
+          ...result,
+          endpointId: result.endpointId ?? endpointIdFromResultId(result.id),
+          endpointName: result.endpointName ?? result.endpoint ?? 'Unknown endpoint',
+          url: result.url ?? '',
+          method: result.method ?? 'GET',
+          status: LEGACY_RESULT_STATUS[String(result.status).toLowerCase()] ?? 'error',
+          vulnerabilities,
+        };
+      }),
+    }),
+  },
+  {
+    version: 2,
+    description: 'Replace the project IP address with a Default environment and {{host}} endpoint URLs',
+    migrate: (data) => {
+      const ipProjects = getIpAddressProjects(data);
+      return {
+        ...data,
+        ...moveIpAddressToEnvironment(ipProjects, data.projects, data.endpoints),
+        trash: mapRecords(data.trash, (entry) => {
+          const payload = (entry.payload || {}) as WorkspaceData;
+          return { ...entry, payload: { ...payload, ...moveIpAddressToEnvironment(ipProjects, payload.projects, payload.endpoints) } };
+        }),
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'Store security check output as structured findings with severity, CWE and OWASP category',
+    migrate: (data) => ({
+      ...data,
+      testResults: splitLegacyFindings(data.testResults),
+      trash: mapRecords(data.trash, (entry) => {
+        const payload = (entry.payload || {}) as WorkspaceData;
+        return { ...entry, payload: { ...payload, testResults: splitLegacyFindings(payload.testResults) } };
+      }),
+    }),
+  },
+  {
+    version: 4,
+    description: 'Drop findings, overrides and suppressions of the retired X-XSS-Protection presence check',
+    migrate: (data) => ({
+      ...data,
+      projects: dropRetiredCheckSettings(data.projects),
+      testResults: dropRetiredFindings(data.testResults),
+      trash: mapRecords(data.trash, (entry) => {
+        const payload = (entry.payload || {}) as WorkspaceData;
+        return {
+          ...entry,
+          payload: { ...payload, projects: dropRetiredCheckSettings(payload.projects), testResults: dropRetiredFindings(payload.testResults) },
+        };
+      }),
+    }),
+  },
+];
+
+export const migrateWorkspace = (data: WorkspaceData, fromVersion: number): WorkspaceData => {
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new SchemaVersionError(fromVersion);
+  }
+  return MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((current, migration) => migration.migrate(current), data);
+};
+
+// Parses every record against its collection schema, separating out the ones that don't fit
+export const validateWorkspace = (data: WorkspaceData) => {
+  const rejected: RejectedRecord[] = [];
+  const valid: WorkspaceData = {};
+
+  Object.entries(data).forEach(([collection, records]) => {
+    const schema = COLLECTION_SCHEMAS[collection];
+    if (!schema) {
+      valid[collection] = records;
+      return;
+    }
+    valid[collection] = [];
+    records.forEach(record => {
+      const parsed = schema.safeParse(record);
+      if (parsed.success) {
+        valid[collection].push(parsed.data);
+      } else {
+        rejected.push({
+          collection,
+          record,
+          issues: parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+        });
+      }
+    });
+  });
+
+  return { data: valid, rejected };
+};
@@ -0,0 +1,395 @@
+// Shared domain model for everything persisted by the testing suite
+import { z } from 'zod';
+
+export const PrioritySchema = z.enum(['low', 'medium', 'high', 'critical']);
+
+// Unset limits keep everything; keepLatestPerEndpoint protects each endpoint's newest result from compaction
+export const RetentionPolicySchema = z.object({
+  keepRuns: z.number().int().positive().optional(),
+  keepDays: z.number().int().positive().optional(),
+  keepLatestPerEndpoint: z.boolean().default(true),
+});
+
+export const BackoffStrategySchema = z.enum(['none', 'fixed', 'linear', 'exponential']);
+export const RetryableErrorSchema = z.enum(['timeout', 'network']);
+
+// Every field is optional: endpoint values override the project's, which override the built-in defaults
+export const RequestPolicySchema = z.object({
+  timeoutMs: z.number().int().positive().optional(),
+  retries: z.number().int().min(0).max(10).optional(),
+  backoff: BackoffStrategySchema.optional(),
+  backoffDelayMs: z.number().int().min(0).optional(),
+  retryOnStatus: z.array(z.number().int()).optional(),
+  retryOnErrors: z.array(RetryableErrorSchema).optional(),
+  followRedirects: z.boolean().optional(),
+  maxRedirects: z.number().int().min(0).optional(),
+});
+
+export const AssertionTypeSchema = z.enum(['status', 'header', 'jsonPath', 'xPath', 'bodyRegex', 'jsonSchema', 'responseTime']);
+export const AssertionOperatorSchema = z.enum([
+  'exists', 'notExists', 'equals', 'notEquals', 'contains', 'matches', 'notMatches', 'lessThan', 'greaterThan',
+]);
+
+// `target` is the header name or JSONPath/XPath expression; `expected` holds the status list
+// (e.g. "200, 201, 300-399"), comparison value, regex, schema JSON or SLA in milliseconds
+export const AssertionSchema = z.object({
+  id: z.string(),
+  type: AssertionTypeSchema,
+  target: z.string().default(''),
+  operator: AssertionOperatorSchema.default('equals'),
+  expected: z.string().default(''),
+});
+
+export const AssertionResultSchema = z.object({
+  assertionId: z.string().optional(),
+  description: z.string(),
+  passed: z.boolean(),
+  expected: z.string(),
+  actual: z.string(),
+});
+
+export const ExtractorSourceSchema = z.enum(['jsonPath', 'regex', 'header', 'cookie']);
+
+// Saves a value from the response into the run-scoped variable `name`, used later as {{name}}
+export const ExtractorSchema = z.object({
+  id: z.string(),
+  name: z.string().regex(/^[A-Za-z_][\w.-]*$/),
+  source: ExtractorSourceSchema,
+  // JSONPath, regex (first capture group wins), header name or cookie name
+  expression: z.string(),
+});
+
+export const EnvironmentVariableSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][\w.-]*$/),
+  // May contain {{secret:name}} vault references
+  value: z.string(),
+});
+
+// A named target of a project (dev, staging, prod) whose variables fill {{name}} references in endpoints
+export const EnvironmentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  variables: z.array(EnvironmentVariableSchema).default([]),
+});
+
+export const AuthTypeSchema = z.enum([
+  'basic',
+  'bearer',
+  'apiKey',
+  'cookieLogin',
+  'oauth2ClientCredentials',
+  'oauth2Password',
+  'hmac',
+]);
+
+// Reusable credentials applied to requests; only the fields of its type are used.
+// Every field may contain {{name}} environment variables and {{secret:name}} vault references.
+export const AuthProfileSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: AuthTypeSchema,
+  // basic, oauth2Password
+  username: z.string().optional(),
+  password: z.string().optional(),
+  // bearer
+  token: z.string().optional(),
+  // apiKey
+  apiKeyName: z.string().optional(),
+  apiKeyValue: z.string().optional(),
+  apiKeyIn: z.enum(['header', 'query']).default('header'),
+  // cookieLogin: the Set-Cookie values of this request become the Cookie header
+  loginUrl: z.string().optional(),
+  loginMethod: z.string().default('POST'),
+  loginHeaders: z.string().optional(),
+  loginBody: z.string().optional(),
+  // oauth2ClientCredentials, oauth2Password
+  tokenUrl: z.string().optional(),
+  clientId: z.string().optional(),
+  clientSecret: z.string().optional(),
+  scope: z.string().optional(),
+  // hmac
+  hmacKeyId: z.string().optional(),
+  hmacSecret: z.string().optional(),
+  hmacAlgorithm: z.enum(['SHA-256', 'SHA-512']).default('SHA-256'),
+  hmacHeader: z.string().default('Authorization'),
+});
+
+export const SeveritySchema = z.enum(['info', 'low', 'medium', 'high', 'critical']);
+
+// Lowest severity of a finding that fails the endpoint; findings never fail it when 'none'
+export const SeverityThresholdSchema = z.union([SeveritySchema, z.literal('none')]);
+
+// Security check ids mapped to on/off, overriding the check's own default
+export const CheckOverridesSchema = z.record(z.boolean());
+
+export const SuppressionScopeSchema = z.enum(['endpoint', 'category', 'project']);
+
+// Accepted risk: findings of a check that no longer count towards pass/fail within the scope
+export const SuppressionSchema = z.object({
+  id: z.string(),
+  checkId: z.string(),
+  scope: SuppressionScopeSchema,
+  // Set for the endpoint and category scopes respectively
+  endpointId: z.string().optional(),
+  category: z.string().optional(),
+  reason: z.string(),
+  owner: z.string(),
+  // Last day the suppression applies, as YYYY-MM-DD
+  expiresAt: z.string().optional(),
+  createdAt: z.string(),
+});
+
+// Mutated request that triggered an active check, with credentials redacted
+export const FindingEvidenceSchema = z.object({
+  method: z.string(),
+  url: z.string(),
+  headers: z.record(z.string()).default({}),
+  body: z.string().optional(),
+  location: z.enum(['query', 'body', 'header']),
+  parameter: z.string(),
+  payload: z.string(),
+});
+
+// Problem reported by a registered security check; remediation text is looked up by checkId
+export const FindingSchema = z.object({
+  checkId: z.string(),
+  title: z.string(),
+  severity: SeveritySchema,
+  // What was observed on this particular response
+  detail: z.string().optional(),
+  // e.g. CWE-693
+  cwe: z.string().optional(),
+  // OWASP Top 10 (2021) category, e.g. A05:2021
+  owasp: z.string().optional(),
+  // CVSS 3.1 vector, e.g. CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:N/A:N, and its base score
+  cvss: z.string().optional(),
+  cvssScore: z.number().min(0).max(10).optional(),
+  evidence: FindingEvidenceSchema.optional(),
+  // Copied from the suppression that applied when the result was recorded
+  suppression: SuppressionSchema.pick({ id: true, reason: true, owner: true, expiresAt: true }).optional(),
+});
+
+export const ProjectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().default(''),
+  category: z.string().default('Web Application'),
+  environments: z.array(EnvironmentSchema).default([]),
+  // Preselected in the scanner; the first environment when unset
+  defaultEnvironmentId: z.string().optional(),
+  authProfiles: z.array(AuthProfileSchema).default([]),
+  // Applied to endpoints that don't pick a profile themselves
+  defaultAuthProfileId: z.string().optional(),
+  checkOverrides: CheckOverridesSchema.default({}),
+  failSeverity: SeverityThresholdSchema.default('high'),
+  suppressions: z.array(SuppressionSchema).default([]),
+  retention: RetentionPolicySchema.optional(),
+  requestPolicy: RequestPolicySchema.optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const EndpointSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  url: z.string(),
+  method: z.string().default('GET'),
+  headers: z.string().optional(),
+  body: z.string().optional(),
+  description: z.string().optional(),
+  category: z.string().default('Authentication'),
+  priority: PrioritySchema.default('medium'),
+  projectId: z.string(),
+  expectedStatusCode: z.number().int().optional(),
+  expectedResponse: z.string().optional(),
+  assertions: z.array(AssertionSchema).default([]),
+  extractors: z.array(ExtractorSchema).default([]),
+  // Auth profile of the project; the project default when unset, none when NO_AUTH_PROFILE
+  authProfileId: z.string().optional(),
+  requestPolicy: RequestPolicySchema.optional(),
+});
+
+export const TestResultStatusSchema = z.enum(['pass', 'fail', 'error']);
+
+// Attributes of a cookie an endpoint set; the value is never stored
+export const ObservedCookieSchema = z.object({
+  name: z.string(),
+  domain: z.string().optional(),
+  path: z.string().optional(),
+  secure: z.boolean(),
+  httpOnly: z.boolean(),
+  sameSite: z.string().optional(),
+  // Seconds until it expires; unset for cookies that end with the browser session
+  lifetime: z.number().optional(),
+});
+
+export const TestResultSchema = z.object({
+  id: z.string(),
+  runId: z.string().optional(),
+  endpointId: z.string().optional(),
+  endpointName: z.string(),
+  url: z.string(),
+  method: z.string(),
+  status: TestResultStatusSchema,
+  // Why the test failed or errored: expectations, assertions, extractors and connection problems
+  vulnerabilities: z.array(z.string()).default([]),
+  findings: z.array(FindingSchema).default([]),
+  responseTime: z.number().optional(),
+  statusCode: z.number().optional(),
+  timestamp: z.string(),
+  projectId: z.string(),
+  actualContent: z.string().optional(),
+  assertions: z.array(AssertionResultSchema).optional(),
+  // Names only; extracted values can be credentials and are never persisted
+  extractedVariables: z.array(z.string()).optional(),
+  cookies: z.array(ObservedCookieSchema).optional(),
+  // Requests sent, including retries
+  attempts: z.number().int().positive().optional(),
+  // Reported by the scanning agent, in milliseconds
+  timings: z.object({
+    dns: z.number().optional(),
+    connect: z.number().optional(),
+    tls: z.number().optional(),
+    ttfb: z.number().optional(),
+    total: z.number().optional(),
+  }).optional(),
+});
+
+export const TestConfigSchema = z.object({
+  projectId: z.string(),
+  expectedContent: z.string().default(''),
+  checkContent: z.boolean().default(false),
+  // Endpoints requested at the same time within a run
+  concurrency: z.number().int().min(1).max(50).default(1),
+  // Request rate limits; unlimited when omitted
+  requestsPerSecond: z.number().positive().optional(),
+  perHostRequestsPerSecond: z.number().positive().optional(),
+  // Applied on top of the project's check selection; set from a scan profile or by hand
+  checkOverrides: CheckOverridesSchema.default({}),
+  scanProfileId: z.string().optional(),
+});
+
+// Reusable selection of security checks for the scanner
+export const ScanProfileSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  checkOverrides: CheckOverridesSchema.default({}),
+});
+
+export const ScanRunCountsSchema = z.object({
+  total: z.number().int(),
+  pass: z.number().int(),
+  fail: z.number().int(),
+  error: z.number().int(),
+});
+
+export const ScanRunSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  startedAt: z.string(),
+  finishedAt: z.string().optional(),
+  triggeredBy: z.string(),
+  trigger: z.enum(['all', 'single']),
+  status: z.enum(['running', 'completed', 'stopped']),
+  // Snapshots of what the run was executed with, so later edits don't rewrite history
+  config: TestConfigSchema,
+  endpoints: z.array(EndpointSchema),
+  environment: EnvironmentSchema.optional(),
+  counts: ScanRunCountsSchema,
+});
+
+// What is left of a scan run after retention compacted its results away
+export const RunStatSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  startedAt: z.string(),
+  finishedAt: z.string().optional(),
+  counts: ScanRunCountsSchema,
+  findings: z.number().int().default(0),
+  compactedAt: z.string(),
+});
+
+export const PortScanResultSchema = z.object({
+  port: z.number().int(),
+  status: z.enum(['open', 'closed', 'filtered', 'scanning']),
+  service: z.string().optional(),
+  banner: z.string().optional(),
+});
+
+export const PortScanSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  target: z.string(),
+  scanType: z.enum(['common', 'range', 'custom']),
+  startedAt: z.string(),
+  finishedAt: z.string().optional(),
+  status: z.enum(['completed', 'stopped']),
+  results: z.array(PortScanResultSchema),
+});
+
+// Everything removed by one delete, so a restore can put it back exactly
+export const TrashPayloadSchema = z.object({
+  projects: z.array(ProjectSchema).default([]),
+  endpoints: z.array(EndpointSchema).default([]),
+  testResults: z.array(TestResultSchema).default([]),
+  scanRuns: z.array(ScanRunSchema).default([]),
+  portScans: z.array(PortScanSchema).default([]),
+  runStats: z.array(RunStatSchema).default([]),
+});
+
+export const TrashEntrySchema = z.object({
+  id: z.string(),
+  kind: z.enum(['project', 'endpoint']),
+  label: z.string(),
+  projectId: z.string(),
+  deletedAt: z.string(),
+  payload: TrashPayloadSchema,
+});
+
+export type Priority = z.infer<typeof PrioritySchema>;
+export type BackoffStrategy = z.infer<typeof BackoffStrategySchema>;
+export type RetryableError = z.infer<typeof RetryableErrorSchema>;
+export type AssertionType = z.infer<typeof AssertionTypeSchema>;
+export type AssertionOperator = z.infer<typeof AssertionOperatorSchema>;
+export type Assertion = z.infer<typeof AssertionSchema>;
+export type AssertionResult = z.infer<typeof AssertionResultSchema>;
+export type ExtractorSource = z.infer<typeof ExtractorSourceSchema>;
+export type Extractor = z.infer<typeof ExtractorSchema>;
+export type RequestPolicy = z.infer<typeof RequestPolicySchema>;
+export type EnvironmentVariable = z.infer<typeof EnvironmentVariableSchema>;
+export type Environment = z.infer<typeof EnvironmentSchema>;
+export type AuthType = z.infer<typeof AuthTypeSchema>;
+export type AuthProfile = z.infer<typeof AuthProfileSchema>;
+export type RetentionPolicy = z.infer<typeof RetentionPolicySchema>;
+export type Project = z.infer<typeof ProjectSchema>;
+export type Endpoint = z.infer<typeof EndpointSchema>;
+export type TestResultStatus = z.infer<typeof TestResultStatusSchema>;
+export type Severity = z.infer<typeof SeveritySchema>;
+export type SeverityThreshold = z.infer<typeof SeverityThresholdSchema>;
+export type CheckOverrides = z.infer<typeof CheckOverridesSchema>;
+export type Finding = z.infer<typeof FindingSchema>;
+export type FindingEvidence = z.infer<typeof FindingEvidenceSchema>;
+export type SuppressionScope = z.infer<typeof SuppressionScopeSchema>;
+export type Suppression = z.infer<typeof SuppressionSchema>;
+export type ObservedCookie = z.infer<typeof ObservedCookieSchema>;
+export type TestResult = z.infer<typeof TestResultSchema>;
+export type TestConfig = z.infer<typeof TestConfigSchema>;
+export type ScanProfile = z.infer<typeof ScanProfileSchema>;
+export type ScanRunCounts = z.infer<typeof ScanRunCountsSchema>;
+export type ScanRun = z.infer<typeof ScanRunSchema>;
+export type RunStat = z.infer<typeof RunStatSchema>;
+export type PortScanResult = z.infer<typeof PortScanResultSchema>;
+export type PortScan = z.infer<typeof PortScanSchema>;
+export type TrashPayload = z.infer<typeof TrashPayloadSchema>;
+export type TrashEntry = z.infer<typeof TrashEntrySchema>;
+
+// Schema used to validate each persisted record collection
+export const COLLECTION_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  projects: ProjectSchema,
+  endpoints: EndpointSchema,
+  testResults: TestResultSchema,
+  scanRuns: ScanRunSchema,
+  portScans: PortScanSchema,
+  runStats: RunStatSchema,
+  trash: TrashEntrySchema,
+};
@@ -0,0 +1,182 @@
+// Retention policies: compacts old runs into aggregate stats so history stays bounded but trends survive
+import { Endpoint, PortScan, Project, RetentionPolicy, RunStat, ScanRun, ScanRunCounts, TestResult } from './models';
+import { getLatestResults } from './risk';
+import { getScanLock, ScanLock } from './scan-lock';
+import { applyStoredChanges, getStoredData, getStoredDataByProject } from './storage';
+import { summarizeResults } from './scan-runs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CompactionSummary {
+  runs: number;
+  results: number;
+}
+
+export type TrendPoint = ScanRunCounts & { date: string };
+
+export interface ProjectStorageUsage {
+  projectId: string;
+  projectName: string;
+  // Approximate serialized size per collection, in bytes
+  bytes: Record<string, number>;
+  total: number;
+}
+
+export const hasRetentionLimits = (policy?: RetentionPolicy) => !!policy && (!!policy.keepRuns || !!policy.keepDays);
+
+// The same results the dashboard scores, so compaction never removes what the risk view shows
+const latestResultIds = (project: Project, results: TestResult[]) =>
+  new Set(getLatestResults(project, results).map(result => result.id));
+
+// Only a run started under the project's live scan lock is in progress; other running ones were cut short by a crash or a closed tab
+const isActiveRun = (run: ScanRun, lock: ScanLock | null) =>
+  run.status === 'running' && !!lock && new Date(run.startedAt).getTime() >= lock.acquiredAt;
+
+const toRunStat = (run: ScanRun, results: TestResult[], compactedAt: string): RunStat => ({
+  id: run.id,
+  projectId: run.projectId,
+  startedAt: run.startedAt,
+  finishedAt: run.finishedAt,
+  // Results recorded after the run's summary was written (or never summarized) still count
+  counts: results.length > 0 ? summarizeResults(results) : run.counts,
+  findings: results.reduce((sum, result) => sum + (result.findings || []).length, 0),
+  compactedAt,
+});
+
+const addCounts = (a: ScanRunCounts, b: ScanRunCounts): ScanRunCounts => ({
+  total: a.total + b.total,
+  pass: a.pass + b.pass,
+  fail: a.fail + b.fail,
+  error: a.error + b.error,
+});
+
+// Applies the project's policy; runs still in progress are never touched, abandoned ones are compacted like finished runs
+export const applyRetention = async (project: Project): Promise<CompactionSummary> => {
+  const policy = project.retention;
+  if (!hasRetentionLimits(policy)) return { runs: 0, results: 0 };
+
+  const runs = await getStoredDataByProject<ScanRun>('scanRuns', project.id);
+  const results = await getStoredDataByProject<TestResult>('testResults', project.id);
+  const existingStats = await getStoredDataByProject<RunStat>('runStats', project.id);
+  const cutoff = policy.keepDays ? new Date(Date.now() - policy.keepDays * DAY_MS).toISOString() : null;
+
+  const lock = getScanLock(project.id);
+  const finished = runs.filter(run => !isActiveRun(run, lock)).sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  const expiredRuns = finished.filter((run, index) =>
+    (policy.keepRuns !== undefined && index >= policy.keepRuns) || (cutoff !== null && run.startedAt < cutoff));
+  const expiredRunIds = new Set(expiredRuns.map(run => run.id));
+
+  const protectedIds = policy.keepLatestPerEndpoint ? latestResultIds(project, results) : new Set<string>();
+  const expiredResults = results.filter(result => {
+    if (protectedIds.has(result.id)) return false;
+    // Results from before scan runs existed only expire by age
+    return result.runId ? expiredRunIds.has(result.runId) : cutoff !== null && result.timestamp < cutoff;
+  });
+
+  if (expiredRuns.length === 0 && expiredResults.length === 0) return { runs: 0, results: 0 };
+
+  const compactedAt = new Date().toISOString();
+  const resultsByRun = new Map<string, TestResult[]>();
+  results.forEach(result => {
+    if (result.runId) resultsByRun.set(result.runId, [...(resultsByRun.get(result.runId) || []), result]);
+  });
+  const stats = expiredRuns.map(run => toRunStat(run, resultsByRun.get(run.id) || [], compactedAt));
+
+  // Run-less results are folded into one stat per day
+  const statsById = new Map(existingStats.map(stat => [stat.id, stat]));
+  const legacyStatIds = new Set<string>();
+  expiredResults.filter(result => !result.runId).forEach(result => {
+    const day = result.timestamp.slice(0, 10);
+    const id = `legacy_${project.id}_${day}`;
+    const current = statsById.get(id) || {
+      id,
+      projectId: project.id,
+      startedAt: `${day}T00:00:00.000Z`,
+      counts: { total: 0, pass: 0, fail: 0, error: 0 },
+      findings: 0,
+      compactedAt,
+    };
+    const updated = {
+      ...current,
+      counts: addCounts(current.counts, summarizeResults([result])),
+      findings: current.findings + (result.findings || []).length,
+      compactedAt,
+    };
+    statsById.set(id, updated);
+    legacyStatIds.add(id);
+  });
+  legacyStatIds.forEach(id => stats.push(statsById.get(id)!));
+
+  const saved = await applyStoredChanges({
+    scanRuns: { delete: [...expiredRunIds] },
+    testResults: { delete: expiredResults.map(result => result.id) },
+    runStats: { put: stats },
+  });
+  return saved ? { runs: expiredRuns.length, results: expiredResults.length } : { runs: 0, results: 0 };
+};
+
+export const applyAllRetention = async () => {
+  const projects = await getStoredData<Project[]>('projects', []);
+  const summaries = await Promise.all(projects.filter(p => hasRetentionLimits(p.retention)).map(applyRetention));
+  return summaries.reduce((sum, summary) => ({ runs: sum.runs + summary.runs, results: sum.results + summary.results }), { runs: 0, results: 0 });
+};
+
+// Daily pass/fail/error totals from live runs and compacted stats alike
+export const getResultTrend = async (projectId?: string): Promise<TrendPoint[]> => {
+  const runs = projectId
+    ? await getStoredDataByProject<ScanRun>('scanRuns', projectId)
+    : await getStoredData<ScanRun[]>('scanRuns', []);
+  const stats = projectId
+    ? await getStoredDataByProject<RunStat>('runStats', projectId)
+    : await getStoredData<RunStat[]>('runStats', []);
+
+  const byDay = new Map<string, ScanRunCounts>();
+  [...runs.filter(run => run.status !== 'running'), ...stats].forEach(entry => {
+    const day = entry.startedAt.slice(0, 10);
+    byDay.set(day, addCounts(byDay.get(day) || { total: 0, pass: 0, fail: 0, error: 0 }, entry.counts));
+  });
+
+  return [...byDay.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, counts]) => ({ date, ...counts }));
+};
+
+const USAGE_COLLECTIONS = ['endpoints', 'testResults', 'scanRuns', 'portScans', 'runStats'] as const;
+
+const byteSize = (value: unknown) => new Blob([JSON.stringify(value)]).size;
+
+export const getStorageUsage = async (): Promise<ProjectStorageUsage[]> => {
+  const projects = await getStoredData<Project[]>('projects', []);
+  const records: Record<string, { projectId?: string }[]> = {
+    endpoints: await getStoredData<Endpoint[]>('endpoints', []),
+    testResults: await getStoredData<TestResult[]>('testResults', []),
+    scanRuns: await getStoredData<ScanRun[]>('scanRuns', []),
+    portScans: await getStoredData<PortScan[]>('portScans', []),
+    runStats: await getStoredData<RunStat[]>('runStats', []),
+  };
+
+  return projects
+    .map(project => {
+      const bytes = Object.fromEntries(USAGE_COLLECTIONS.map(key => [
+        key,
+        records[key].filter(record => record.projectId === project.id).reduce((sum, record) => sum + byteSize(record), 0),
+      ]));
+      return {
+        projectId: project.id,
+        projectName: project.name,
+        bytes,
+        total: Object.values(bytes).reduce((sum, size) => sum + size, 0) + byteSize(project),
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+};
+
+// Browser-reported usage and quota for the whole origin, when available
+export const getStorageEstimate = async () =>
+  navigator.storage?.estimate ? navigator.storage.estimate() : null;
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,94 @@
+// Risk scores for the dashboard: the latest unsuppressed findings of each endpoint, weighted by endpoint priority
+import { Endpoint, Finding, Priority, Project, Severity, TestResult } from './models';
+import { getActiveFindings, SEVERITY_ORDER } from './scan';
+
+// Stand-in scores on the CVSS scale for findings without a vector
+const SEVERITY_SCORES: Record<Severity, number> = {
+  info: 0,
+  low: 2,
+  medium: 5.5,
+  high: 8,
+  critical: 9.5,
+};
+
+export const PRIORITY_WEIGHTS: Record<Priority, number> = {
+  low: 0.5,
+  medium: 1,
+  high: 1.5,
+  critical: 2,
+};
+
+export interface EndpointRisk {
+  endpointKey: string;
+  endpointName: string;
+  priority: Priority;
+  // Highest finding score of the latest result, 0-10
+  score: number;
+  // Score times the priority weight; used to rank endpoints
+  weightedScore: number;
+  findings: number;
+  topSeverity?: Severity;
+}
+
+export interface ProjectRisk {
+  projectId: string;
+  projectName: string;
+  // Priority-weighted average of the endpoint scores, 0-10
+  score: number;
+  endpoints: EndpointRisk[];
+}
+
+const roundScore = (score: number) => Math.round(score * 10) / 10;
+
+export const getFindingScore = (finding: Finding) => finding.cvssScore ?? SEVERITY_SCORES[finding.severity];
+
+// Results are matched by endpoint id, falling back to method + URL for legacy results
+export const getEndpointKey = (result: TestResult) => result.endpointId || `${result.method} ${result.url}`;
+
+// The most recent result per endpoint key; of results with the same timestamp the later one wins
+export const getLatestByEndpoint = (results: TestResult[]) => {
+  const latest = new Map<string, TestResult>();
+  results.forEach((result) => {
+    const current = latest.get(getEndpointKey(result));
+    if (!current || current.timestamp <= result.timestamp) latest.set(getEndpointKey(result), result);
+  });
+  return latest;
+};
+
+const getEndpointRisk = (result: TestResult, endpoint?: Endpoint): EndpointRisk => {
+  const findings = getActiveFindings(result.findings);
+  const score = Math.max(0, ...findings.map(getFindingScore));
+  const priority = endpoint?.priority || 'medium';
+  const topSeverity = findings.reduce<Severity | undefined>((top, finding) =>
+    !top || SEVERITY_ORDER.indexOf(finding.severity) > SEVERITY_ORDER.indexOf(top) ? finding.severity : top, undefined);
+
+  return {
+    endpointKey: getEndpointKey(result),
+    endpointName: result.endpointName,
+    priority,
+    score: roundScore(score),
+    weightedScore: roundScore(score * PRIORITY_WEIGHTS[priority]),
+    findings: findings.length,
+    topSeverity,
+  };
+};
+
+// The most recent result of each endpoint of a project
+export const getLatestResults = (project: Project, results: TestResult[]) =>
+  [...getLatestByEndpoint(results.filter(result => result.projectId === project.id)).values()];
+
+// Endpoints never scanned don't count; riskiest endpoints first
+export const getProjectRisk = (project: Project, results: TestResult[], endpoints: Endpoint[]): ProjectRisk => {
+  const endpointRisks = getLatestResults(project, results)
+    .map(result => getEndpointRisk(result, endpoints.find(endpoint => endpoint.id === result.endpointId)))
+    .sort((a, b) => b.weightedScore - a.weightedScore);
+  const totalWeight = endpointRisks.reduce((sum, risk) => sum + PRIORITY_WEIGHTS[risk.priority], 0);
+  const weightedSum = endpointRisks.reduce((sum, risk) => sum + risk.weightedScore, 0);
+
+  return {
+    projectId: project.id,
+    projectName: project.name,
+    score: totalWeight > 0 ? roundScore(weightedSum / totalWeight) : 0,
+    endpoints: endpointRisks,
+  };
+};
@@ -0,0 +1,154 @@
+// Run-to-run comparison of findings and endpoint outcomes
+import { Finding, ScanRun, Severity, TestResult, TestResultStatus } from './models';
+import { getEndpointKey, getLatestByEndpoint } from './risk';
+import { describeFinding, getFindingKey } from './scan';
+import { exportToCSV, exportToJSON } from './storage';
+
+export interface FindingChange {
+  endpointKey: string;
+  endpointName: string;
+  method: string;
+  url: string;
+  checkId: string;
+  severity: Severity;
+  finding: string;
+}
+
+export interface StatusChange {
+  endpointKey: string;
+  endpointName: string;
+  method: string;
+  url: string;
+  from?: TestResultStatus;
+  to?: TestResultStatus;
+}
+
+export interface RunComparison {
+  baseRunId: string;
+  targetRunId: string;
+  generatedAt: string;
+  newFindings: FindingChange[];
+  fixedFindings: FindingChange[];
+  persistingFindings: FindingChange[];
+  // pass -> fail/error
+  regressed: StatusChange[];
+  // fail/error -> pass
+  resolved: StatusChange[];
+  // Other status changes, plus endpoints only present in one of the runs
+  otherChanges: StatusChange[];
+}
+
+const toFindingChanges = (result: TestResult, findings: Finding[]): FindingChange[] =>
+  findings.map(finding => ({
+    endpointKey: getEndpointKey(result),
+    endpointName: result.endpointName,
+    method: result.method,
+    url: result.url,
+    checkId: finding.checkId,
+    severity: finding.severity,
+    finding: describeFinding(finding),
+  }));
+
+const byFindingKey = (result?: TestResult) =>
+  new Map((result?.findings || []).map(finding => [getFindingKey(finding), finding]));
+
+const pick = (findings: Map<string, Finding>, keep: (key: string) => boolean) =>
+  [...findings.entries()].filter(([key]) => keep(key)).map(([, finding]) => finding);
+
+const isFailing = (status?: TestResultStatus) => status === 'fail' || status === 'error';
+
+export const compareRuns = (
+  baseRunId: string,
+  baseResults: TestResult[],
+  targetRunId: string,
+  targetResults: TestResult[]
+): RunComparison => {
+  // When an endpoint was tested more than once in a run, the last result wins
+  const base = getLatestByEndpoint(baseResults);
+  const target = getLatestByEndpoint(targetResults);
+  const comparison: RunComparison = {
+    baseRunId,
+    targetRunId,
+    generatedAt: new Date().toISOString(),
+    newFindings: [],
+    fixedFindings: [],
+    persistingFindings: [],
+    regressed: [],
+    resolved: [],
+    otherChanges: [],
+  };
+
+  const endpointKeys = new Set([...base.keys(), ...target.keys()]);
+  endpointKeys.forEach(key => {
+    const before = base.get(key);
+    const after = target.get(key);
+    const reference = (after || before)!;
+
+    const beforeFindings = byFindingKey(before);
+    const afterFindings = byFindingKey(after);
+    if (after) {
+      comparison.newFindings.push(...toFindingChanges(after, pick(afterFindings, key => !beforeFindings.has(key))));
+      comparison.persistingFindings.push(...toFindingChanges(after, pick(afterFindings, key => beforeFindings.has(key))));
+    }
+    if (before && after) {
+      // Findings of endpoints missing from the target run are unknown rather than fixed
+      comparison.fixedFindings.push(...toFindingChanges(before, pick(beforeFindings, key => !afterFindings.has(key))));
+    }
+
+    if (before?.status === after?.status) return;
+    const change: StatusChange = {
+      endpointKey: key,
+      endpointName: reference.endpointName,
+      method: reference.method,
+      url: reference.url,
+      from: before?.status,
+      to: after?.status,
+    };
+    if (before?.status === 'pass' && isFailing(after?.status)) {
+      comparison.regressed.push(change);
+    } else if (isFailing(before?.status) && after?.status === 'pass') {
+      comparison.resolved.push(change);
+    } else {
+      comparison.otherChanges.push(change);
+    }
+  });
+
+  return comparison;
+};
+
+export const describeRun = (run: ScanRun) =>
+  `${new Date(run.startedAt).toLocaleString()} (${run.counts.pass} pass / ${run.counts.fail + run.counts.error} fail)`;
+
+const COMPARISON_CSV_HEADERS = ['Change', 'Endpoint', 'Method', 'URL', 'Finding', 'Severity', 'Check', 'Before', 'After'];
+
+export const exportComparisonCSV = (comparison: RunComparison, projectName: string) => {
+  const findingRows = (change: string, items: FindingChange[]) => items.map(item => ({
+    Change: change,
+    Endpoint: item.endpointName,
+    Method: item.method,
+    URL: item.url,
+    Finding: item.finding,
+    Severity: item.severity,
+    Check: item.checkId,
+  }));
+  const statusRows = (change: string, items: StatusChange[]) => items.map(item => ({
+    Change: change,
+    Endpoint: item.endpointName,
+    Method: item.method,
+    URL: item.url,
+    Before: item.from || 'not tested',
+    After: item.to || 'not tested',
+  }));
+
+  exportToCSV([
+    ...findingRows('New finding', comparison.newFindings),
+    ...findingRows('Fixed finding', comparison.fixedFindings),
+    ...findingRows('Persisting finding', comparison.persistingFindings),
+    ...statusRows('Regressed', comparison.regressed),
+    ...statusRows('Resolved', comparison.resolved),
+    ...statusRows('Status changed', comparison.otherChanges),
+  ], `${projectName}-run-comparison`, COMPARISON_CSV_HEADERS);
+};
+
+export const exportComparisonJSON = (comparison: RunComparison, projectName: string) =>
+  exportToJSON(comparison, 'run-comparison', projectName);
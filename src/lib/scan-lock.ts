@@ -0,0 +1,110 @@
+// Per-project scan locks shared between browser tabs
+// Kept in localStorage (not IndexedDB) so lock checks stay synchronous and raise `storage` events in other tabs.
+
+const LOCKS_KEY = 'vulnscanScanLocks';
+const HEARTBEAT_INTERVAL = 5000;
+// A lock whose holder stopped sending heartbeats (crashed or closed tab) is considered free
+const STALE_AFTER = 15000;
+
+export interface ScanLock {
+  projectId: string;
+  tabId: string;
+  owner: string;
+  acquiredAt: number;
+  heartbeatAt: number;
+}
+
+export interface AcquireResult {
+  acquired: boolean;
+  // Set when another tab holds the lock
+  holder?: ScanLock;
+}
+
+export const TAB_ID = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+  ? crypto.randomUUID()
+  : `${Date.now()}_${Math.random().toString(36).slice(2)}`;
+
+const listeners = new Set<() => void>();
+const heartbeats = new Map<string, ReturnType<typeof setInterval>>();
+
+const readLocks = (): Record<string, ScanLock> => {
+  try {
+    return JSON.parse(localStorage.getItem(LOCKS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writeLocks = (locks: Record<string, ScanLock>) => {
+  localStorage.setItem(LOCKS_KEY, JSON.stringify(locks));
+  listeners.forEach(listener => listener());
+};
+
+const isStale = (lock: ScanLock) => Date.now() - lock.heartbeatAt > STALE_AFTER;
+
+export const getScanLock = (projectId: string): ScanLock | null => {
+  const lock = readLocks()[projectId];
+  return lock && !isStale(lock) ? lock : null;
+};
+
+export const isLockedByOtherTab = (projectId: string) => {
+  const lock = getScanLock(projectId);
+  return !!lock && lock.tabId !== TAB_ID;
+};
+
+export const acquireScanLock = (projectId: string, owner: string): AcquireResult => {
+  const existing = getScanLock(projectId);
+  if (existing && existing.tabId !== TAB_ID) {
+    return { acquired: false, holder: existing };
+  }
+
+  const now = Date.now();
+  writeLocks({
+    ...readLocks(),
+    [projectId]: { projectId, tabId: TAB_ID, owner, acquiredAt: now, heartbeatAt: now }
+  });
+
+  // Another tab may have written in the same instant; whoever's write survived owns the lock
+  const confirmed = readLocks()[projectId];
+  if (confirmed?.tabId !== TAB_ID) {
+    return { acquired: false, holder: confirmed };
+  }
+
+  clearInterval(heartbeats.get(projectId));
+  heartbeats.set(projectId, setInterval(() => {
+    const locks = readLocks();
+    if (locks[projectId]?.tabId === TAB_ID) {
+      writeLocks({ ...locks, [projectId]: { ...locks[projectId], heartbeatAt: Date.now() } });
+    }
+  }, HEARTBEAT_INTERVAL));
+
+  return { acquired: true };
+};
+
+export const releaseScanLock = (projectId: string) => {
+  clearInterval(heartbeats.get(projectId));
+  heartbeats.delete(projectId);
+
+  const locks = readLocks();
+  if (locks[projectId]?.tabId === TAB_ID) {
+    delete locks[projectId];
+    writeLocks(locks);
+  }
+};
+
+// Notified on lock changes from this tab and from other tabs; returns the unsubscribe function
+export const subscribeToScanLocks = (listener: () => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === LOCKS_KEY) listener();
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
+
+window.addEventListener('pagehide', () => {
+  [...heartbeats.keys()].forEach(releaseScanLock);
+});
@@ -0,0 +1,63 @@
+// Scan run bookkeeping: groups the results produced by one execution
+import { Endpoint, Environment, ScanRun, ScanRunCounts, TestConfig, TestResult } from './models';
+import { appendStoredData, getStoredData, getStoredDataByIndex, getStoredDataByProject } from './storage';
+
+export const OPERATOR_NAME_KEY = 'operatorName';
+export const DEFAULT_OPERATOR = 'Local user';
+
+export const summarizeResults = (results: TestResult[]): ScanRunCounts => ({
+  total: results.length,
+  pass: results.filter(r => r.status === 'pass').length,
+  fail: results.filter(r => r.status === 'fail').length,
+  error: results.filter(r => r.status === 'error').length,
+});
+
+interface StartScanRunOptions {
+  projectId: string;
+  trigger: ScanRun['trigger'];
+  config: TestConfig;
+  endpoints: Endpoint[];
+  environment?: Environment;
+}
+
+export const startScanRun = async ({ projectId, trigger, config, endpoints, environment }: StartScanRunOptions): Promise<ScanRun> => {
+  const triggeredBy = await getStoredData<string>(OPERATOR_NAME_KEY, DEFAULT_OPERATOR);
+  const run: ScanRun = {
+    id: `run_${Date.now()}`,
+    projectId,
+    startedAt: new Date().toISOString(),
+    triggeredBy: triggeredBy.trim() || DEFAULT_OPERATOR,
+    trigger,
+    status: 'running',
+    config: { ...config, projectId },
+    endpoints: endpoints.map(endpoint => ({ ...endpoint })),
+    environment: environment && { ...environment, variables: environment.variables.map(variable => ({ ...variable })) },
+    counts: { total: 0, pass: 0, fail: 0, error: 0 },
+  };
+  await appendStoredData('scanRuns', [run]);
+  return run;
+};
+
+export const finishScanRun = async (run: ScanRun, results: TestResult[], status: 'completed' | 'stopped') => {
+  const finished: ScanRun = {
+    ...run,
+    status,
+    finishedAt: new Date().toISOString(),
+    counts: summarizeResults(results),
+  };
+  await appendStoredData('scanRuns', [finished]);
+  return finished;
+};
+
+// Newest first; all projects when projectId is omitted
+export const getScanRuns = async (projectId?: string) => {
+  const runs = projectId
+    ? await getStoredDataByProject<ScanRun>('scanRuns', projectId)
+    : await getStoredData<ScanRun[]>('scanRuns', []);
+  return runs.slice().reverse();
+};
+
+export const getRunResults = (runId: string) => getStoredDataByIndex<TestResult>('testResults', 'runId', runId);
+
+export const getRunDuration = (run: ScanRun) =>
+  run.finishedAt ? new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime() : undefined;
@@ -0,0 +1,245 @@
+// Typed response assertions declared per endpoint
+import { Assertion, AssertionOperator, AssertionResult, AssertionType, Endpoint } from '../models';
+import { queryJsonPath } from './json-path';
+import { JsonSchema, validateJsonSchema } from './json-schema';
+
+export interface AssertionSubject {
+  status: number;
+  // Lower-cased header names
+  headers: Record<string, string>;
+  body: string;
+  responseTime: number;
+}
+
+export const ASSERTION_TYPE_LABELS: Record<AssertionType, string> = {
+  status: 'Status code',
+  header: 'Header',
+  jsonPath: 'JSONPath',
+  xPath: 'XPath',
+  bodyRegex: 'Body regex',
+  jsonSchema: 'JSON Schema',
+  responseTime: 'Response time SLA',
+};
+
+export const ASSERTION_OPERATOR_LABELS: Record<AssertionOperator, string> = {
+  exists: 'exists',
+  notExists: 'does not exist',
+  equals: 'equals',
+  notEquals: 'does not equal',
+  contains: 'contains',
+  matches: 'matches regex',
+  notMatches: 'does not match regex',
+  lessThan: 'is less than',
+  greaterThan: 'is greater than',
+};
+
+// Operators that make sense for each type; types without operators ignore the field
+export const ASSERTION_OPERATORS: Record<AssertionType, AssertionOperator[]> = {
+  status: [],
+  header: ['exists', 'notExists', 'equals', 'notEquals', 'contains', 'matches', 'notMatches'],
+  jsonPath: ['exists', 'notExists', 'equals', 'notEquals', 'contains', 'matches', 'notMatches', 'lessThan', 'greaterThan'],
+  xPath: ['exists', 'notExists', 'equals', 'notEquals', 'contains', 'matches', 'notMatches', 'lessThan', 'greaterThan'],
+  bodyRegex: ['matches', 'notMatches'],
+  jsonSchema: [],
+  responseTime: ['lessThan'],
+};
+
+const MAX_ACTUAL_LENGTH = 200;
+
+const truncate = (text: string) =>
+  text.length > MAX_ACTUAL_LENGTH ? `${text.substring(0, MAX_ACTUAL_LENGTH)}...` : text;
+
+const stringify = (value: unknown) => typeof value === 'string' ? value : JSON.stringify(value);
+
+// "200, 204, 300-399" -> predicate
+export const parseStatusSet = (spec: string) => {
+  const parts = spec.split(',').map(part => part.trim()).filter(Boolean);
+  return (status: number) => parts.some((part) => {
+    const range = /^(\d{3})\s*-\s*(\d{3})$/.exec(part);
+    if (range) return status >= parseInt(range[1]) && status <= parseInt(range[2]);
+    return parseInt(part) === status;
+  });
+};
+
+export const describeAssertion = (assertion: Assertion) => {
+  const label = ASSERTION_TYPE_LABELS[assertion.type];
+  switch (assertion.type) {
+    case 'status': return `${label} in ${assertion.expected}`;
+    case 'jsonSchema': return `Body matches ${label}`;
+    case 'responseTime': return `Response time under ${assertion.expected}ms`;
+    case 'bodyRegex': return `Body ${ASSERTION_OPERATOR_LABELS[assertion.operator]} /${assertion.expected}/`;
+    default: {
+      const operator = ASSERTION_OPERATOR_LABELS[assertion.operator];
+      const needsValue = assertion.operator !== 'exists' && assertion.operator !== 'notExists';
+      return `${label} ${assertion.target} ${operator}${needsValue ? ` "${assertion.expected}"` : ''}`;
+    }
+  }
+};
+
+// Compares the values a selector found; any single match satisfying the operator passes
+const compareValues = (values: string[], operator: AssertionOperator, expected: string) => {
+  switch (operator) {
+    case 'exists': return values.length > 0;
+    case 'notExists': return values.length === 0;
+    case 'equals': return values.some(value => value === expected);
+    case 'notEquals': return values.length > 0 && values.every(value => value !== expected);
+    case 'contains': return values.some(value => value.includes(expected));
+    case 'matches': return values.some(value => new RegExp(expected).test(value));
+    case 'notMatches': return values.every(value => !new RegExp(expected).test(value));
+    case 'lessThan': return values.some(value => parseFloat(value) < parseFloat(expected));
+    case 'greaterThan': return values.some(value => parseFloat(value) > parseFloat(expected));
+  }
+};
+
+const describeValues = (values: string[]) => {
+  if (values.length === 0) return '(not found)';
+  return truncate(values.length === 1 ? values[0] : JSON.stringify(values));
+};
+
+const parseJsonBody = (body: string) => {
+  try {
+    return { ok: true, value: JSON.parse(body) as unknown };
+  } catch (error) {
+    return { ok: false, value: undefined };
+  }
+};
+
+const queryXPath = (body: string, expression: string) => {
+  if (typeof DOMParser === 'undefined' || typeof XPathResult === 'undefined') {
+    throw new Error('XPath evaluation is not available in this environment');
+  }
+  const isHtml = !body.trimStart().startsWith('<?xml');
+  const document = new DOMParser().parseFromString(body, isHtml ? 'text/html' : 'application/xml');
+  const result = document.evaluate(expression, document, null, XPathResult.ANY_TYPE, null);
+  switch (result.resultType) {
+    case XPathResult.NUMBER_TYPE: return [String(result.numberValue)];
+    case XPathResult.STRING_TYPE: return [result.stringValue];
+    case XPathResult.BOOLEAN_TYPE: return [String(result.booleanValue)];
+    default: {
+      const values: string[] = [];
+      for (let node = result.iterateNext(); node; node = result.iterateNext()) {
+        values.push(node.textContent || '');
+      }
+      return values;
+    }
+  }
+};
+
+const evaluateOne = (assertion: Assertion, subject: AssertionSubject): AssertionResult => {
+  const description = describeAssertion(assertion);
+  const result = (passed: boolean, expected: string, actual: string): AssertionResult => ({
+    assertionId: assertion.id,
+    description,
+    passed,
+    expected,
+    actual,
+  });
+
+  try {
+    switch (assertion.type) {
+      case 'status':
+        return result(parseStatusSet(assertion.expected)(subject.status), assertion.expected, String(subject.status));
+
+      case 'header': {
+        const value = subject.headers[assertion.target.trim().toLowerCase()];
+        const values = value === undefined ? [] : [value];
+        return result(compareValues(values, assertion.operator, assertion.expected), assertion.expected || assertion.operator, describeValues(values));
+      }
+
+      case 'jsonPath': {
+        const body = parseJsonBody(subject.body);
+        if (!body.ok) return result(false, assertion.expected || assertion.operator, 'Response body is not JSON');
+        const values = queryJsonPath(body.value, assertion.target).map(stringify);
+        return result(compareValues(values, assertion.operator, assertion.expected), assertion.expected || assertion.operator, describeValues(values));
+      }
+
+      case 'xPath': {
+        const values = queryXPath(subject.body, assertion.target);
+        return result(compareValues(values, assertion.operator, assertion.expected), assertion.expected || assertion.operator, describeValues(values));
+      }
+
+      case 'bodyRegex': {
+        const matched = new RegExp(assertion.expected).test(subject.body);
+        const passed = assertion.operator === 'notMatches' ? !matched : matched;
+        return result(passed, `${assertion.operator === 'notMatches' ? 'no match for' : 'match for'} /${assertion.expected}/`, matched ? 'matched' : 'no match');
+      }
+
+      case 'jsonSchema': {
+        const body = parseJsonBody(subject.body);
+        if (!body.ok) return result(false, 'JSON matching the schema', 'Response body is not JSON');
+        const errors = validateJsonSchema(body.value, JSON.parse(assertion.expected) as JsonSchema);
+        return result(errors.length === 0, 'JSON matching the schema', errors.length === 0 ? 'valid' : truncate(errors.join('; ')));
+      }
+
+      case 'responseTime': {
+        const limit = parseFloat(assertion.expected);
+        return result(subject.responseTime < limit, `< ${limit}ms`, `${subject.responseTime}ms`);
+      }
+    }
+  } catch (error) {
+    return result(false, assertion.expected || assertion.operator, `Assertion error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+// Comma separated terms from the endpoint form; every term has to appear in the body
+const evaluateExpectedResponse = (expectedResponse: string, body: string): AssertionResult => {
+  const terms = expectedResponse.split(',').map(term => term.trim()).filter(Boolean);
+  const missing = terms.filter(term => !body.includes(term));
+  return {
+    description: `Body contains ${terms.map(term => `"${term}"`).join(', ')}`,
+    passed: missing.length === 0,
+    expected: terms.join(', '),
+    actual: missing.length === 0 ? 'all present' : `missing ${missing.join(', ')}`,
+  };
+};
+
+const isValidRegex = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// First configuration mistake that would make an assertion fail on every run, if any
+export const getAssertionProblem = (assertions: Assertion[]) => {
+  for (const assertion of assertions) {
+    const label = ASSERTION_TYPE_LABELS[assertion.type];
+    const usesRegex = assertion.type === 'bodyRegex' || assertion.operator === 'matches' || assertion.operator === 'notMatches';
+    if ((assertion.type === 'header' || assertion.type === 'jsonPath' || assertion.type === 'xPath') && !assertion.target.trim()) {
+      return `${label} assertion needs a ${assertion.type === 'header' ? 'header name' : 'path expression'}`;
+    }
+    if (assertion.type === 'jsonPath' && !assertion.target.trim().startsWith('$')) {
+      return `JSONPath "${assertion.target}" must start with $`;
+    }
+    if (assertion.type === 'status' && !/^\s*\d{3}(\s*-\s*\d{3})?(\s*,\s*\d{3}(\s*-\s*\d{3})?)*\s*$/.test(assertion.expected)) {
+      return `Status assertion "${assertion.expected}" should look like 200, 201, 300-399`;
+    }
+    if (assertion.type === 'responseTime' && !(parseFloat(assertion.expected) > 0)) {
+      return 'Response time SLA needs a number of milliseconds';
+    }
+    if (assertion.type === 'jsonSchema') {
+      try {
+        JSON.parse(assertion.expected);
+      } catch (error) {
+        return 'JSON Schema assertion is not valid JSON';
+      }
+    }
+    if (usesRegex && ASSERTION_OPERATORS[assertion.type].includes(assertion.operator) && !isValidRegex(assertion.expected)) {
+      return `"${assertion.expected}" is not a valid regular expression`;
+    }
+  }
+  return null;
+};
+
+export const evaluateAssertions = (endpoint: Endpoint, subject: AssertionSubject): AssertionResult[] => {
+  const results = (endpoint.assertions || []).map(assertion => evaluateOne(assertion, subject));
+  if (endpoint.expectedResponse?.trim()) {
+    results.push(evaluateExpectedResponse(endpoint.expectedResponse, subject.body));
+  }
+  return results;
+};
+
+export const formatAssertionFailure = (result: AssertionResult) =>
+  `Assertion failed: ${result.description} (expected ${result.expected}, got ${result.actual})`;
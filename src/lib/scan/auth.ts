@@ -0,0 +1,345 @@
+// Auth profiles: credentials applied to scan requests, with tokens and login sessions cached per run
+import { AuthProfile, AuthType, Endpoint, Project } from '../models';
+import { rejectSecretReferences, SecretResolver } from '../secrets';
+import { Transport, TransportRequest } from './transport';
+import { toRequestUrl } from './url';
+import { getVariableReferences, substituteVariables } from './variables';
+
+// Endpoint.authProfileId that opts out of the project default
+export const NO_AUTH_PROFILE = 'none';
+
+export const AUTH_TYPE_LABELS: Record<AuthType, string> = {
+  basic: 'Basic',
+  bearer: 'Bearer token',
+  apiKey: 'API key',
+  cookieLogin: 'Cookie session (login request)',
+  oauth2ClientCredentials: 'OAuth2 client credentials',
+  oauth2Password: 'OAuth2 password grant',
+  hmac: 'HMAC request signing',
+};
+
+// Types whose credentials are obtained from the target and can be fetched again after a 401
+export const REFRESHABLE_AUTH_TYPES: AuthType[] = ['cookieLogin', 'oauth2ClientCredentials', 'oauth2Password'];
+
+const REQUIRED_FIELDS: Record<AuthType, (keyof AuthProfile)[]> = {
+  basic: ['username', 'password'],
+  bearer: ['token'],
+  apiKey: ['apiKeyName', 'apiKeyValue'],
+  cookieLogin: ['loginUrl'],
+  oauth2ClientCredentials: ['tokenUrl', 'clientId', 'clientSecret'],
+  oauth2Password: ['tokenUrl', 'clientId', 'username', 'password'],
+  hmac: ['hmacSecret', 'hmacHeader'],
+};
+
+const FIELD_LABELS: Partial<Record<keyof AuthProfile, string>> = {
+  username: 'a username',
+  password: 'a password',
+  token: 'a token',
+  apiKeyName: 'a key name',
+  apiKeyValue: 'a key value',
+  loginUrl: 'a login URL',
+  tokenUrl: 'a token URL',
+  clientId: 'a client ID',
+  clientSecret: 'a client secret',
+  hmacSecret: 'a signing secret',
+  hmacHeader: 'a signature header',
+};
+
+// Tokens are renewed this long before the expiry the server reported
+const EXPIRY_SKEW_MS = 30000;
+
+// Shorter cookie values are flags and preferences rather than session identifiers
+const MIN_SESSION_COOKIE_LENGTH = 8;
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// First configuration mistake in a project's auth profiles, if any
+export const getAuthProfileProblem = (profiles: AuthProfile[]) => {
+  const names = new Set<string>();
+  for (const profile of profiles) {
+    if (!profile.name.trim()) return 'Every auth profile needs a name';
+    if (names.has(profile.name.trim())) return `Auth profile "${profile.name}" is defined twice`;
+    names.add(profile.name.trim());
+    const missing = REQUIRED_FIELDS[profile.type].find(field => !String(profile[field] ?? '').trim());
+    if (missing) return `${AUTH_TYPE_LABELS[profile.type]} profile "${profile.name}" needs ${FIELD_LABELS[missing]}`;
+    if (profile.type === 'cookieLogin' && profile.loginHeaders?.trim()) {
+      try {
+        JSON.parse(profile.loginHeaders);
+      } catch (error) {
+        return `Login headers of "${profile.name}" are not valid JSON`;
+      }
+    }
+  }
+  return null;
+};
+
+// The endpoint's own profile, else the project default; undefined when the request is sent without auth
+export const resolveAuthProfile = (project: Project | null | undefined, endpoint: Endpoint) => {
+  const id = endpoint.authProfileId || project?.defaultAuthProfileId;
+  if (!id || id === NO_AUTH_PROFILE) return undefined;
+  const profile = (project?.authProfiles || []).find(candidate => candidate.id === id);
+  if (!profile) throw new AuthError('The auth profile of this endpoint no longer exists');
+  return profile;
+};
+
+export interface AppliedAuth {
+  request: TransportRequest;
+  // Credential values that must not end up in stored results
+  sensitive: string[];
+}
+
+export interface AuthSession {
+  apply: (profile: AuthProfile, request: TransportRequest) => Promise<AppliedAuth>;
+  // Forgets a cached token or login session so the next request obtains a fresh one
+  invalidate: (profile: AuthProfile) => void;
+}
+
+export interface AuthSessionOptions {
+  transport: Transport;
+  // Environment values for {{name}} references in profile fields
+  variables?: Record<string, string>;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // Fills in {{secret:name}} references in profile fields
+  resolveSecrets?: SecretResolver;
+  // Waits for the run's rate limits before token and login requests
+  throttle?: (url: string) => Promise<void>;
+}
+
+interface Credential {
+  headers: Record<string, string>;
+  query: Record<string, string>;
+  sensitive: string[];
+  expiresAt?: number;
+  refreshToken?: string;
+}
+
+interface TokenResponse {
+  access_token?: string;
+  expires_in?: number;
+  refresh_token?: string;
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const getCookiePairs = (setCookieHeader: string | undefined) =>
+  (setCookieHeader || '').split('\n')
+    .map(line => line.split(';')[0].trim())
+    .filter(pair => pair.indexOf('=') > 0);
+
+// Explicit endpoint headers win, so an endpoint can still send a deliberately broken credential; cookies are combined
+const mergeHeaders = (headers: Record<string, string>, additions: Record<string, string>) => {
+  const merged = { ...headers };
+  Object.entries(additions).forEach(([name, value]) => {
+    const existing = Object.keys(merged).find(key => key.toLowerCase() === name.toLowerCase());
+    if (!existing) {
+      merged[name] = value;
+    } else if (name.toLowerCase() === 'cookie') {
+      merged[existing] = `${merged[existing]}; ${value}`;
+    }
+  });
+  return merged;
+};
+
+const mergeQuery = (url: string, query: Record<string, string>) => {
+  if (Object.keys(query).length === 0) return url;
+  const parsed = new URL(url);
+  Object.entries(query).forEach(([name, value]) => {
+    if (!parsed.searchParams.has(name)) parsed.searchParams.set(name, value);
+  });
+  return parsed.toString();
+};
+
+// Signs `METHOD\npath?query\ntimestamp\nhex(sha256(body))`; the timestamp is sent in X-Signature-Timestamp
+const signRequest = async (profile: AuthProfile, request: TransportRequest) => {
+  const url = new URL(request.url);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const encoder = new TextEncoder();
+  const bodyHash = toHex(await crypto.subtle.digest('SHA-256', encoder.encode(request.body || '')));
+  const payload = [request.method, `${url.pathname}${url.search}`, timestamp, bodyHash].join('\n');
+  const key = await crypto.subtle.importKey(
+    'raw', encoder.encode(profile.hmacSecret), { name: 'HMAC', hash: profile.hmacAlgorithm || 'SHA-256' }, false, ['sign']);
+  const signature = toBase64(new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(payload))));
+  return {
+    [profile.hmacHeader || 'Authorization']: `HMAC ${profile.hmacKeyId ? `${profile.hmacKeyId}:` : ''}${signature}`,
+    'X-Signature-Timestamp': timestamp,
+  };
+};
+
+export const createAuthSession = ({ transport, variables = {}, timeoutMs = 10000, signal, resolveSecrets = rejectSecretReferences, throttle }: AuthSessionOptions): AuthSession => {
+  const credentials = new Map<string, Promise<Credential>>();
+
+  // Fills in environment variables and vault secrets in every text field of the profile
+  const resolveProfile = async (profile: AuthProfile) => {
+    const fields = (Object.keys(profile) as (keyof AuthProfile)[]).filter(field => typeof profile[field] === 'string');
+    const texts = fields.map(field => substituteVariables(profile[field] as string, variables));
+    const unresolved = getVariableReferences(...texts);
+    if (unresolved.length > 0) {
+      throw new AuthError(`Auth profile "${profile.name}" uses undefined variable(s): ${unresolved.map(name => `{{${name}}}`).join(', ')}`);
+    }
+    const resolved = await resolveSecrets(...texts);
+    const result = { ...profile } as Record<string, unknown>;
+    fields.forEach((field, index) => {
+      result[field] = resolved.texts[index];
+    });
+    return { profile: result as AuthProfile, secrets: resolved.values };
+  };
+
+  const requestToken = async (profile: AuthProfile, params: Record<string, string | undefined>, secrets: string[]): Promise<Credential> => {
+    const body = new URLSearchParams();
+    Object.entries(params).forEach(([name, value]) => {
+      if (value) body.set(name, value);
+    });
+    const url = toRequestUrl(profile.tokenUrl);
+    await throttle?.(url);
+    const response = await transport({
+      url,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
+      body: body.toString(),
+      timeoutMs,
+      maxRedirects: 0,
+      signal
+    });
+    if (response.status >= 400) throw new AuthError(`Token request for "${profile.name}" returned ${response.status}`);
+
+    let token: TokenResponse;
+    try {
+      token = JSON.parse(response.body);
+    } catch (error) {
+      throw new AuthError(`Token response for "${profile.name}" is not JSON`);
+    }
+    if (!token.access_token) throw new AuthError(`Token response for "${profile.name}" has no access_token`);
+    return {
+      headers: { Authorization: `Bearer ${token.access_token}` },
+      query: {},
+      sensitive: [...secrets, token.access_token, token.refresh_token].filter(Boolean),
+      expiresAt: token.expires_in ? Date.now() + token.expires_in * 1000 - EXPIRY_SKEW_MS : undefined,
+      refreshToken: token.refresh_token
+    };
+  };
+
+  const login = async (profile: AuthProfile, secrets: string[]): Promise<Credential> => {
+    let headers: Record<string, string> = {};
+    if (profile.loginHeaders?.trim()) headers = JSON.parse(profile.loginHeaders);
+    const url = toRequestUrl(profile.loginUrl);
+    await throttle?.(url);
+    const response = await transport({
+      url,
+      method: (profile.loginMethod || 'POST').toUpperCase(),
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: profile.loginBody || undefined,
+      timeoutMs,
+      // Session cookies are usually set on the redirect that follows a successful login
+      maxRedirects: 0,
+      signal
+    });
+    if (response.status >= 400) throw new AuthError(`Login request for "${profile.name}" returned ${response.status}`);
+    const pairs = getCookiePairs(response.headers['set-cookie']);
+    if (pairs.length === 0) {
+      throw new AuthError(`Login response for "${profile.name}" set no cookies (browsers hide Set-Cookie; use the local agent transport)`);
+    }
+    return {
+      headers: { Cookie: pairs.join('; ') },
+      query: {},
+      sensitive: [
+        ...secrets,
+        ...pairs.map(pair => pair.substring(pair.indexOf('=') + 1)).filter(value => value.length >= MIN_SESSION_COOKIE_LENGTH)
+      ]
+    };
+  };
+
+  const obtain = async (profile: AuthProfile, previous?: Credential): Promise<Credential> => {
+    const { profile: resolved, secrets } = await resolveProfile(profile);
+    switch (resolved.type) {
+      case 'basic': {
+        const encoded = toBase64(new TextEncoder().encode(`${resolved.username}:${resolved.password}`));
+        return { headers: { Authorization: `Basic ${encoded}` }, query: {}, sensitive: [...secrets, resolved.password, encoded] };
+      }
+      case 'bearer':
+        return { headers: { Authorization: `Bearer ${resolved.token}` }, query: {}, sensitive: [...secrets, resolved.token] };
+      case 'apiKey': {
+        const pair = { [resolved.apiKeyName]: resolved.apiKeyValue };
+        return resolved.apiKeyIn === 'query'
+          ? { headers: {}, query: pair, sensitive: [...secrets, resolved.apiKeyValue] }
+          : { headers: pair, query: {}, sensitive: [...secrets, resolved.apiKeyValue] };
+      }
+      case 'cookieLogin':
+        return login(resolved, secrets);
+      case 'oauth2ClientCredentials':
+      case 'oauth2Password': {
+        const client = { client_id: resolved.clientId, client_secret: resolved.clientSecret, scope: resolved.scope };
+        if (previous?.refreshToken) {
+          try {
+            return await requestToken(resolved, { grant_type: 'refresh_token', refresh_token: previous.refreshToken, ...client }, secrets);
+          } catch (error) {
+            if (signal?.aborted) throw error;
+            // Refresh tokens expire too; fall back to a new grant
+          }
+        }
+        return resolved.type === 'oauth2Password'
+          ? requestToken(resolved, { grant_type: 'password', username: resolved.username, password: resolved.password, ...client }, secrets)
+          : requestToken(resolved, { grant_type: 'client_credentials', ...client }, secrets);
+      }
+      case 'hmac':
+        // Signed per request in apply()
+        return { headers: {}, query: {}, sensitive: [...secrets, resolved.hmacSecret] };
+    }
+  };
+
+  const getCredential = async (profile: AuthProfile) => {
+    const cached = credentials.get(profile.id);
+    if (cached) {
+      const credential = await cached.catch(() => undefined);
+      if (credential && (!credential.expiresAt || credential.expiresAt > Date.now())) return credential;
+      // Concurrent requests share one renewal; a failed attempt is retried by the next request
+      if (credentials.get(profile.id) === cached) credentials.set(profile.id, obtain(profile, credential));
+    } else {
+      credentials.set(profile.id, obtain(profile));
+    }
+    const pending = credentials.get(profile.id)!;
+    pending.catch(() => {
+      if (credentials.get(profile.id) === pending) credentials.delete(profile.id);
+    });
+    return pending;
+  };
+
+  const apply = async (profile: AuthProfile, request: TransportRequest): Promise<AppliedAuth> => {
+    const credential = await getCredential(profile);
+    let headers = credential.headers;
+    if (profile.type === 'hmac') {
+      const { profile: resolved } = await resolveProfile(profile);
+      headers = await signRequest(resolved, request);
+    }
+    return {
+      request: {
+        ...request,
+        url: mergeQuery(request.url, credential.query),
+        headers: mergeHeaders(request.headers, headers),
+        credentialHeaders: [...(request.credentialHeaders || []), ...Object.keys(headers)]
+      },
+      sensitive: credential.sensitive
+    };
+  };
+
+  return {
+    apply,
+    invalidate: (profile) => {
+      credentials.delete(profile.id);
+    }
+  };
+};
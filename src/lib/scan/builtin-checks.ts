@@ -0,0 +1,84 @@
+// Security checks shipped with the scanner
+import type { CheckContext, SecurityCheck } from './check-registry';
+import { restrictsScripts } from './csp';
+
+const SQL_ERROR_PATTERNS = ['mysql_', 'ORA-', 'SQLException'];
+
+const isHttps = ({ request }: CheckContext) => request.url.startsWith('https:');
+
+const missingHeader = (name: string) => ({ response }: CheckContext) =>
+  response.headers[name] ? [] : [`${name} header not present`];
+
+export const BUILTIN_CHECKS: SecurityCheck[] = [
+  {
+    id: 'missing-x-content-type-options',
+    title: 'Missing X-Content-Type-Options header',
+    severity: 'low',
+    cwe: 'CWE-693',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:N/A:N',
+    remediation: 'Send "X-Content-Type-Options: nosniff" so browsers do not guess content types.',
+    evaluate: missingHeader('x-content-type-options'),
+  },
+  {
+    id: 'missing-x-frame-options',
+    title: 'Missing X-Frame-Options header',
+    severity: 'medium',
+    cwe: 'CWE-1021',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:U/C:N/I:L/A:N',
+    remediation: 'Send "X-Frame-Options: DENY" (or SAMEORIGIN), or a Content-Security-Policy frame-ancestors directive, to prevent clickjacking.',
+    evaluate: missingHeader('x-frame-options'),
+  },
+  {
+    id: 'legacy-x-xss-protection',
+    title: 'Legacy X-XSS-Protection filter enabled',
+    severity: 'low',
+    cwe: 'CWE-693',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:N/I:L/A:N',
+    remediation: 'Send "X-XSS-Protection: 0" or leave it out, and rely on a Content-Security-Policy that restricts scripts; the legacy filter can introduce vulnerabilities of its own.',
+    // A missing header is fine: browsers dropped the filter, and CSP is the control that matters
+    evaluate: ({ response }) => {
+      const value = response.headers['x-xss-protection']?.trim();
+      if (!value?.startsWith('1')) return [];
+      return [restrictsScripts(response.headers)
+        ? `X-XSS-Protection "${value}" turns on the retired filter although the Content-Security-Policy already restricts scripts`
+        : `X-XSS-Protection "${value}" turns on the retired filter, and no Content-Security-Policy restricts scripts in its place`];
+    },
+  },
+  {
+    id: 'missing-hsts',
+    title: 'Missing Strict-Transport-Security header',
+    severity: 'medium',
+    cwe: 'CWE-319',
+    owasp: 'A02:2021',
+    cvss: 'CVSS:3.1/AV:A/AC:H/PR:N/UI:N/S:U/C:H/I:L/A:N',
+    remediation: 'Send "Strict-Transport-Security: max-age=31536000; includeSubDomains" on HTTPS responses.',
+    appliesTo: isHttps,
+    evaluate: missingHeader('strict-transport-security'),
+  },
+  {
+    id: 'server-error-disclosure',
+    title: 'Server error - potential information disclosure',
+    severity: 'medium',
+    cwe: 'CWE-209',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:L/I:N/A:N',
+    remediation: 'Handle errors without exposing stack traces or internals, and return a generic error page.',
+    evaluate: ({ response }) => response.status >= 500 ? [`HTTP ${response.status}`] : [],
+  },
+  {
+    id: 'sql-error-disclosure',
+    title: 'SQL error information disclosure',
+    severity: 'high',
+    cwe: 'CWE-209',
+    owasp: 'A03:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:N/A:N',
+    remediation: 'Catch database errors server-side and never return driver messages; review the query for injection.',
+    evaluate: ({ response }) => {
+      const matched = SQL_ERROR_PATTERNS.filter(pattern => response.body.includes(pattern));
+      return matched.length > 0 ? [`Response contains ${matched.map(pattern => `"${pattern}"`).join(', ')}`] : [];
+    },
+  },
+];
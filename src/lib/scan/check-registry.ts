@@ -0,0 +1,158 @@
+// Registry of security checks: passive ones run against every response, active ones drive the fuzzer
+import { CheckOverrides, Endpoint, Finding, Severity, SeverityThreshold } from '../models';
+import { BUILTIN_CHECKS } from './builtin-checks';
+import { COOKIE_CHECKS } from './cookie-checks';
+import { CORS_CHECKS } from './cors-checks';
+import { CSP_CHECKS } from './csp-checks';
+import { INJECTION_CHECKS } from './injection-checks';
+import { SENSITIVE_DATA_CHECKS } from './sensitive-data-checks';
+import { getCvssProblem, getCvssScore } from './cvss';
+import type { Probe, ProbeFinding } from './fuzz';
+import type { TransportRequest } from './transport';
+
+export const SCAN_PROFILES_KEY = 'scanProfiles';
+
+export const SEVERITY_LABELS: Record<Severity, string> = {
+  info: 'Info',
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  critical: 'Critical',
+};
+
+// Lowest first, so a severity's index can be compared against a threshold
+export const SEVERITY_ORDER: Severity[] = ['info', 'low', 'medium', 'high', 'critical'];
+
+export const SEVERITY_THRESHOLD_LABELS: Record<SeverityThreshold, string> = {
+  info: 'Any finding',
+  low: 'Low and above',
+  medium: 'Medium and above',
+  high: 'High and above',
+  critical: 'Critical only',
+  none: 'Never',
+};
+
+export const meetsSeverityThreshold = (severity: Severity, threshold: SeverityThreshold = 'high') =>
+  threshold !== 'none' && SEVERITY_ORDER.indexOf(severity) >= SEVERITY_ORDER.indexOf(threshold);
+
+export const OWASP_TOP_10: Record<string, string> = {
+  'A01:2021': 'Broken Access Control',
+  'A02:2021': 'Cryptographic Failures',
+  'A03:2021': 'Injection',
+  'A04:2021': 'Insecure Design',
+  'A05:2021': 'Security Misconfiguration',
+  'A06:2021': 'Vulnerable and Outdated Components',
+  'A07:2021': 'Identification and Authentication Failures',
+  'A08:2021': 'Software and Data Integrity Failures',
+  'A09:2021': 'Security Logging and Monitoring Failures',
+  'A10:2021': 'Server-Side Request Forgery',
+};
+
+export interface CheckContext {
+  endpoint: Endpoint;
+  // As sent, after variables, secrets and auth were applied
+  request: { url: string; method: string; headers: Record<string, string> };
+  response: {
+    status: number;
+    // Lower-cased header names; repeated headers are joined with newlines
+    headers: Record<string, string>;
+    body: string;
+  };
+}
+
+export interface InjectionPayload {
+  value: string;
+  // Seconds a vulnerable server waits before answering, for blind injections
+  delaySeconds?: number;
+}
+
+export interface InjectionProbe {
+  payloads: InjectionPayload[];
+  // Error messages or command output that only appear when the payload reached an interpreter
+  signatures?: RegExp[];
+  // Flag payloads echoed back unencoded in an HTML response
+  reflection?: boolean;
+  // Flag a server error the baseline request didn't cause, as the payload likely broke an interpreter
+  serverErrors?: boolean;
+}
+
+export interface SecurityCheck {
+  id: string;
+  title: string;
+  severity: Severity;
+  cwe?: string;
+  owasp?: string;
+  // CVSS 3.1 vector scoring a typical occurrence
+  cvss?: string;
+  remediation: string;
+  // Checks that are noisy or expensive can be opt-in
+  defaultEnabled?: boolean;
+  // Responses the check is relevant for; all of them when omitted
+  appliesTo?: (context: CheckContext) => boolean;
+  // Passive checks: one detail per problem found in the response; empty when it is fine
+  evaluate?: (context: CheckContext) => string[];
+  // Active checks: payloads sent in each query parameter and body field by the fuzzer
+  injection?: InjectionProbe;
+  // Active checks with their own logic: send requests derived from the endpoint's request and judge the responses
+  probe?: (request: TransportRequest, send: Probe) => Promise<ProbeFinding[]>;
+}
+
+const registry = new Map<string, SecurityCheck>();
+
+export const registerCheck = (check: SecurityCheck) => {
+  if (registry.has(check.id)) throw new Error(`Security check "${check.id}" is already registered`);
+  const cvssProblem = check.cvss && getCvssProblem(check.cvss);
+  if (cvssProblem) throw new Error(`Security check "${check.id}": ${cvssProblem}`);
+  registry.set(check.id, check);
+};
+
+[...BUILTIN_CHECKS, ...CSP_CHECKS, ...COOKIE_CHECKS, ...SENSITIVE_DATA_CHECKS, ...INJECTION_CHECKS, ...CORS_CHECKS].forEach(registerCheck);
+
+export const getChecks = () => [...registry.values()];
+
+export const isActiveCheck = (check: SecurityCheck) => !!(check.injection || check.probe);
+
+export const getCheck = (id: string) => registry.get(id);
+
+// The check's default, then the project's selection, then the scan's
+export const isCheckEnabled = (check: SecurityCheck, ...overrides: (CheckOverrides | undefined)[]) =>
+  overrides.reduce<boolean>((enabled, selection) => selection?.[check.id] ?? enabled, check.defaultEnabled !== false);
+
+export const getEnabledChecks = (...overrides: (CheckOverrides | undefined)[]) =>
+  getChecks().filter(check => isCheckEnabled(check, ...overrides));
+
+export const toFinding = (check: SecurityCheck, detail?: string): Finding => ({
+  checkId: check.id,
+  title: check.title,
+  severity: check.severity,
+  detail: detail || undefined,
+  cwe: check.cwe,
+  owasp: check.owasp,
+  cvss: check.cvss,
+  cvssScore: check.cvss ? getCvssScore(check.cvss) : undefined,
+});
+
+// Runs the passive checks; a check that throws is reported on the console and skipped rather than failing the whole result
+export const runChecks = (checks: SecurityCheck[], context: CheckContext): Finding[] =>
+  checks.flatMap((check) => {
+    try {
+      if (!check.evaluate || (check.appliesTo && !check.appliesTo(context))) return [];
+      return check.evaluate(context).map(detail => toFinding(check, detail));
+    } catch (error) {
+      console.error(`Security check "${check.id}" failed:`, error);
+      return [];
+    }
+  });
+
+export const describeFinding = (finding: Finding) =>
+  finding.detail ? `${finding.title}: ${finding.detail}` : finding.title;
+
+// One line per result for exports, e.g. "[High] SQL error information disclosure: ..."
+export const summarizeFindings = (findings: Finding[] = []) =>
+  findings.map((finding) => {
+    const summary = `[${SEVERITY_LABELS[finding.severity]}] ${describeFinding(finding)}`;
+    return finding.suppression ? `${summary} (accepted by ${finding.suppression.owner}: ${finding.suppression.reason})` : summary;
+  }).join('; ');
+
+// Findings of the same check on the same endpoint are the same issue when their details match
+export const getFindingKey = (finding: Finding) => `${finding.checkId}|${finding.detail || ''}`;
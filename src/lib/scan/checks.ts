@@ -0,0 +1,78 @@
+// Evaluates a response against the endpoint's expectations and the enabled security checks
+import { AssertionResult, Endpoint, Finding, SeverityThreshold, Suppression, TestConfig, TestResultStatus } from '../models';
+import { evaluateAssertions, formatAssertionFailure } from './assertions';
+import { CheckContext, describeFinding, meetsSeverityThreshold, runChecks, SecurityCheck, SEVERITY_LABELS } from './check-registry';
+import { applySuppressions, getActiveFindings } from './suppressions';
+
+export interface ResponseSnapshot {
+  status: number;
+  // Lower-cased header names
+  headers: Record<string, string>;
+  body: string;
+  responseTime: number;
+}
+
+export interface CheckOutcome {
+  status: TestResultStatus;
+  // Reasons the expectations were not met, including unsuppressed findings at or above the severity threshold
+  vulnerabilities: string[];
+  assertions: AssertionResult[];
+  findings: Finding[];
+}
+
+// How security check output is produced and judged for a response
+export interface CheckPolicy {
+  checks: SecurityCheck[];
+  failSeverity?: SeverityThreshold;
+  suppressions?: Suppression[];
+}
+
+// Marks suppressed findings and lists the remaining ones that fail the endpoint
+export const judgeFindings = (findings: Finding[], endpoint: Endpoint, { failSeverity, suppressions }: Omit<CheckPolicy, 'checks'>) => {
+  const judged = applySuppressions(findings, endpoint, suppressions);
+  const failures = getActiveFindings(judged)
+    .filter(finding => meetsSeverityThreshold(finding.severity, failSeverity))
+    .map(finding => `${SEVERITY_LABELS[finding.severity]} finding: ${describeFinding(finding)}`);
+  return { findings: judged, failures };
+};
+
+export const evaluateResponse = (
+  endpoint: Endpoint,
+  request: CheckContext['request'],
+  response: ResponseSnapshot,
+  config: TestConfig,
+  policy: CheckPolicy
+): CheckOutcome => {
+  let status: TestResultStatus = 'pass';
+  const vulnerabilities: string[] = [];
+
+  if (endpoint.expectedStatusCode && response.status !== endpoint.expectedStatusCode) {
+    status = 'fail';
+    vulnerabilities.push(`Expected status ${endpoint.expectedStatusCode}, got ${response.status}`);
+  }
+
+  if (config.checkContent && config.expectedContent) {
+    if (!response.body.includes(config.expectedContent)) {
+      status = 'fail';
+      vulnerabilities.push(`Expected content "${config.expectedContent}" not found in response`);
+    }
+  }
+
+  const assertions = evaluateAssertions(endpoint, response);
+  assertions.filter(assertion => !assertion.passed).forEach((assertion) => {
+    status = 'fail';
+    vulnerabilities.push(formatAssertionFailure(assertion));
+  });
+
+  const { findings, failures } = judgeFindings(runChecks(policy.checks, {
+    endpoint,
+    request,
+    response: { status: response.status, headers: response.headers, body: response.body }
+  }), endpoint, policy);
+  if (failures.length > 0) {
+    status = 'fail';
+    vulnerabilities.push(...failures);
+  }
+
+  return { status, vulnerabilities, assertions, findings };
+};
@@ -0,0 +1,130 @@
+// Cookie checks: attributes of every cookie a response sets, plus the strength of session identifiers
+import type { CheckContext, SecurityCheck } from './check-registry';
+import { estimateEntropyBits, getCookieLifetime, isCookieDeletion, isSessionCookie, parseSetCookie, ParsedCookie } from './cookies';
+
+// Session cookies that outlive a working day are flagged
+const MAX_SESSION_LIFETIME_SECONDS = 24 * 60 * 60;
+
+// OWASP's minimum for session identifiers
+const MIN_SESSION_ENTROPY_BITS = 64;
+
+const isHttps = ({ request }: CheckContext) => request.url.startsWith('https:');
+
+const parseTarget = ({ request }: CheckContext) => {
+  try {
+    return new URL(request.url);
+  } catch {
+    return null;
+  }
+};
+
+// Cookies being removed are skipped; their attributes no longer matter
+const getSetCookies = ({ response }: CheckContext) =>
+  parseSetCookie(response.headers['set-cookie']).filter(cookie => !isCookieDeletion(cookie));
+
+const eachCookie = (describe: (cookie: ParsedCookie) => string | null) => (context: CheckContext) =>
+  getSetCookies(context)
+    .map(describe)
+    .filter((detail): detail is string => detail !== null);
+
+// The directory of the request path, which browsers use when Path is left out
+const getDefaultPath = (pathname: string) => pathname.substring(0, pathname.lastIndexOf('/') + 1) || '/';
+
+const formatLifetime = (seconds: number) =>
+  seconds >= 2 * 24 * 60 * 60 ? `${Math.round(seconds / (24 * 60 * 60))} days` : `${Math.round(seconds / (60 * 60))} hours`;
+
+export const COOKIE_CHECKS: SecurityCheck[] = [
+  {
+    id: 'cookie-missing-secure',
+    title: 'Cookie without Secure attribute',
+    severity: 'medium',
+    cwe: 'CWE-614',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:A/AC:H/PR:N/UI:R/S:U/C:H/I:L/A:N',
+    remediation: 'Add the Secure attribute so the cookie is never sent over plain HTTP.',
+    appliesTo: isHttps,
+    evaluate: eachCookie(cookie => cookie.secure ? null : `Cookie "${cookie.name}" has no Secure attribute`),
+  },
+  {
+    id: 'cookie-missing-httponly',
+    title: 'Session cookie without HttpOnly attribute',
+    severity: 'medium',
+    cwe: 'CWE-1004',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:H/I:N/A:N',
+    remediation: 'Add the HttpOnly attribute to session cookies so injected script cannot read them.',
+    evaluate: eachCookie(cookie => isSessionCookie(cookie.name) && !cookie.httpOnly ? `Cookie "${cookie.name}" has no HttpOnly attribute` : null),
+  },
+  {
+    id: 'cookie-missing-samesite',
+    title: 'Cookie without SameSite restriction',
+    severity: 'low',
+    cwe: 'CWE-1275',
+    owasp: 'A01:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:N/I:L/A:N',
+    remediation: 'Send "SameSite=Lax" (or Strict) so browsers do not attach the cookie to cross-site requests; only use None where cross-site use is required.',
+    evaluate: eachCookie((cookie) => {
+      if (!cookie.sameSite) return `Cookie "${cookie.name}" has no SameSite attribute`;
+      return isSessionCookie(cookie.name) && cookie.sameSite.toLowerCase() === 'none'
+        ? `Session cookie "${cookie.name}" is sent with cross-site requests (SameSite=None)`
+        : null;
+    }),
+  },
+  {
+    id: 'cookie-broad-scope',
+    title: 'Cookie scoped too broadly',
+    severity: 'low',
+    cwe: 'CWE-565',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:N/A:N',
+    remediation: 'Leave out the Domain attribute so the cookie stays on the host that set it, and limit session cookies to the path of the application.',
+    evaluate: (context) => {
+      const target = parseTarget(context);
+      if (!target) return [];
+      const host = target.hostname.toLowerCase();
+      const defaultPath = getDefaultPath(target.pathname);
+
+      return getSetCookies(context).flatMap((cookie) => [
+        ...(cookie.domain && cookie.domain !== host && host.endsWith(`.${cookie.domain}`)
+          ? [`Cookie "${cookie.name}" is sent to every host under ${cookie.domain}`]
+          : []),
+        // Only worth reporting when Path is wider than what the browser would have picked by itself
+        ...(isSessionCookie(cookie.name) && cookie.path === '/' && defaultPath !== '/'
+          ? [`Session cookie "${cookie.name}" is sent to every path on ${host}, not just ${defaultPath}`]
+          : []),
+      ]);
+    },
+  },
+  {
+    id: 'cookie-long-lived-session',
+    title: 'Long-lived session cookie',
+    severity: 'low',
+    cwe: 'CWE-613',
+    owasp: 'A07:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:L/A:N',
+    remediation: 'Let session cookies end with the browser session, or keep Max-Age short and expire the session server-side as well.',
+    evaluate: eachCookie((cookie) => {
+      const lifetime = getCookieLifetime(cookie);
+      return isSessionCookie(cookie.name) && lifetime !== undefined && lifetime > MAX_SESSION_LIFETIME_SECONDS
+        ? `Session cookie "${cookie.name}" lives for ${formatLifetime(lifetime)}`
+        : null;
+    }),
+  },
+  {
+    id: 'cookie-low-entropy-session',
+    title: 'Possibly predictable session identifier',
+    // An estimate from a single value: short but random identifiers score low too, so this is a hint to review
+    severity: 'low',
+    cwe: 'CWE-331',
+    owasp: 'A07:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:L/I:N/A:N',
+    remediation: 'Generate session identifiers with a cryptographically secure random generator, at least 128 bits long.',
+    evaluate: eachCookie((cookie) => {
+      if (!isSessionCookie(cookie.name) || !cookie.value) return null;
+      const bits = estimateEntropyBits(cookie.value);
+      return bits < MIN_SESSION_ENTROPY_BITS
+        ? `Session cookie "${cookie.name}" carries about ${Math.round(bits)} bits of entropy (${cookie.value.length} characters)`
+        : null;
+    }),
+  },
+];
@@ -0,0 +1,92 @@
+// Set-Cookie parsing for the cookie checks and the cookie inventory
+import { ObservedCookie } from '../models';
+
+export interface ParsedCookie {
+  name: string;
+  value: string;
+  domain?: string;
+  path?: string;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite?: string;
+  expires?: string;
+  maxAge?: number;
+}
+
+// Names frameworks and hand-rolled logins commonly give the cookie that identifies a session
+const SESSION_COOKIE_PATTERN = /sess|^sid$|[_.-]sid$|auth|token|jwt/i;
+
+const parseCookieLine = (line: string): ParsedCookie | null => {
+  const [pair, ...attributes] = line.split(';');
+  const separator = pair.indexOf('=');
+  if (separator <= 0) return null;
+
+  const cookie: ParsedCookie = {
+    name: pair.substring(0, separator).trim(),
+    value: pair.substring(separator + 1).trim(),
+    secure: false,
+    httpOnly: false,
+  };
+  attributes.forEach((attribute) => {
+    const [rawName, ...rest] = attribute.split('=');
+    const value = rest.join('=').trim();
+    switch (rawName.trim().toLowerCase()) {
+      case 'domain': cookie.domain = value.replace(/^\./, '').toLowerCase() || undefined; break;
+      case 'path': cookie.path = value || undefined; break;
+      case 'secure': cookie.secure = true; break;
+      case 'httponly': cookie.httpOnly = true; break;
+      case 'samesite': cookie.sameSite = value || undefined; break;
+      case 'expires': cookie.expires = value || undefined; break;
+      case 'max-age': {
+        const maxAge = Number(value);
+        if (value && Number.isFinite(maxAge)) cookie.maxAge = Math.trunc(maxAge);
+        break;
+      }
+    }
+  });
+  return cookie;
+};
+
+// Repeated Set-Cookie headers arrive joined with newlines
+export const parseSetCookie = (header: string | undefined): ParsedCookie[] =>
+  (header || '').split('\n')
+    .map(line => parseCookieLine(line.trim()))
+    .filter((cookie): cookie is ParsedCookie => cookie !== null);
+
+export const isSessionCookie = (name: string) => SESSION_COOKIE_PATTERN.test(name);
+
+// Seconds until the browser drops the cookie; undefined when it ends with the browser session. Max-Age wins over Expires
+export const getCookieLifetime = (cookie: ParsedCookie, now = Date.now()) => {
+  if (cookie.maxAge !== undefined) return cookie.maxAge;
+  const expires = cookie.expires ? Date.parse(cookie.expires) : NaN;
+  return Number.isNaN(expires) ? undefined : Math.round((expires - now) / 1000);
+};
+
+// Set-Cookie headers that remove a cookie; their attributes no longer matter
+export const isCookieDeletion = (cookie: ParsedCookie, now = Date.now()) => {
+  const lifetime = getCookieLifetime(cookie, now);
+  return lifetime !== undefined && lifetime <= 0;
+};
+
+// Shannon estimate from the character frequencies of the value; rough, but short or repetitive ids score low
+export const estimateEntropyBits = (value: string) => {
+  const counts = new Map<string, number>();
+  [...value].forEach(char => counts.set(char, (counts.get(char) || 0) + 1));
+  const length = [...value].length;
+  const bitsPerChar = [...counts.values()].reduce((bits, count) => {
+    const share = count / length;
+    return bits - share * Math.log2(share);
+  }, 0);
+  return bitsPerChar * length;
+};
+
+// What a result keeps of a cookie: its attributes, never the value
+export const toObservedCookie = (cookie: ParsedCookie, now = Date.now()): ObservedCookie => ({
+  name: cookie.name,
+  domain: cookie.domain,
+  path: cookie.path,
+  secure: cookie.secure,
+  httpOnly: cookie.httpOnly,
+  sameSite: cookie.sameSite,
+  lifetime: getCookieLifetime(cookie, now),
+});
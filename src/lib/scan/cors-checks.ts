@@ -0,0 +1,173 @@
+// CORS checks: replay the endpoint's request with crafted Origin headers and judge the Access-Control-* answers
+import type { SecurityCheck } from './check-registry';
+import type { Probe, ProbeFinding, ProbeResponse } from './fuzz';
+import type { TransportRequest } from './transport';
+
+// Reserved for documentation, so it can never belong to the scanned organisation
+const ATTACKER_HOST = 'attacker.example';
+
+// Custom header a preflight asks for; only a server that allows any header grants it
+const PROBE_HEADER = 'x-vulnscan-probe';
+
+const UNSAFE_METHODS = ['PUT', 'PATCH', 'DELETE'];
+
+interface CraftedOrigin {
+  label: string;
+  origin: string;
+}
+
+const parseTarget = (request: TransportRequest) => {
+  try {
+    return new URL(request.url);
+  } catch {
+    return null;
+  }
+};
+
+// Origins no correctly configured server trusts
+const getUntrustedOrigins = (target: URL): CraftedOrigin[] => [
+  { label: 'an attacker domain', origin: `https://${ATTACKER_HOST}` },
+  { label: 'the null origin', origin: 'null' },
+  { label: 'a domain starting with the target host', origin: `${target.protocol}//${target.hostname}.${ATTACKER_HOST}` },
+  { label: 'a domain ending with the target host', origin: `${target.protocol}//attacker${target.hostname}` },
+];
+
+// Origins that are only safe if every subdomain and the plain HTTP site are trustworthy
+const getLooseOrigins = (target: URL): CraftedOrigin[] => [
+  { label: 'an arbitrary subdomain', origin: `${target.protocol}//vulnscan-probe.${target.host}` },
+  ...(target.protocol === 'https:' ? [{ label: 'the plain HTTP site', origin: `http://${target.host}` }] : []),
+];
+
+const sendWithOrigin = (request: TransportRequest, send: Probe, origin: string) =>
+  send({ ...request, headers: { ...request.headers, Origin: origin } });
+
+// Browsers send preflights without credentials, so probes send them without the auth profile too
+export const isPreflightRequest = (request: TransportRequest) =>
+  request.method === 'OPTIONS' && Object.keys(request.headers).some(name => name.toLowerCase() === 'access-control-request-method');
+
+// What a browser sends before a non-simple cross-origin request; it never carries the body
+const sendPreflight = (request: TransportRequest, send: Probe, origin: string) =>
+  send({
+    ...request,
+    method: 'OPTIONS',
+    body: undefined,
+    headers: {
+      ...Object.fromEntries(Object.entries(request.headers).filter(([name]) => ['user-agent', 'accept'].includes(name.toLowerCase()))),
+      Origin: origin,
+      'Access-Control-Request-Method': UNSAFE_METHODS.includes(request.method) ? request.method : 'PUT',
+      'Access-Control-Request-Headers': `authorization, ${PROBE_HEADER}`,
+    },
+  });
+
+const allowsOrigin = (response: ProbeResponse, origin: string) =>
+  response.headers['access-control-allow-origin']?.trim() === origin;
+
+const allowsCredentials = (response: ProbeResponse) =>
+  response.headers['access-control-allow-credentials']?.trim().toLowerCase() === 'true';
+
+const toProbeFinding = (detail: string, response: ProbeResponse, origin: string): ProbeFinding =>
+  ({ detail, response, location: 'header', parameter: 'Origin', payload: origin });
+
+// Simple requests from each crafted origin, keeping the ones the server granted
+const findAllowedOrigins = async (request: TransportRequest, send: Probe, origins: CraftedOrigin[]) => {
+  const allowed: { crafted: CraftedOrigin; response: ProbeResponse }[] = [];
+  for (const crafted of origins) {
+    const response = await sendWithOrigin(request, send, crafted.origin);
+    if (response && allowsOrigin(response, crafted.origin)) allowed.push({ crafted, response });
+  }
+  return allowed;
+};
+
+const probeUntrustedOrigins = (withCredentials: boolean) => async (request: TransportRequest, send: Probe) => {
+  const target = parseTarget(request);
+  if (!target) return [];
+  const allowed = await findAllowedOrigins(request, send, getUntrustedOrigins(target));
+  return allowed
+    .filter(({ response }) => allowsCredentials(response) === withCredentials)
+    .map(({ crafted, response }) => toProbeFinding(`Origin from ${crafted.label} (${crafted.origin}) is allowed`, response, crafted.origin));
+};
+
+export const CORS_CHECKS: SecurityCheck[] = [
+  {
+    id: 'cors-untrusted-origin-credentials',
+    title: 'CORS allows untrusted origins with credentials',
+    severity: 'high',
+    cwe: 'CWE-942',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:U/C:H/I:L/A:N',
+    remediation: 'Compare the Origin header against an exact allow-list before echoing it, and never allow "null"; only send Access-Control-Allow-Credentials for those origins.',
+    defaultEnabled: false,
+    probe: probeUntrustedOrigins(true),
+  },
+  {
+    id: 'cors-untrusted-origin',
+    title: 'CORS allows untrusted origins',
+    severity: 'medium',
+    cwe: 'CWE-942',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:U/C:L/I:N/A:N',
+    remediation: 'Compare the Origin header against an exact allow-list instead of reflecting it or matching by prefix or suffix, and never allow "null".',
+    defaultEnabled: false,
+    probe: probeUntrustedOrigins(false),
+  },
+  {
+    id: 'cors-loose-origin',
+    title: 'CORS trusts every subdomain or plain HTTP',
+    severity: 'low',
+    cwe: 'CWE-942',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:N/A:N',
+    remediation: 'List the subdomains that need access explicitly and only allow https:// origins, so a compromised subdomain or a network attacker cannot read responses.',
+    defaultEnabled: false,
+    probe: async (request, send) => {
+      const target = parseTarget(request);
+      if (!target) return [];
+      const allowed = await findAllowedOrigins(request, send, getLooseOrigins(target));
+      return allowed.map(({ crafted, response }) =>
+        toProbeFinding(`Origin from ${crafted.label} (${crafted.origin}) is allowed${allowsCredentials(response) ? ' with credentials' : ''}`, response, crafted.origin));
+    },
+  },
+  {
+    id: 'cors-wildcard-credentials',
+    title: 'CORS wildcard origin combined with credentials',
+    severity: 'low',
+    cwe: 'CWE-942',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:N/A:N',
+    remediation: 'Browsers reject "*" together with credentials, which hints at a hand-rolled CORS layer; echo allow-listed origins instead.',
+    defaultEnabled: false,
+    probe: async (request, send) => {
+      const origin = `https://${ATTACKER_HOST}`;
+      const response = await sendWithOrigin(request, send, origin);
+      return response && response.headers['access-control-allow-origin']?.trim() === '*' && allowsCredentials(response)
+        ? [toProbeFinding('Access-Control-Allow-Origin is "*" and Access-Control-Allow-Credentials is "true"', response, origin)]
+        : [];
+    },
+  },
+  {
+    id: 'cors-permissive-preflight',
+    title: 'CORS preflight grants untrusted origins any method or header',
+    severity: 'medium',
+    cwe: 'CWE-942',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:U/C:L/I:L/A:N',
+    remediation: 'Answer preflights only for allow-listed origins, and list the methods and headers the API needs instead of "*" or echoing the request.',
+    defaultEnabled: false,
+    probe: async (request, send) => {
+      const origin = `https://${ATTACKER_HOST}`;
+      const response = await sendPreflight(request, send, origin);
+      if (!response || !allowsOrigin(response, origin)) return [];
+
+      const methods = (response.headers['access-control-allow-methods'] || '').toUpperCase().split(',').map(method => method.trim());
+      const headers = (response.headers['access-control-allow-headers'] || '').toLowerCase().split(',').map(header => header.trim());
+      const problems = [
+        ...(methods.includes('*') ? ['any method ("*")'] : []),
+        ...methods.filter(method => UNSAFE_METHODS.includes(method)),
+        ...(headers.includes('*') ? ['any header ("*")'] : headers.includes(PROBE_HEADER) ? [`the arbitrary header ${PROBE_HEADER}`] : []),
+      ];
+      return problems.length > 0
+        ? [toProbeFinding(`Preflight from ${origin} is granted ${problems.join(', ')}`, response, origin)]
+        : [];
+    },
+  },
+];
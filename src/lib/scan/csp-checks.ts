@@ -0,0 +1,78 @@
+// Content-Security-Policy checks: one per kind of weakness, each finding naming the directive at fault
+import type { CheckContext, SecurityCheck } from './check-registry';
+import { CspProblemKind, evaluateCsp } from './csp';
+
+const describeProblems = (kind: CspProblemKind) => ({ response }: CheckContext) => {
+  const evaluation = evaluateCsp(response.headers);
+  if (!evaluation) return [];
+  return evaluation.problems
+    .filter(problem => problem.kind === kind)
+    .map(problem => `${evaluation.reportOnly ? 'Report-only policy, ' : ''}${problem.directive}: ${problem.explanation}`);
+};
+
+export const CSP_CHECKS: SecurityCheck[] = [
+  {
+    id: 'csp-missing',
+    title: 'Missing Content-Security-Policy',
+    severity: 'medium',
+    cwe: 'CWE-693',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:L/A:N',
+    remediation: "Send a Content-Security-Policy header; for APIs \"default-src 'none'; frame-ancestors 'none'\" is enough, pages need script-src with nonces or hashes.",
+    evaluate: ({ response }) => {
+      const evaluation = evaluateCsp(response.headers);
+      if (!evaluation) return ['Content-Security-Policy header not present'];
+      return evaluation.reportOnly ? ['Only Content-Security-Policy-Report-Only is sent, which reports violations without blocking them'] : [];
+    },
+  },
+  {
+    id: 'csp-unsafe-inline',
+    title: "Content-Security-Policy allows 'unsafe-inline' scripts",
+    severity: 'medium',
+    cwe: 'CWE-693',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:L/A:N',
+    remediation: "Move inline scripts and event handlers into files, or mark them with nonces or hashes, and drop 'unsafe-inline' from script-src.",
+    evaluate: describeProblems('unsafe-inline'),
+  },
+  {
+    id: 'csp-unsafe-eval',
+    title: "Content-Security-Policy allows 'unsafe-eval'",
+    severity: 'low',
+    cwe: 'CWE-693',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:N/I:L/A:N',
+    remediation: "Replace eval(), new Function() and string timers with code that does not compile strings, then drop 'unsafe-eval'.",
+    evaluate: describeProblems('unsafe-eval'),
+  },
+  {
+    id: 'csp-wildcard-source',
+    title: 'Content-Security-Policy allows wildcard sources',
+    severity: 'medium',
+    cwe: 'CWE-693',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:L/A:N',
+    remediation: 'List the exact hosts each directive needs instead of "*" or a bare scheme such as https: or data:.',
+    evaluate: describeProblems('wildcard-source'),
+  },
+  {
+    id: 'csp-missing-directive',
+    title: 'Content-Security-Policy misses a key directive',
+    severity: 'low',
+    cwe: 'CWE-693',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:N/I:L/A:N',
+    remediation: "Include script-src (or default-src), object-src 'none', base-uri 'self' and frame-ancestors in every policy.",
+    evaluate: describeProblems('missing-directive'),
+  },
+  {
+    id: 'csp-jsonp-host',
+    title: 'Content-Security-Policy allow-lists JSONP-capable hosts',
+    severity: 'low',
+    cwe: 'CWE-693',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:L/A:N',
+    remediation: "Use nonces or hashes with 'strict-dynamic' instead of host allow-lists, or self-host the scripts you need from these hosts.",
+    evaluate: describeProblems('jsonp-host'),
+  },
+];
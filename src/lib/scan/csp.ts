@@ -0,0 +1,182 @@
+// Content-Security-Policy parsing and grading, shared by the CSP checks and the X-XSS-Protection check
+export interface CspPolicy {
+  reportOnly: boolean;
+  // Lower-cased directive names; a repeated directive is ignored, as browsers do
+  directives: Record<string, string[]>;
+}
+
+export type CspProblemKind = 'unsafe-inline' | 'unsafe-eval' | 'wildcard-source' | 'missing-directive' | 'jsonp-host';
+
+// What a directive protects; problems of several enforced policies are compared by kind and target
+type CspTarget = 'script' | 'object' | 'base' | 'frame';
+
+export interface CspProblem {
+  kind: CspProblemKind;
+  target: CspTarget;
+  // As written in the policy, e.g. "default-src" when it stands in for script-src
+  directive: string;
+  explanation: string;
+}
+
+export interface CspEvaluation {
+  // Only a report-only policy was sent, so nothing is actually blocked
+  reportOnly: boolean;
+  problems: CspProblem[];
+}
+
+const TARGET_NOUNS: Record<CspTarget, string> = {
+  script: 'scripts',
+  object: 'plugins',
+  base: '<base> URLs',
+  frame: 'framing',
+};
+
+// Sources that match any host, or any URL of a scheme an attacker can host content on
+const WILDCARD_SOURCES = ['*', 'http:', 'https:', 'data:', 'blob:', 'filesystem:'];
+
+// Hosts serving JSONP endpoints or arbitrary script libraries, either of which lets injected markup run script
+const JSONP_HOSTS = [
+  'www.google.com',
+  'accounts.google.com',
+  'apis.google.com',
+  'ajax.googleapis.com',
+  'www.googleapis.com',
+  'maps.googleapis.com',
+  'cdnjs.cloudflare.com',
+  'cdn.jsdelivr.net',
+  'unpkg.com',
+  'www.youtube.com',
+  'graph.facebook.com',
+  'api.twitter.com',
+  'www.bing.com',
+  'api.flickr.com',
+];
+
+const isNonceOrHash = (source: string) => /^'(nonce|sha256|sha384|sha512)-/i.test(source);
+
+// The host of a source expression such as "https://cdn.example.com/js/" or "*.example.com"
+const getSourceHost = (source: string) => {
+  if (source.startsWith("'") || WILDCARD_SOURCES.includes(source.toLowerCase())) return null;
+  return source.toLowerCase().replace(/^[a-z][a-z0-9+.-]*:\/\//, '').split(/[/:]/)[0] || null;
+};
+
+const matchesHost = (sourceHost: string, host: string) =>
+  sourceHost.startsWith('*.') ? host.endsWith(sourceHost.substring(1)) : sourceHost === host;
+
+const parsePolicy = (text: string, reportOnly: boolean): CspPolicy | null => {
+  const directives: Record<string, string[]> = {};
+  text.split(';').forEach((directive) => {
+    const [name, ...sources] = directive.trim().split(/\s+/);
+    if (name && !(name.toLowerCase() in directives)) directives[name.toLowerCase()] = sources;
+  });
+  return Object.keys(directives).length > 0 ? { reportOnly, directives } : null;
+};
+
+// Repeated headers arrive joined with newlines, and one header can carry several comma-separated policies
+export const parseCsp = (header: string | undefined, reportOnly = false): CspPolicy[] =>
+  (header || '').split(/[\n,]/)
+    .map(text => parsePolicy(text, reportOnly))
+    .filter((policy): policy is CspPolicy => policy !== null);
+
+// Fetch directives fall back to default-src; base-uri and frame-ancestors do not
+const getDirective = (policy: CspPolicy, name: string, fallback = true) => {
+  if (policy.directives[name]) return { directive: name, sources: policy.directives[name] };
+  if (fallback && policy.directives['default-src']) return { directive: 'default-src', sources: policy.directives['default-src'] };
+  return null;
+};
+
+const findWildcards = (target: CspTarget, found: { directive: string; sources: string[] } | null): CspProblem[] =>
+  (found?.sources || [])
+    .filter(source => WILDCARD_SOURCES.includes(source.toLowerCase()))
+    .map(source => ({
+      kind: 'wildcard-source',
+      target,
+      directive: found.directive,
+      explanation: `"${source}" allows ${TARGET_NOUNS[target]} from ${source === '*' ? 'any host' : `any ${source} URL`}`,
+    }));
+
+const evaluateScripts = (policy: CspPolicy): CspProblem[] => {
+  const found = getDirective(policy, 'script-src');
+  if (!found) {
+    return [{ kind: 'missing-directive', target: 'script', directive: 'script-src', explanation: 'missing, and no default-src to fall back on, so scripts load from anywhere' }];
+  }
+
+  const sources = found.sources.map(source => source.toLowerCase());
+  const hasNonceOrHash = found.sources.some(isNonceOrHash);
+  // With 'strict-dynamic', browsers trust only nonced or hashed scripts and ignore allow-listed hosts
+  const strictDynamic = hasNonceOrHash && sources.includes("'strict-dynamic'");
+  const problems: CspProblem[] = [];
+
+  if (sources.includes("'unsafe-inline'") && !hasNonceOrHash) {
+    problems.push({ kind: 'unsafe-inline', target: 'script', directive: found.directive, explanation: "'unsafe-inline' lets injected inline scripts and event handlers run; use nonces or hashes instead" });
+  }
+  if (sources.includes("'unsafe-eval'")) {
+    problems.push({ kind: 'unsafe-eval', target: 'script', directive: found.directive, explanation: "'unsafe-eval' lets strings become code through eval(), new Function() and string timers" });
+  }
+  if (!strictDynamic) {
+    problems.push(...findWildcards('script', found));
+    found.sources
+      .filter((source) => {
+        const host = getSourceHost(source);
+        return host && JSONP_HOSTS.some(jsonpHost => matchesHost(host, jsonpHost));
+      })
+      .forEach(source => problems.push({
+        kind: 'jsonp-host',
+        target: 'script',
+        directive: found.directive,
+        explanation: `${source} serves JSONP endpoints or script libraries that can be loaded to run arbitrary script`,
+      }));
+  }
+  return problems;
+};
+
+const evaluateObjects = (policy: CspPolicy): CspProblem[] => {
+  const found = getDirective(policy, 'object-src');
+  return found
+    ? findWildcards('object', found)
+    : [{ kind: 'missing-directive', target: 'object', directive: 'object-src', explanation: "missing, so plugins load from anywhere the other directives allow; set object-src 'none'" }];
+};
+
+const evaluateBase = (policy: CspPolicy): CspProblem[] => {
+  const found = getDirective(policy, 'base-uri', false);
+  return found
+    ? findWildcards('base', found)
+    : [{ kind: 'missing-directive', target: 'base', directive: 'base-uri', explanation: "missing, so an injected <base> tag can redirect relative script URLs; set base-uri 'self' or 'none'" }];
+};
+
+const evaluateFraming = (policy: CspPolicy): CspProblem[] => {
+  const found = getDirective(policy, 'frame-ancestors', false);
+  return found
+    ? findWildcards('frame', found)
+    : [{ kind: 'missing-directive', target: 'frame', directive: 'frame-ancestors', explanation: "missing, so any site can frame the page unless X-Frame-Options forbids it; set frame-ancestors 'none' or 'self'" }];
+};
+
+export const evaluateCspPolicy = (policy: CspPolicy): CspProblem[] => [
+  ...evaluateScripts(policy),
+  ...evaluateObjects(policy),
+  ...evaluateBase(policy),
+  ...evaluateFraming(policy),
+];
+
+// Browsers enforce every policy they receive, so a problem only counts when all of them have it
+const intersectProblems = (policies: CspPolicy[]) => {
+  const [first, ...rest] = policies.map(evaluateCspPolicy);
+  return first.filter(problem =>
+    rest.every(problems => problems.some(other => other.kind === problem.kind && other.target === problem.target)));
+};
+
+// Grades the enforced policies, or the report-only ones when nothing is enforced; null without any policy
+export const evaluateCsp = (headers: Record<string, string>): CspEvaluation | null => {
+  const enforced = parseCsp(headers['content-security-policy']);
+  if (enforced.length > 0) return { reportOnly: false, problems: intersectProblems(enforced) };
+  const reportOnly = parseCsp(headers['content-security-policy-report-only'], true);
+  if (reportOnly.length > 0) return { reportOnly: true, problems: intersectProblems(reportOnly) };
+  return null;
+};
+
+// Whether an enforced policy keeps injected markup from running script
+export const restrictsScripts = (headers: Record<string, string>) => {
+  const evaluation = evaluateCsp(headers);
+  return !!evaluation && !evaluation.reportOnly && !evaluation.problems.some(problem =>
+    problem.target === 'script' && problem.kind !== 'unsafe-eval');
+};
@@ -0,0 +1,73 @@
+// CVSS 3.1 base scores, following the equations in the FIRST specification
+import { Severity } from '../models';
+
+const VECTOR_PREFIX = 'CVSS:3.1/';
+
+const WEIGHTS: Record<string, Record<string, number>> = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+  AC: { L: 0.77, H: 0.44 },
+  PR: { N: 0.85, L: 0.62, H: 0.27 },
+  UI: { N: 0.85, R: 0.62 },
+  S: { U: 0, C: 0 },
+  C: { H: 0.56, L: 0.22, N: 0 },
+  I: { H: 0.56, L: 0.22, N: 0 },
+  A: { H: 0.56, L: 0.22, N: 0 },
+};
+
+// Privileges weigh more when the vulnerable component can affect others
+const CHANGED_SCOPE_PR: Record<string, number> = { N: 0.85, L: 0.68, H: 0.5 };
+
+const BASE_METRICS = Object.keys(WEIGHTS);
+
+// Smallest number with one decimal that is >= value, avoiding floating point artefacts
+const roundUp = (value: number) => {
+  const scaled = Math.round(value * 100000);
+  return scaled % 10000 === 0 ? scaled / 100000 : (Math.floor(scaled / 10000) + 1) / 10;
+};
+
+// Temporal and environmental metrics are accepted but do not change the base score
+const parseVector = (vector: string) => {
+  if (!vector.startsWith(VECTOR_PREFIX)) return { problem: `CVSS vector must start with "${VECTOR_PREFIX}"` };
+
+  const metrics: Record<string, string> = {};
+  for (const part of vector.slice(VECTOR_PREFIX.length).split('/')) {
+    const [name, value, ...rest] = part.split(':');
+    if (!name || !value || rest.length > 0) return { problem: `"${part}" is not a metric:value pair` };
+    if (name in metrics) return { problem: `Metric ${name} is given more than once` };
+    if (WEIGHTS[name] && !(value in WEIGHTS[name])) return { problem: `"${value}" is not a valid value for ${name}` };
+    metrics[name] = value;
+  }
+
+  const missing = BASE_METRICS.filter(name => !metrics[name]);
+  if (missing.length > 0) return { problem: `CVSS vector is missing ${missing.join(', ')}` };
+  return { metrics };
+};
+
+export const getCvssProblem = (vector: string): string | null => parseVector(vector.trim()).problem || null;
+
+// Undefined when the vector is not valid
+export const getCvssScore = (vector: string): number | undefined => {
+  const { metrics } = parseVector(vector.trim());
+  if (!metrics) return undefined;
+
+  const changed = metrics.S === 'C';
+  const weight = (name: string) => WEIGHTS[name][metrics[name]];
+  const impactSubScore = 1 - (1 - weight('C')) * (1 - weight('I')) * (1 - weight('A'));
+  const impact = changed
+    ? 7.52 * (impactSubScore - 0.029) - 3.25 * Math.pow(impactSubScore - 0.02, 15)
+    : 6.42 * impactSubScore;
+  const privileges = changed ? CHANGED_SCOPE_PR[metrics.PR] : weight('PR');
+  const exploitability = 8.22 * weight('AV') * weight('AC') * privileges * weight('UI');
+
+  if (impact <= 0) return 0;
+  return roundUp(Math.min((changed ? 1.08 : 1) * (impact + exploitability), 10));
+};
+
+// Qualitative rating of the specification; a score of 0.0 ("None") maps to info
+export const getCvssSeverity = (score: number): Severity => {
+  if (score >= 9) return 'critical';
+  if (score >= 7) return 'high';
+  if (score >= 4) return 'medium';
+  if (score > 0) return 'low';
+  return 'info';
+};
@@ -0,0 +1,273 @@
+// Framework-independent scan engine: runs endpoints and reports progress as typed events
+import { Endpoint, Project, TestConfig, TestResult } from '../models';
+import type { SecretResolver } from '../secrets';
+import { createAuthSession } from './auth';
+import { createRateLimiter } from './rate-limit';
+import { executeEndpoint, RequestContext, ScanAbortedError } from './request';
+import { directTransport, Transport } from './transport';
+import { getEndpointHost } from './url';
+import { getEndpointDependencies, substituteVariables } from './variables';
+
+export type ScanState = 'idle' | 'running' | 'paused' | 'stopping' | 'completed' | 'stopped';
+
+export type ScanOutcomeStatus = 'completed' | 'stopped';
+
+export type ScanEvent =
+  | { type: 'runStarted'; runId?: string; total: number }
+  | { type: 'endpointStarted'; endpoint: Endpoint; index: number; total: number }
+  // Emitted as soon as a request settles, possibly out of endpoint order
+  | { type: 'endpointFinished'; endpoint: Endpoint; index: number }
+  // Emitted in endpoint order, once every earlier endpoint has been reported
+  | { type: 'result'; result: TestResult; index: number; completed: number; total: number }
+  // Requests already in flight still finish and are reported
+  | { type: 'paused'; inFlight: number }
+  | { type: 'resumed' }
+  | { type: 'finished'; status: ScanOutcomeStatus; results: TestResult[] };
+
+export type ScanListener = (event: ScanEvent) => void;
+
+// Replaceable so tests, workers and the CLI can supply their own transport
+export type EndpointExecutor = (endpoint: Endpoint, context: RequestContext) => Promise<TestResult>;
+
+export interface ScanOptions {
+  runId?: string;
+  project?: Project | null;
+  config: TestConfig;
+  endpoints: Endpoint[];
+  execute?: EndpointExecutor;
+  // Overrides `config.concurrency`
+  concurrency?: number;
+  transport?: Transport;
+  // Environment values for {{name}} references; extractors add to them as the run progresses
+  variables?: Record<string, string>;
+  // Aborting this signal stops the scan like `stop()`
+  signal?: AbortSignal;
+  // Fills in {{secret:name}} references; the app passes the vault's resolver
+  resolveSecrets?: SecretResolver;
+}
+
+export interface ScanOutcome {
+  status: ScanOutcomeStatus;
+  results: TestResult[];
+}
+
+export interface ScanController {
+  readonly state: ScanState;
+  subscribe: (listener: ScanListener) => () => void;
+  start: () => Promise<ScanOutcome>;
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+}
+
+export const createScan = (options: ScanOptions): ScanController => {
+  const execute = options.execute || executeEndpoint;
+  const listeners = new Set<ScanListener>();
+  const abortController = new AbortController();
+  let state: ScanState = 'idle';
+  let inFlight = 0;
+  // Pending while paused; workers await it before starting their next endpoint
+  let resumeGate: { promise: Promise<void>; release: () => void } | null = null;
+
+  const emit = (event: ScanEvent) => {
+    listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Scan listener failed:', error);
+      }
+    });
+  };
+
+  const openGate = () => {
+    resumeGate?.release();
+    resumeGate = null;
+  };
+
+  const pause = () => {
+    if (state !== 'running') return;
+    state = 'paused';
+    let release = () => {};
+    const promise = new Promise<void>(resolve => { release = resolve; });
+    resumeGate = { promise, release };
+    emit({ type: 'paused', inFlight });
+  };
+
+  const resume = () => {
+    if (state !== 'paused') return;
+    state = 'running';
+    openGate();
+    emit({ type: 'resumed' });
+  };
+
+  // In-flight requests are aborted and not recorded; results that already settled are still reported
+  const stop = () => {
+    if (state === 'idle') state = 'stopped';
+    if (state !== 'running' && state !== 'paused') return;
+    state = 'stopping';
+    abortController.abort();
+    openGate();
+  };
+
+  if (options.signal?.aborted) {
+    stop();
+  } else {
+    options.signal?.addEventListener('abort', stop, { once: true });
+  }
+
+  const start = async (): Promise<ScanOutcome> => {
+    if (state === 'stopped') {
+      emit({ type: 'finished', status: 'stopped', results: [] });
+      return { status: 'stopped', results: [] };
+    }
+    if (state !== 'idle') throw new Error('Scan has already been started');
+
+    state = 'running';
+    const { endpoints, runId, config } = options;
+    const { signal } = abortController;
+    const total = endpoints.length;
+    const concurrency = Math.max(1, Math.min(options.concurrency || config.concurrency || 1, total));
+    const limiter = createRateLimiter(config);
+    const throttle = (url: string) => limiter.acquire(getEndpointHost(url), signal);
+    // Tokens and login sessions are obtained once and shared by every endpoint of the run
+    const auth = createAuthSession({ transport: options.transport || directTransport, variables: options.variables, signal, resolveSecrets: options.resolveSecrets, throttle });
+    // Settled requests by endpoint index: a result, null when aborted, undefined while pending
+    const settled: (TestResult | null | undefined)[] = new Array(total);
+    const results: TestResult[] = [];
+    // Endpoints referencing a variable wait for the closest earlier endpoint that extracts it
+    const dependencies = getEndpointDependencies(endpoints);
+    const extracted: Record<string, string>[] = new Array(total);
+    const releases: (() => void)[] = new Array(total);
+    const done = endpoints.map((_, index) => new Promise<void>(resolve => { releases[index] = resolve; }));
+    let nextIndex = 0;
+    let nextToReport = 0;
+    emit({ type: 'runStarted', runId, total });
+
+    const flush = () => {
+      while (nextToReport < total && settled[nextToReport] !== undefined) {
+        const result = settled[nextToReport];
+        if (result) {
+          results.push(result);
+          emit({ type: 'result', result, index: nextToReport, completed: results.length, total });
+        }
+        nextToReport++;
+      }
+    };
+
+    // Lets requests an endpoint sends after its first, such as probes and retries, wait out a pause too
+    const waitForResume = async () => {
+      while (resumeGate) await resumeGate.promise;
+    };
+
+    // Waits out a pause and the rate limits; a pause during the rate wait waits again afterwards
+    const waitForTurn = async (host: string) => {
+      try {
+        do {
+          if (resumeGate) await resumeGate.promise;
+          if (signal.aborted) return false;
+          await limiter.acquire(host, signal);
+        } while (resumeGate);
+      } catch (error) {
+        if (signal.aborted) return false;
+        throw error;
+      }
+      return !signal.aborted;
+    };
+
+    // Values extracted by earlier endpoints, later ones overriding, as a sequential run would see them
+    const getExtracted = (index: number) => {
+      const values: Record<string, string> = {};
+      for (let earlier = 0; earlier < index; earlier++) Object.assign(values, extracted[earlier]);
+      return values;
+    };
+
+    const runEndpoint = async (endpoint: Endpoint, index: number) => {
+      await Promise.all(dependencies[index].map(dependency => done[dependency]));
+      const extractedValues = getExtracted(index);
+      const variables = { ...options.variables, ...extractedValues };
+      if (!(await waitForTurn(getEndpointHost(substituteVariables(endpoint.url, variables))))) return false;
+
+      emit({ type: 'endpointStarted', endpoint, index, total });
+      inFlight++;
+      try {
+        settled[index] = await execute(endpoint, {
+          project: options.project,
+          config,
+          runId,
+          signal,
+          transport: options.transport,
+          variables,
+          extractedNames: Object.keys(extractedValues),
+          auth,
+          onExtract: (values) => {
+            extracted[index] = values;
+          },
+          throttle,
+          waitForResume,
+          resolveSecrets: options.resolveSecrets
+        });
+      } catch (error) {
+        if (!(error instanceof ScanAbortedError)) {
+          abortController.abort();
+          throw error;
+        }
+        settled[index] = null;
+      } finally {
+        inFlight--;
+      }
+      emit({ type: 'endpointFinished', endpoint, index });
+      flush();
+      return true;
+    };
+
+    const worker = async () => {
+      while (nextIndex < total && !signal.aborted) {
+        if (resumeGate) {
+          await resumeGate.promise;
+          continue;
+        }
+
+        const index = nextIndex++;
+        try {
+          if (!(await runEndpoint(endpoints[index], index))) return;
+        } finally {
+          releases[index]();
+        }
+      }
+    };
+
+    // Every worker winds down before the run ends, even when one of them failed
+    const failure = (await Promise.allSettled(Array.from({ length: concurrency }, worker)))
+      .find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+
+    // Endpoints never started after a stop are skipped so later completed results still get reported
+    for (let index = nextToReport; index < total; index++) {
+      if (settled[index] === undefined) settled[index] = null;
+    }
+    flush();
+
+    // A failed run ends as stopped, so subscribers are not left waiting, and then rethrows
+    const status: ScanOutcomeStatus = abortController.signal.aborted ? 'stopped' : 'completed';
+    state = status;
+    options.signal?.removeEventListener('abort', stop);
+    emit({ type: 'finished', status, results });
+    if (failure) throw failure.reason;
+    return { status, results };
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    start,
+    pause,
+    resume,
+    stop
+  };
+};
@@ -0,0 +1,50 @@
+// Project environments: named sets of variables that endpoint URLs, headers and bodies reference as {{name}}
+import { Environment, Project } from '../models';
+import { VARIABLE_NAME_PATTERN } from './variables';
+
+// The requested environment, else the project's default, else its first one
+export const getProjectEnvironment = (project: Project | null | undefined, environmentId?: string | null): Environment | undefined => {
+  const environments = project?.environments || [];
+  return environments.find(environment => environment.id === environmentId)
+    || environments.find(environment => environment.id === project?.defaultEnvironmentId)
+    || environments[0];
+};
+
+export const getEnvironmentVariables = (environment: Environment | undefined) => {
+  const variables: Record<string, string> = {};
+  (environment?.variables || []).forEach(({ name, value }) => {
+    variables[name] = value;
+  });
+  return variables;
+};
+
+// Host name an environment points at: its `host` variable, else the host of its `baseUrl`
+export const getEnvironmentHost = (environment: Environment | undefined) => {
+  const variables = getEnvironmentVariables(environment);
+  if (variables.host) return variables.host.split(':')[0];
+  if (!variables.baseUrl) return undefined;
+  try {
+    return new URL(variables.baseUrl).hostname;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+// First configuration mistake in a project's environments, if any
+export const getEnvironmentProblem = (environments: Environment[]) => {
+  const names = new Set<string>();
+  for (const environment of environments) {
+    if (!environment.name.trim()) return 'Every environment needs a name';
+    if (names.has(environment.name.trim())) return `Environment "${environment.name}" is defined twice`;
+    names.add(environment.name.trim());
+    const variableNames = new Set<string>();
+    for (const variable of environment.variables) {
+      if (!VARIABLE_NAME_PATTERN.test(variable.name)) {
+        return `"${variable.name}" in ${environment.name} is not a valid variable name`;
+      }
+      if (variableNames.has(variable.name)) return `Variable "${variable.name}" is defined twice in ${environment.name}`;
+      variableNames.add(variable.name);
+    }
+  }
+  return null;
+};
@@ -0,0 +1,193 @@
+// Active checks: injection payloads in every query parameter and body field, plus checks that probe on their own
+import { Finding, FindingEvidence } from '../models';
+import { maskCredentialHeaders, maskSecrets } from '../secrets';
+import { InjectionPayload, isActiveCheck, SecurityCheck, toFinding } from './check-registry';
+import { TransportRequest } from './transport';
+
+export interface ProbeResponse {
+  // As sent, after auth was applied
+  request: TransportRequest;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+  responseTime: number;
+}
+
+// Null when no response came back, e.g. the request timed out
+export type Probe = (request: TransportRequest) => Promise<ProbeResponse | null>;
+
+// Reported by a check's own probe, with the response whose request becomes the evidence
+export interface ProbeFinding {
+  detail: string;
+  response: ProbeResponse;
+  location: FindingEvidence['location'];
+  parameter: string;
+  payload: string;
+}
+
+export interface InjectionPoint {
+  location: FindingEvidence['location'];
+  name: string;
+  inject: (payload: string) => TransportRequest;
+}
+
+// A delayed response counts when it took at least this share of the requested delay longer than the baseline
+const DELAY_TOLERANCE = 0.9;
+
+// Longer signature matches are cut in the finding detail
+const MAX_SIGNATURE_LENGTH = 80;
+
+const getContentType = (headers: Record<string, string>) =>
+  Object.entries(headers).find(([name]) => name.toLowerCase() === 'content-type')?.[1] || '';
+
+const getQueryPoints = (request: TransportRequest): InjectionPoint[] => {
+  let url: URL;
+  try {
+    url = new URL(request.url);
+  } catch {
+    return [];
+  }
+  return [...new Set(url.searchParams.keys())].map(name => ({
+    location: 'query',
+    name,
+    inject: (payload) => {
+      const mutated = new URL(url);
+      mutated.searchParams.set(name, payload);
+      return { ...request, url: mutated.toString() };
+    },
+  }));
+};
+
+// Top-level fields of a JSON object or a form-encoded body; other bodies are left alone
+const getBodyPoints = (request: TransportRequest): InjectionPoint[] => {
+  if (!request.body) return [];
+
+  if (getContentType(request.headers).includes('application/x-www-form-urlencoded')) {
+    const form = new URLSearchParams(request.body);
+    return [...new Set(form.keys())].map(name => ({
+      location: 'body',
+      name,
+      inject: (payload) => {
+        const mutated = new URLSearchParams(form);
+        mutated.set(name, payload);
+        return { ...request, body: mutated.toString() };
+      },
+    }));
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(request.body);
+  } catch {
+    return [];
+  }
+  if (!json || typeof json !== 'object' || Array.isArray(json)) return [];
+  const fields = json as Record<string, unknown>;
+  return Object.keys(fields)
+    .filter(name => ['string', 'number', 'boolean'].includes(typeof fields[name]))
+    .map(name => ({
+      location: 'body',
+      name,
+      inject: (payload) => ({ ...request, body: JSON.stringify({ ...fields, [name]: payload }) }),
+    }));
+};
+
+export const getInjectionPoints = (request: TransportRequest): InjectionPoint[] =>
+  [...getQueryPoints(request), ...getBodyPoints(request)];
+
+const isSlow = (response: ProbeResponse, baseline: ProbeResponse, delaySeconds: number) =>
+  response.responseTime - baseline.responseTime >= delaySeconds * 1000 * DELAY_TOLERANCE;
+
+// Browsers only execute reflected markup in HTML; a JSON API echoing input is not exploitable by itself
+const isHtml = (response: ProbeResponse) => {
+  const contentType = getContentType(response.headers);
+  return !contentType || contentType.includes('html');
+};
+
+// Why the response shows the payload had an effect, or null when it looks like the baseline
+const detect = async (check: SecurityCheck, payload: InjectionPayload, response: ProbeResponse, baseline: ProbeResponse, resend: () => Promise<ProbeResponse | null>) => {
+  const signature = check.injection?.signatures?.find(pattern => pattern.test(response.body) && !pattern.test(baseline.body));
+  if (signature) return `response contains "${response.body.match(signature)?.[0].slice(0, MAX_SIGNATURE_LENGTH)}"`;
+
+  if (check.injection?.reflection && response.body.includes(payload.value) && !baseline.body.includes(payload.value) && isHtml(response)) {
+    return 'payload reflected unencoded in an HTML response';
+  }
+
+  if (check.injection?.serverErrors && response.status >= 500 && baseline.status < 500) {
+    return `HTTP ${response.status} where the baseline returned ${baseline.status}`;
+  }
+
+  // Confirmed by a second request so a single slow response doesn't count
+  if (payload.delaySeconds && isSlow(response, baseline, payload.delaySeconds)) {
+    const confirmation = await resend();
+    if (confirmation && isSlow(confirmation, baseline, payload.delaySeconds)) {
+      return `response delayed by about ${payload.delaySeconds} s, twice`;
+    }
+  }
+
+  return null;
+};
+
+const toEvidence = ({ request }: ProbeResponse, location: FindingEvidence['location'], parameter: string, payload: string): FindingEvidence => ({
+  method: request.method,
+  url: request.url,
+  headers: maskCredentialHeaders(request.headers),
+  // Login and JSON payloads carry the resolved credentials
+  body: request.body && maskSecrets(request.body),
+  location,
+  parameter,
+  payload,
+});
+
+// At most one finding per check and injection point, carrying the first request that triggered it.
+// `resend` confirms delayed responses, so it must actually send again rather than reuse a memoized response
+export const fuzzRequest = async (request: TransportRequest, baseline: ProbeResponse, checks: SecurityCheck[], probe: Probe, resend: Probe = probe): Promise<Finding[]> => {
+  const findings: Finding[] = [];
+
+  for (const point of getInjectionPoints(request)) {
+    for (const check of checks.filter(candidate => candidate.injection)) {
+      for (const payload of check.injection.payloads) {
+        const mutated = point.inject(payload.value);
+        const response = await probe(mutated);
+        if (!response) continue;
+
+        const reason = await detect(check, payload, response, baseline, () => resend(mutated));
+        if (!reason) continue;
+
+        findings.push({
+          ...toFinding(check, `${point.location === 'query' ? 'Query parameter' : 'Body field'} "${point.name}": ${reason}`),
+          evidence: toEvidence(response, point.location, point.name, payload.value),
+        });
+        break;
+      }
+    }
+  }
+
+  return findings;
+};
+
+// Identical requests from different checks, such as shared payloads and the CORS probes, are sent once
+const memoize = (probe: Probe): Probe => {
+  const sent = new Map<string, Promise<ProbeResponse | null>>();
+  return (request) => {
+    const key = JSON.stringify([request.method, request.url, request.headers, request.body]);
+    if (!sent.has(key)) sent.set(key, probe(request));
+    return sent.get(key);
+  };
+};
+
+export const runActiveChecks = async (request: TransportRequest, baseline: ProbeResponse, checks: SecurityCheck[], probe: Probe): Promise<Finding[]> => {
+  const active = checks.filter(isActiveCheck);
+  const send = memoize(probe);
+  const findings = await fuzzRequest(request, baseline, active, send, probe);
+
+  for (const check of active.filter(candidate => candidate.probe)) {
+    const probed = await check.probe(request, send);
+    findings.push(...probed.map(({ detail, response, location, parameter, payload }) => ({
+      ...toFinding(check, detail),
+      evidence: toEvidence(response, location, parameter, payload),
+    })));
+  }
+
+  return findings;
+};
@@ -0,0 +1,27 @@
+// Public surface of the scan engine
+export * from './engine';
+export * from './request';
+export * from './checks';
+export * from './url';
+export * from './rate-limit';
+export * from './policy';
+export * from './transport';
+export * from './assertions';
+export * from './json-path';
+export * from './json-schema';
+export * from './variables';
+export * from './environments';
+export * from './auth';
+export * from './check-registry';
+export * from './builtin-checks';
+export * from './csp';
+export * from './csp-checks';
+export * from './cookies';
+export * from './cookie-checks';
+export * from './sensitive-data';
+export * from './sensitive-data-checks';
+export * from './injection-checks';
+export * from './cors-checks';
+export * from './fuzz';
+export * from './cvss';
+export * from './suppressions';
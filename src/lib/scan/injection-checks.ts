@@ -0,0 +1,106 @@
+// Active checks: attack payloads the fuzzer sends in query parameters and body fields
+import type { InjectionPayload, SecurityCheck } from './check-registry';
+
+// Blind payloads ask a vulnerable server to wait this long
+const DELAY_SECONDS = 5;
+
+const payloads = (...values: string[]): InjectionPayload[] => values.map(value => ({ value }));
+
+const delayed = (...values: string[]): InjectionPayload[] => values.map(value => ({ value, delaySeconds: DELAY_SECONDS }));
+
+// Product of 1337 * 7331, which only shows up when a template engine evaluated the expression
+const TEMPLATE_PROOF = '9801547';
+
+export const INJECTION_CHECKS: SecurityCheck[] = [
+  {
+    id: 'active-sql-injection',
+    title: 'SQL injection',
+    severity: 'critical',
+    cwe: 'CWE-89',
+    owasp: 'A03:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H',
+    remediation: 'Use parameterized queries or prepared statements for every value that reaches the database; never build SQL by string concatenation.',
+    defaultEnabled: false,
+    injection: {
+      payloads: [
+        ...payloads(`'`, `"`, `' OR '1'='1`),
+        ...delayed(`1' AND SLEEP(${DELAY_SECONDS})-- -`, `1'; WAITFOR DELAY '0:0:${DELAY_SECONDS}'--`, `1' || pg_sleep(${DELAY_SECONDS})--`),
+      ],
+      signatures: [
+        /SQL syntax.*MySQL|mysqli?_\w+\(/i,
+        /ORA-\d{5}/,
+        /SQLException|SQLSTATE\[/,
+        /PG::SyntaxError|unterminated quoted string|syntax error at or near/i,
+        /SQLITE_ERROR|sqlite3\.OperationalError/i,
+        /Unclosed quotation mark after the character string|Microsoft OLE DB Provider for SQL Server/i,
+      ],
+      serverErrors: true,
+    },
+  },
+  {
+    id: 'active-xss',
+    title: 'Reflected cross-site scripting',
+    severity: 'medium',
+    cwe: 'CWE-79',
+    owasp: 'A03:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N',
+    remediation: 'Encode untrusted values for the HTML context they are written into, and add a Content-Security-Policy that blocks inline script.',
+    defaultEnabled: false,
+    injection: {
+      payloads: payloads(`"><svg/onload=alert(31337)>`, `<script>alert(31337)</script>`, `'"><img src=x onerror=alert(31337)>`),
+      reflection: true,
+    },
+  },
+  {
+    id: 'active-path-traversal',
+    title: 'Path traversal',
+    severity: 'high',
+    cwe: 'CWE-22',
+    owasp: 'A01:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:N/A:N',
+    remediation: 'Resolve requested paths against an allow-list or a fixed base directory and reject anything that escapes it.',
+    defaultEnabled: false,
+    injection: {
+      payloads: payloads(
+        '../../../../../../etc/passwd',
+        '..%2f..%2f..%2f..%2f..%2f..%2fetc%2fpasswd',
+        '....//....//....//....//....//....//etc/passwd',
+        '..\\..\\..\\..\\..\\..\\windows\\win.ini'
+      ),
+      signatures: [/root:[x*]?:0:0:/, /; for 16-bit app support/i],
+    },
+  },
+  {
+    id: 'active-template-injection',
+    title: 'Server-side template injection',
+    severity: 'critical',
+    cwe: 'CWE-1336',
+    owasp: 'A03:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H',
+    remediation: 'Never pass user input into template source; render it only as template data, or use a logic-less or sandboxed template engine.',
+    defaultEnabled: false,
+    injection: {
+      payloads: payloads('{{1337*7331}}', '${1337*7331}', '<%= 1337*7331 %>', '#{1337*7331}'),
+      signatures: [new RegExp(TEMPLATE_PROOF)],
+      serverErrors: true,
+    },
+  },
+  {
+    id: 'active-command-injection',
+    title: 'OS command injection',
+    severity: 'critical',
+    cwe: 'CWE-78',
+    owasp: 'A03:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H',
+    remediation: 'Avoid shelling out with user input; call programs with an argument array and validate values against an allow-list.',
+    defaultEnabled: false,
+    injection: {
+      payloads: [
+        ...payloads(';id', '|id', '$(id)', '`id`'),
+        ...delayed(`;sleep ${DELAY_SECONDS}`, `|sleep ${DELAY_SECONDS}`, `& ping -n ${DELAY_SECONDS + 1} 127.0.0.1 &`),
+      ],
+      signatures: [/uid=\d+\([^)]*\)\s+gid=\d+/],
+      serverErrors: true,
+    },
+  },
+];
@@ -0,0 +1,100 @@
+// Minimal JSONPath: $, .name, ['name'], [index], [*], .* and ..name (recursive descent)
+
+type Segment =
+  | { kind: 'child'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'descendant'; name: string | null };
+
+export class JsonPathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JsonPathError';
+  }
+}
+
+const parsePath = (path: string): Segment[] => {
+  const trimmed = path.trim();
+  if (!trimmed.startsWith('$')) throw new JsonPathError(`JSONPath must start with $: ${path}`);
+
+  const segments: Segment[] = [];
+  let position = 1;
+  const readName = () => {
+    const match = /^[\w$-]+/.exec(trimmed.slice(position));
+    if (!match) throw new JsonPathError(`Expected a property name at position ${position} in ${path}`);
+    position += match[0].length;
+    return match[0];
+  };
+
+  while (position < trimmed.length) {
+    if (trimmed.startsWith('..', position)) {
+      position += 2;
+      if (trimmed[position] === '*') {
+        position++;
+        segments.push({ kind: 'descendant', name: null });
+      } else {
+        segments.push({ kind: 'descendant', name: readName() });
+      }
+    } else if (trimmed[position] === '.') {
+      position++;
+      if (trimmed[position] === '*') {
+        position++;
+        segments.push({ kind: 'wildcard' });
+      } else {
+        segments.push({ kind: 'child', name: readName() });
+      }
+    } else if (trimmed[position] === '[') {
+      const end = trimmed.indexOf(']', position);
+      if (end < 0) throw new JsonPathError(`Unclosed bracket in ${path}`);
+      const inner = trimmed.slice(position + 1, end).trim();
+      position = end + 1;
+      if (inner === '*') {
+        segments.push({ kind: 'wildcard' });
+      } else if (/^-?\d+$/.test(inner)) {
+        segments.push({ kind: 'index', index: parseInt(inner) });
+      } else if (/^(['"]).*\1$/.test(inner)) {
+        segments.push({ kind: 'child', name: inner.slice(1, -1) });
+      } else {
+        throw new JsonPathError(`Unsupported selector [${inner}] in ${path}`);
+      }
+    } else {
+      throw new JsonPathError(`Unexpected character "${trimmed[position]}" in ${path}`);
+    }
+  }
+  return segments;
+};
+
+const childrenOf = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (value && typeof value === 'object') return Object.values(value);
+  return [];
+};
+
+const descendantsOf = (value: unknown): unknown[] =>
+  childrenOf(value).flatMap(child => [child, ...descendantsOf(child)]);
+
+const applySegment = (values: unknown[], segment: Segment): unknown[] => values.flatMap((value) => {
+  switch (segment.kind) {
+    case 'child':
+      return value && typeof value === 'object' && !Array.isArray(value) && segment.name in value
+        ? [(value as Record<string, unknown>)[segment.name]]
+        : [];
+    case 'index': {
+      if (!Array.isArray(value)) return [];
+      const index = segment.index < 0 ? value.length + segment.index : segment.index;
+      return index >= 0 && index < value.length ? [value[index]] : [];
+    }
+    case 'wildcard':
+      return childrenOf(value);
+    case 'descendant': {
+      const nodes = [value, ...descendantsOf(value)];
+      return segment.name === null
+        ? descendantsOf(value)
+        : applySegment(nodes, { kind: 'child', name: segment.name });
+    }
+  }
+});
+
+// Every value the path selects, in document order; empty when nothing matches
+export const queryJsonPath = (document: unknown, path: string): unknown[] =>
+  parsePath(path).reduce<unknown[]>((values, segment) => applySegment(values, segment), [document]);
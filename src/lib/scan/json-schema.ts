@@ -0,0 +1,89 @@
+// JSON Schema subset used by assertions: type, enum, const, properties, required,
+// additionalProperties, items, string/number/array bounds and pattern
+
+export interface JsonSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+const typeOf = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string) => {
+  if (type === 'integer') return Number.isInteger(value);
+  return typeOf(value) === type;
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// One message per violation, each prefixed with the JSON pointer of the offending value
+export const validateJsonSchema = (value: unknown, schema: JsonSchema, path = ''): string[] => {
+  const at = path || '/';
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${at}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+  if (schema.enum && !schema.enum.some(option => sameValue(option, value))) {
+    errors.push(`${at}: must be one of ${JSON.stringify(schema.enum)}`);
+  }
+  if (schema.const !== undefined && !sameValue(schema.const, value)) {
+    errors.push(`${at}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${at}: must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${at}: must be <= ${schema.maximum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${at}: must be at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${at}: must be at most ${schema.maxLength} characters`);
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) errors.push(`${at}: must match /${schema.pattern}/`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${at}: must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${at}: must have at most ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items!, `${path}/${index}`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    (schema.required || []).forEach((name) => {
+      if (!(name in record)) errors.push(`${at}: missing required property "${name}"`);
+    });
+    Object.entries(record).forEach(([name, child]) => {
+      const childSchema = schema.properties?.[name];
+      if (childSchema) {
+        errors.push(...validateJsonSchema(child, childSchema, `${path}/${name}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at}: unexpected property "${name}"`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(child, schema.additionalProperties, `${path}/${name}`));
+      }
+    });
+  }
+
+  return errors;
+};
@@ -0,0 +1,56 @@
+// Timeout, retry and redirect policy: built-in defaults, project defaults and endpoint overrides
+import { Endpoint, Project, RequestPolicy, RetryableError } from '../models';
+
+export type ResolvedRequestPolicy = Required<RequestPolicy>;
+
+export const DEFAULT_REQUEST_POLICY: ResolvedRequestPolicy = {
+  timeoutMs: 10000,
+  retries: 0,
+  backoff: 'exponential',
+  backoffDelayMs: 500,
+  retryOnStatus: [429, 502, 503, 504],
+  retryOnErrors: ['timeout', 'network'],
+  followRedirects: true,
+  maxRedirects: 3,
+};
+
+// Upper bound for a single backoff wait, whatever the strategy
+const MAX_BACKOFF_MS = 30000;
+
+// Copies only the fields that are actually set, so unset overrides fall through
+const definedFields = (policy?: RequestPolicy) => Object.fromEntries(
+  Object.entries(policy || {}).filter(([, value]) => value !== undefined)
+) as RequestPolicy;
+
+export const resolveRequestPolicy = (project?: Project | null, endpoint?: Endpoint | null): ResolvedRequestPolicy => ({
+  ...DEFAULT_REQUEST_POLICY,
+  ...definedFields(project?.requestPolicy),
+  ...definedFields(endpoint?.requestPolicy),
+});
+
+// Delay before retry number `retry` (1 for the first retry)
+export const getBackoffDelay = (policy: ResolvedRequestPolicy, retry: number) => {
+  switch (policy.backoff) {
+    case 'fixed': return Math.min(policy.backoffDelayMs, MAX_BACKOFF_MS);
+    case 'linear': return Math.min(policy.backoffDelayMs * retry, MAX_BACKOFF_MS);
+    case 'exponential': return Math.min(policy.backoffDelayMs * 2 ** (retry - 1), MAX_BACKOFF_MS);
+    default: return 0;
+  }
+};
+
+// Classifies a failed request so it can be matched against `retryOnErrors`
+export const getRetryableError = (code?: string): RetryableError => (
+  code === 'ECONNABORTED' || code === 'ETIMEDOUT' ? 'timeout' : 'network'
+);
+
+export const shouldRetryStatus = (policy: ResolvedRequestPolicy, status: number) =>
+  policy.retryOnStatus.includes(status);
+
+export const shouldRetryError = (policy: ResolvedRequestPolicy, code?: string) =>
+  policy.retryOnErrors.includes(getRetryableError(code));
+
+// Parses a comma separated status list as typed in the policy form
+export const parseStatusList = (text: string) => text
+  .split(',')
+  .map(part => parseInt(part.trim()))
+  .filter(status => status >= 100 && status <= 599);
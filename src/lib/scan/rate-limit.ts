@@ -0,0 +1,49 @@
+// Request pacing for the scan engine: a global and a per-host requests-per-second budget
+
+export interface RateLimits {
+  requestsPerSecond?: number;
+  perHostRequestsPerSecond?: number;
+}
+
+export interface RateLimiter {
+  // Resolves when a request to `host` may be sent; rejects with the signal's reason when aborted
+  acquire: (host: string, signal?: AbortSignal) => Promise<void>;
+}
+
+// Waits `ms`, rejecting early with an AbortError when the signal fires
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('Aborted', 'AbortError'));
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Each request reserves the earliest slot that satisfies both budgets, so waiting callers keep their order
+export const createRateLimiter = ({ requestsPerSecond, perHostRequestsPerSecond }: RateLimits): RateLimiter => {
+  const globalInterval = requestsPerSecond ? 1000 / requestsPerSecond : 0;
+  const hostInterval = perHostRequestsPerSecond ? 1000 / perHostRequestsPerSecond : 0;
+  let nextGlobalSlot = 0;
+  const nextHostSlots = new Map<string, number>();
+
+  const acquire = async (host: string, signal?: AbortSignal) => {
+    if (!globalInterval && !hostInterval) return;
+
+    const now = Date.now();
+    const slot = Math.max(now, globalInterval ? nextGlobalSlot : now, hostInterval ? nextHostSlots.get(host) || now : now);
+    if (globalInterval) nextGlobalSlot = slot + globalInterval;
+    if (hostInterval) nextHostSlots.set(host, slot + hostInterval);
+
+    if (slot > now) await sleep(slot - now, signal);
+  };
+
+  return { acquire };
+};
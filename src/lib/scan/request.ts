@@ -0,0 +1,271 @@
+// Executes a single endpoint request and turns the response into a test result
+import { AssertionResult, Endpoint, Finding, Project, TestConfig, TestResult } from '../models';
+import { maskSecrets, redactSecretValues, rejectSecretReferences, SecretResolver } from '../secrets';
+import { AuthError, AuthSession, createAuthSession, REFRESHABLE_AUTH_TYPES, resolveAuthProfile } from './auth';
+import { getEnabledChecks, isActiveCheck } from './check-registry';
+import { CheckPolicy, evaluateResponse, judgeFindings } from './checks';
+import { parseSetCookie, toObservedCookie } from './cookies';
+import { isPreflightRequest } from './cors-checks';
+import { Probe, runActiveChecks } from './fuzz';
+import { getBackoffDelay, resolveRequestPolicy, shouldRetryError, shouldRetryStatus } from './policy';
+import { sleep } from './rate-limit';
+import { redactSensitiveData } from './sensitive-data';
+import { directTransport, Transport, TransportError, TransportRequest, TransportResponse } from './transport';
+import { toRequestUrl } from './url';
+import { applyExtractors, getVariableReferences, substituteVariables } from './variables';
+
+export interface RequestContext {
+  project?: Project | null;
+  config: TestConfig;
+  runId?: string;
+  signal?: AbortSignal;
+  // Defaults to sending requests directly
+  transport?: Transport;
+  // Environment and extracted values for {{name}} references
+  variables?: Record<string, string>;
+  // Names among `variables` holding extracted values, which are redacted from the stored response
+  extractedNames?: string[];
+  // Shares tokens and login sessions between the endpoints of a run; one is created per request otherwise
+  auth?: AuthSession;
+  // Receives the values this endpoint's extractors found
+  onExtract?: (values: Record<string, string>) => void;
+  // Waits for the run's rate limits before each additional request, such as retries and fuzzing probes
+  throttle?: (url: string) => Promise<void>;
+  // Resolves once the run is no longer paused; awaited before the same additional requests
+  waitForResume?: () => Promise<void>;
+  // Fills in {{secret:name}} references, e.g. from the vault; endpoints using them fail without one
+  resolveSecrets?: SecretResolver;
+}
+
+const BODY_METHODS = ['POST', 'PUT', 'PATCH'];
+
+// Variable values shorter than this (ids, flags) are too common to redact from stored responses
+const MIN_REDACTED_VARIABLE_LENGTH = 8;
+
+// Raised when a request was cancelled through its AbortSignal rather than failing
+export class ScanAbortedError extends Error {
+  constructor() {
+    super('Scan request aborted');
+    this.name = 'ScanAbortedError';
+  }
+}
+
+// Vault secrets and extracted values first, then whatever the sensitive data detectors recognise
+const redactStored = (text: string, values: string[]) => redactSensitiveData(redactSecretValues(text, values));
+
+const redactFinding = (finding: Finding, values: string[]): Finding => ({
+  ...finding,
+  detail: finding.detail && redactStored(finding.detail, values),
+  evidence: finding.evidence && {
+    ...finding.evidence,
+    url: redactStored(finding.evidence.url, values),
+    headers: Object.fromEntries(Object.entries(finding.evidence.headers).map(([name, value]) => [name, redactStored(value, values)])),
+    body: finding.evidence.body && redactStored(finding.evidence.body, values),
+  },
+});
+
+// Header and JSONPath assertions quote response values, which can be tokens, cookies or personal data
+const redactAssertion = (assertion: AssertionResult, values: string[]): AssertionResult => ({
+  ...assertion,
+  description: redactStored(assertion.description, values),
+  expected: redactStored(assertion.expected, values),
+  actual: redactStored(assertion.actual, values),
+});
+
+const errorResult = (endpoint: Endpoint, context: RequestContext, message: string, responseTime: number, attempts?: number): TestResult => ({
+  id: `${endpoint.id}_${Date.now()}`,
+  runId: context.runId,
+  endpointId: endpoint.id,
+  endpointName: endpoint.name,
+  url: endpoint.url,
+  method: endpoint.method,
+  status: 'error',
+  vulnerabilities: [message],
+  findings: [],
+  responseTime,
+  statusCode: 0,
+  timestamp: new Date().toISOString(),
+  projectId: endpoint.projectId,
+  attempts
+});
+
+export const executeEndpoint = async (endpoint: Endpoint, context: RequestContext): Promise<TestResult> => {
+  const startTime = Date.now();
+  const policy = resolveRequestPolicy(context.project, endpoint);
+  const transport = context.transport || directTransport;
+  const variables = context.variables || {};
+  let secretValues: string[] = [];
+  let attempts = 0;
+
+  // Extracted values come from target responses, so they are filled in only after vault secrets were resolved;
+  // otherwise a target could return "{{secret:name}}" and receive the secret with the next request
+  const extractedNames = context.extractedNames || [];
+  const environment = Object.fromEntries(Object.entries(variables).filter(([name]) => !extractedNames.includes(name)));
+  const extractedValues = Object.fromEntries(Object.entries(variables).filter(([name]) => extractedNames.includes(name)));
+
+  const [templateUrl, templateHeaders, templateBody] = [endpoint.url, endpoint.headers, endpoint.body]
+    .map(text => substituteVariables(text, environment));
+  const unresolved = getVariableReferences(templateUrl, templateHeaders, templateBody)
+    .filter(name => !Object.prototype.hasOwnProperty.call(extractedValues, name));
+  if (unresolved.length > 0) {
+    return errorResult(endpoint, context,
+      `Unresolved variable(s): ${unresolved.map(name => `{{${name}}}`).join(', ')}. Define them in the selected environment or extract them in an earlier endpoint of the same run.`, 0);
+  }
+
+  try {
+    const resolved = await (context.resolveSecrets || rejectSecretReferences)(templateUrl, templateHeaders, templateBody);
+    const [url, rawHeaders, rawBody] = resolved.texts.map(text => substituteVariables(text, extractedValues));
+    secretValues = resolved.values;
+
+    let headers = {};
+    if (rawHeaders) {
+      try {
+        headers = JSON.parse(rawHeaders);
+      } catch (e) {
+        console.warn('Invalid headers JSON:', maskSecrets(endpoint.headers));
+      }
+    }
+
+    const profile = resolveAuthProfile(context.project, endpoint);
+    const auth = context.auth || createAuthSession({ transport, variables: environment, timeoutMs: policy.timeoutMs, signal: context.signal, resolveSecrets: context.resolveSecrets, throttle: context.throttle });
+    const authorize = async (base: TransportRequest) => {
+      if (!profile) return base;
+      const applied = await auth.apply(profile, base);
+      secretValues = [...new Set([...secretValues, ...applied.sensitive])];
+      return applied.request;
+    };
+
+    const method = endpoint.method.toUpperCase();
+    const request: TransportRequest = {
+      url: toRequestUrl(url),
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'VulnScan-Pro/1.0',
+        'Accept': '*/*',
+        ...headers
+      },
+      body: BODY_METHODS.includes(method) && rawBody ? rawBody : undefined,
+      timeoutMs: policy.timeoutMs,
+      maxRedirects: policy.followRedirects ? policy.maxRedirects : 0,
+      signal: context.signal
+    };
+
+    let response: TransportResponse;
+    let sent: TransportRequest;
+    let attemptStart: number;
+    let reauthenticated = false;
+    for (;;) {
+      attempts++;
+      // The run already waited for the first attempt; retries count against the rate limits too
+      if (attempts > 1) {
+        await context.waitForResume?.();
+        await context.throttle?.(request.url);
+      }
+      attemptStart = Date.now();
+      try {
+        // Applied per attempt so signatures stay fresh and renewed tokens are picked up
+        sent = await authorize(request);
+        response = await transport(sent);
+        // An expired session or token gets one fresh login and another attempt
+        if (response.status === 401 && profile && REFRESHABLE_AUTH_TYPES.includes(profile.type) && !reauthenticated) {
+          reauthenticated = true;
+          auth.invalidate(profile);
+          continue;
+        }
+        if (attempts > policy.retries || !shouldRetryStatus(policy, response.status)) break;
+      } catch (error) {
+        if (context.signal?.aborted || !(error instanceof TransportError)) throw error;
+        if (attempts > policy.retries || !shouldRetryError(policy, error.code)) throw error;
+      }
+      await sleep(getBackoffDelay(policy, attempts), context.signal);
+    }
+    const responseTime = Date.now() - attemptStart;
+    const responseText = response.body;
+
+    const checkPolicy: CheckPolicy = {
+      checks: getEnabledChecks(context.project?.checkOverrides, context.config.checkOverrides),
+      failSeverity: context.project?.failSeverity,
+      suppressions: context.project?.suppressions
+    };
+    const evaluation = evaluateResponse(endpoint, sent, {
+      status: response.status,
+      headers: response.headers,
+      body: responseText,
+      responseTime
+    }, context.config, checkPolicy);
+    let { status, findings } = evaluation;
+    const { vulnerabilities, assertions } = evaluation;
+
+    // Active checks are opt-in and send requests of their own, derived from this one
+    const activeChecks = checkPolicy.checks.filter(isActiveCheck);
+    if (activeChecks.length > 0) {
+      const probe: Probe = async (mutated) => {
+        await context.waitForResume?.();
+        await context.throttle?.(mutated.url);
+        try {
+          const authorized = isPreflightRequest(mutated) ? mutated : await authorize(mutated);
+          const probeStart = Date.now();
+          const probed = await transport(authorized);
+          return { request: authorized, status: probed.status, headers: probed.headers, body: probed.body, responseTime: Date.now() - probeStart };
+        } catch (error) {
+          if (context.signal?.aborted || !(error instanceof TransportError)) throw error;
+          return null;
+        }
+      };
+      const baseline = { request: sent, status: response.status, headers: response.headers, body: responseText, responseTime };
+      const fuzzed = judgeFindings(await runActiveChecks(request, baseline, activeChecks, probe), endpoint, checkPolicy);
+      findings = [...findings, ...fuzzed.findings];
+      if (fuzzed.failures.length > 0) {
+        status = 'fail';
+        vulnerabilities.push(...fuzzed.failures);
+      }
+    }
+
+    const extracted = applyExtractors(endpoint.extractors || [], { headers: response.headers, body: responseText });
+    context.onExtract?.(extracted.values);
+    extracted.missing.forEach((name) => {
+      status = 'fail';
+      vulnerabilities.push(`Extractor "${name}" found no value`);
+    });
+    const usedValues = getVariableReferences(endpoint.url, endpoint.headers, endpoint.body)
+      .filter(name => context.extractedNames?.includes(name))
+      .map(name => variables[name]);
+    const redacted = [
+      ...secretValues,
+      ...[...usedValues, ...Object.values(extracted.values)].filter(value => value.length >= MIN_REDACTED_VARIABLE_LENGTH)
+    ];
+
+    return {
+      id: `${endpoint.id}_${Date.now()}`,
+      runId: context.runId,
+      endpointId: endpoint.id,
+      endpointName: endpoint.name,
+      url: endpoint.url,
+      method: endpoint.method,
+      status,
+      vulnerabilities: vulnerabilities.map(reason => redactStored(reason, redacted)),
+      findings: findings.map(finding => redactFinding(finding, redacted)),
+      assertions: assertions?.map(assertion => redactAssertion(assertion, redacted)),
+      responseTime,
+      statusCode: response.status,
+      timestamp: new Date().toISOString(),
+      projectId: endpoint.projectId,
+      actualContent: redactStored(responseText, redacted).substring(0, 500),
+      extractedVariables: Object.keys(extracted.values),
+      cookies: parseSetCookie(response.headers['set-cookie']).map(cookie => toObservedCookie(cookie)),
+      attempts,
+      timings: response.timings
+    };
+
+  } catch (error) {
+    if (context.signal?.aborted) throw new ScanAbortedError();
+
+    const message = redactSecretValues(error instanceof Error ? error.message : String(error), secretValues);
+    return errorResult(endpoint, context,
+      error instanceof AuthError
+        ? `Authentication Error: ${message}`
+        : `Connection Error: ${message}${attempts > 1 ? ` (after ${attempts} attempts)` : ''}`,
+      Date.now() - startTime, attempts || undefined);
+  }
+};
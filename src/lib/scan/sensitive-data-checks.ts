@@ -0,0 +1,106 @@
+// Sensitive data checks: one per detector category, so each kind of exposure can be switched off on its own
+import type { CheckContext, SecurityCheck } from './check-registry';
+import { findSensitiveData, SENSITIVE_DATA_DETECTORS, SensitiveDataCategory, SensitiveDataMatch } from './sensitive-data';
+
+const describeMatch = ({ detector, location, samples, count }: SensitiveDataMatch) =>
+  `${location === 'body' ? 'Response body' : `${location} header`}: ${detector.label} "${samples[0]}"${count > 1 ? ` (+${count - 1} more)` : ''}`;
+
+// Addresses of the scanned host itself are not a leak
+const withoutTargetHost = (match: SensitiveDataMatch, { request }: CheckContext): SensitiveDataMatch | null => {
+  let host = '';
+  try {
+    host = new URL(request.url).hostname;
+  } catch {
+    return match;
+  }
+  const samples = match.samples.filter(sample => sample !== host);
+  return samples.length > 0 ? { ...match, samples, count: match.count - (match.samples.length - samples.length) } : null;
+};
+
+const detect = (category: SensitiveDataCategory) => (context: CheckContext) =>
+  findSensitiveData(context.response, SENSITIVE_DATA_DETECTORS.filter(detector => detector.category === category))
+    .map(match => category === 'internal-ip' ? withoutTargetHost(match, context) : match)
+    .filter((match): match is SensitiveDataMatch => match !== null)
+    .map(describeMatch);
+
+export const SENSITIVE_DATA_CHECKS: SecurityCheck[] = [
+  {
+    id: 'stack-trace-disclosure',
+    title: 'Stack trace disclosure',
+    severity: 'medium',
+    cwe: 'CWE-209',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:L/I:N/A:N',
+    remediation: 'Log exceptions server-side and return a generic error; never send stack traces to clients in production.',
+    evaluate: detect('stack-trace'),
+  },
+  {
+    id: 'debug-page-disclosure',
+    title: 'Framework debug page exposed',
+    severity: 'high',
+    cwe: 'CWE-489',
+    owasp: 'A05:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:N/A:N',
+    remediation: 'Turn off debug mode and interactive debuggers in deployed environments, and remove diagnostic pages such as phpinfo().',
+    evaluate: detect('debug-page'),
+  },
+  {
+    id: 'private-key-disclosure',
+    title: 'Private key disclosure',
+    severity: 'critical',
+    cwe: 'CWE-200',
+    owasp: 'A01:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:N',
+    remediation: 'Remove the key from the response, treat it as compromised and replace it.',
+    evaluate: detect('private-key'),
+  },
+  {
+    id: 'cloud-key-disclosure',
+    title: 'Cloud access key disclosure',
+    severity: 'high',
+    cwe: 'CWE-200',
+    owasp: 'A01:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:L/A:N',
+    remediation: 'Remove the key from the response, revoke it with the cloud provider and issue a new one with the narrowest permissions that work.',
+    evaluate: detect('cloud-key'),
+  },
+  {
+    id: 'jwt-disclosure',
+    title: 'JSON Web Token in response',
+    severity: 'low',
+    cwe: 'CWE-200',
+    owasp: 'A01:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:L/I:N/A:N',
+    remediation: 'Only return tokens from authentication endpoints and only to their owner; suppress this finding for login endpoints.',
+    evaluate: detect('jwt'),
+  },
+  {
+    id: 'internal-ip-disclosure',
+    title: 'Internal IP address disclosure',
+    severity: 'low',
+    cwe: 'CWE-200',
+    owasp: 'A01:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:L/I:N/A:N',
+    remediation: 'Keep private addresses out of responses and headers, e.g. by rewriting upstream URLs at the proxy.',
+    evaluate: detect('internal-ip'),
+  },
+  {
+    id: 'email-disclosure',
+    title: 'Email address disclosure',
+    severity: 'info',
+    cwe: 'CWE-359',
+    owasp: 'A01:2021',
+    remediation: 'Check that the addresses are meant to be public, and return personal data only to users allowed to see it.',
+    evaluate: detect('email'),
+  },
+  {
+    id: 'credit-card-disclosure',
+    title: 'Payment card number disclosure',
+    severity: 'high',
+    cwe: 'CWE-359',
+    owasp: 'A01:2021',
+    cvss: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:N/A:N',
+    remediation: 'Never return full card numbers; show at most the last four digits, as PCI DSS requires.',
+    evaluate: detect('credit-card'),
+  },
+];
@@ -0,0 +1,146 @@
+// Detectors for sensitive data in responses; secrets and personal data are masked before anything is stored
+import { MASK } from '../secrets';
+
+export type SensitiveDataCategory = 'stack-trace' | 'private-key' | 'cloud-key' | 'jwt' | 'internal-ip' | 'email' | 'credit-card' | 'debug-page';
+
+export interface SensitiveDataDetector {
+  id: string;
+  category: SensitiveDataCategory;
+  label: string;
+  // Needs the global flag
+  pattern: RegExp;
+  // Rejects look-alikes the pattern cannot rule out, e.g. numbers failing the Luhn check
+  validate?: (match: string) => boolean;
+  // Secrets and personal data are masked in details and stored responses; stack traces and debug pages stay readable
+  redact: boolean;
+  // Defaults to the first few characters
+  mask?: (match: string) => string;
+}
+
+export interface SensitiveDataMatch {
+  detector: SensitiveDataDetector;
+  // "body", or the lower-cased name of the header
+  location: string;
+  // Distinct values found, already masked when the detector redacts
+  samples: string[];
+  count: number;
+}
+
+// Characters of a redacted value left visible, enough to tell an AWS key from a Google one
+const VISIBLE_CHARS = 4;
+
+// Longer unredacted samples, such as stack trace lines, are cut
+const MAX_SAMPLE_LENGTH = 80;
+
+const isOctet = (value: string) => Number(value) <= 255;
+
+const isLuhnValid = (digits: string) => {
+  const sum = [...digits].reverse().reduce((total, char, index) => {
+    const digit = Number(char) * (index % 2 === 1 ? 2 : 1);
+    return total + (digit > 9 ? digit - 9 : digit);
+  }, 0);
+  return sum % 10 === 0;
+};
+
+// Visa, Mastercard, American Express, Discover, JCB and Diners Club
+const CARD_PREFIX = /^(?:4|5[1-5]|2(?:2[2-9]|[3-6]\d|7[01]|720)|3[47]|6011|65|35|3[068])/;
+
+const isCardNumber = (match: string) => {
+  const digits = match.replace(/[ -]/g, '');
+  return digits.length >= 13 && digits.length <= 19 && CARD_PREFIX.test(digits) && isLuhnValid(digits);
+};
+
+export const SENSITIVE_DATA_DETECTORS: SensitiveDataDetector[] = [
+  { id: 'java-stack-trace', category: 'stack-trace', label: 'Java stack trace', redact: false, pattern: /\bat [\w$.]+\((?:[\w$]+\.java:\d+|Native Method|Unknown Source)\)/g },
+  { id: 'dotnet-stack-trace', category: 'stack-trace', label: '.NET stack trace', redact: false, pattern: /\bat [\w.`<>]+\([^)\n]*\) in [^\n]+:line \d+/g },
+  { id: 'python-stack-trace', category: 'stack-trace', label: 'Python traceback', redact: false, pattern: /Traceback \(most recent call last\):|File "[^"\n]+", line \d+, in [\w<>]+/g },
+  { id: 'node-stack-trace', category: 'stack-trace', label: 'Node.js stack trace', redact: false, pattern: /\bat (?:[\w$.<>[\] ]+ \()?(?:\/|[A-Za-z]:\\|node:|file:\/\/)[^\s)]+:\d+:\d+\)?/g },
+  {
+    id: 'private-key',
+    category: 'private-key',
+    label: 'private key',
+    redact: true,
+    // The whole block, so redaction leaves none of the key material behind
+    pattern: /-----BEGIN ((?:RSA |EC |DSA |OPENSSH |ENCRYPTED |PGP )?)PRIVATE KEY( BLOCK)?-----[\s\S]*?(?:-----END \1PRIVATE KEY\2-----|$)/g,
+    mask: match => `${match.match(/^-----BEGIN [A-Z ]+-----/)?.[0]}${MASK}`,
+  },
+  { id: 'aws-access-key', category: 'cloud-key', label: 'AWS access key ID', redact: true, pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    id: 'aws-secret-key',
+    category: 'cloud-key',
+    label: 'AWS secret access key',
+    redact: true,
+    pattern: /aws_?secret_?access_?key["'\s:=]+[A-Za-z0-9/+=]{40}/gi,
+    mask: match => `${match.slice(0, -40)}${MASK}`,
+  },
+  { id: 'google-api-key', category: 'cloud-key', label: 'Google API key', redact: true, pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  {
+    id: 'azure-storage-key',
+    category: 'cloud-key',
+    label: 'Azure storage account key',
+    redact: true,
+    pattern: /AccountKey=[A-Za-z0-9+/=]{86,88}/g,
+    mask: () => `AccountKey=${MASK}`,
+  },
+  { id: 'jwt', category: 'jwt', label: 'JSON Web Token', redact: true, pattern: /\beyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]*/g },
+  {
+    id: 'internal-ip',
+    category: 'internal-ip',
+    label: 'internal IP address',
+    redact: false,
+    pattern: /\b(?:10(?:\.\d{1,3}){3}|172\.(?:1[6-9]|2\d|3[01])(?:\.\d{1,3}){2}|192\.168(?:\.\d{1,3}){2}|169\.254(?:\.\d{1,3}){2})\b/g,
+    validate: match => match.split('.').every(isOctet),
+  },
+  {
+    id: 'email',
+    category: 'email',
+    label: 'email address',
+    redact: true,
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+    // Retina asset names such as logo@2x.png look like addresses
+    validate: match => !/\.(?:png|jpe?g|gif|svg|webp)$/i.test(match),
+  },
+  { id: 'credit-card', category: 'credit-card', label: 'payment card number', redact: true, pattern: /(?<![\d-])(?:\d[ -]?){12,18}\d(?!\d)/g, validate: isCardNumber },
+  {
+    id: 'debug-page',
+    category: 'debug-page',
+    label: 'framework debug page',
+    redact: false,
+    pattern: /Werkzeug Debugger|You're seeing this error because you have <code>DEBUG = True<\/code>|Whoops! There was an error|Action Controller: Exception caught|Server Error in '[^'\n]*' Application|<title>phpinfo\(\)<\/title>|Whitelabel Error Page/g,
+  },
+];
+
+const maskMatch = (detector: SensitiveDataDetector, match: string) => {
+  if (!detector.redact) return match.split('\n')[0].slice(0, MAX_SAMPLE_LENGTH);
+  return detector.mask ? detector.mask(match) : `${match.slice(0, VISIBLE_CHARS)}${MASK}`;
+};
+
+const findMatches = (detector: SensitiveDataDetector, text: string) =>
+  [...text.matchAll(detector.pattern)]
+    .map(match => match[0])
+    .filter(match => !detector.validate || detector.validate(match));
+
+// Set-Cookie is left to the cookie checks, where session tokens are expected
+const getScannedHeaders = (headers: Record<string, string>) =>
+  Object.entries(headers).filter(([name]) => name.toLowerCase() !== 'set-cookie');
+
+// One match per detector and location, counting distinct values
+export const findSensitiveData = (
+  response: { headers: Record<string, string>; body: string },
+  detectors: SensitiveDataDetector[] = SENSITIVE_DATA_DETECTORS
+): SensitiveDataMatch[] => {
+  const sources: [string, string][] = [['body', response.body], ...getScannedHeaders(response.headers)];
+  return detectors.flatMap(detector => sources.flatMap(([location, text]) => {
+    const values = [...new Set(findMatches(detector, text))];
+    return values.length > 0
+      ? [{ detector, location: location.toLowerCase(), samples: [...new Set(values.map(value => maskMatch(detector, value)))], count: values.length }]
+      : [];
+  }));
+};
+
+// Masks every value a redacting detector finds
+export const redactSensitiveData = (text: string, detectors: SensitiveDataDetector[] = SENSITIVE_DATA_DETECTORS) =>
+  detectors
+    .filter(detector => detector.redact)
+    .reduce((current, detector) => current.replace(detector.pattern, match =>
+      !detector.validate || detector.validate(match) ? maskMatch(detector, match) : match), text);
@@ -0,0 +1,52 @@
+// Suppressions: accepted findings that stay on record but no longer affect pass/fail
+import { Endpoint, Finding, Suppression, SuppressionScope } from '../models';
+
+export const SUPPRESSION_SCOPE_LABELS: Record<SuppressionScope, string> = {
+  endpoint: 'This endpoint',
+  category: 'Endpoint category',
+  project: 'Whole project',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// The expiry date itself is still covered, in local time
+export const isSuppressionActive = (suppression: Suppression, now = new Date()) =>
+  !suppression.expiresAt || now.getTime() <= new Date(`${suppression.expiresAt}T23:59:59.999`).getTime();
+
+const coversEndpoint = (suppression: Suppression, endpoint: Endpoint) => {
+  switch (suppression.scope) {
+    case 'endpoint': return suppression.endpointId === endpoint.id;
+    case 'category': return suppression.category === endpoint.category;
+    case 'project': return true;
+  }
+};
+
+export const findSuppression = (suppressions: Suppression[], endpoint: Endpoint, finding: Finding, now = new Date()) =>
+  suppressions.find(suppression =>
+    suppression.checkId === finding.checkId && coversEndpoint(suppression, endpoint) && isSuppressionActive(suppression, now));
+
+export const applySuppressions = (findings: Finding[], endpoint: Endpoint, suppressions: Suppression[] = []): Finding[] => {
+  const now = new Date();
+  return findings.map((finding) => {
+    const suppression = findSuppression(suppressions, endpoint, finding, now);
+    if (!suppression) return finding;
+    const { id, reason, owner, expiresAt } = suppression;
+    return { ...finding, suppression: { id, reason, owner, expiresAt } };
+  });
+};
+
+export const getActiveFindings = (findings: Finding[] = []) => findings.filter(finding => !finding.suppression);
+
+export const getSuppressedFindings = (findings: Finding[] = []) => findings.filter(finding => finding.suppression);
+
+// First problem that makes a suppression unusable, or null when it can be saved
+export const getSuppressionProblem = (suppression: Suppression): string | null => {
+  if (!suppression.reason.trim()) return 'Explain why the finding is accepted';
+  if (!suppression.owner.trim()) return 'Name the owner of the accepted risk';
+  if (suppression.scope === 'endpoint' && !suppression.endpointId) return 'Choose the endpoint to suppress the finding on';
+  if (suppression.scope === 'category' && !suppression.category) return 'Choose the endpoint category to suppress the finding in';
+  if (suppression.expiresAt && (!DATE_PATTERN.test(suppression.expiresAt) || isNaN(Date.parse(suppression.expiresAt)))) {
+    return 'Expiry must be a date';
+  }
+  return null;
+};
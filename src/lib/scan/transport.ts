@@ -0,0 +1,211 @@
+// How scan requests reach their targets: through the local agent, directly, or via a custom proxy
+import axios from 'axios';
+
+export type TransportMode = 'agent' | 'direct' | 'proxy';
+
+export interface TransportSettings {
+  mode: TransportMode;
+  agentUrl: string;
+  agentToken: string;
+  // Prefix for the encoded target URL, or a template containing `{url}`
+  proxyUrl: string;
+}
+
+export const TRANSPORT_SETTINGS_KEY = 'transportSettings';
+export const DEFAULT_AGENT_URL = 'http://127.0.0.1:8787';
+
+export const DEFAULT_TRANSPORT_SETTINGS: TransportSettings = {
+  mode: 'agent',
+  agentUrl: DEFAULT_AGENT_URL,
+  agentToken: '',
+  proxyUrl: '',
+};
+
+export interface TransportRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  timeoutMs: number;
+  maxRedirects: number;
+  signal?: AbortSignal;
+  // Names of headers an auth profile added; like Authorization and Cookie they are not sent on to another origin
+  credentialHeaders?: string[];
+}
+
+// Milliseconds from the start of the final hop; only the agent reports them
+export interface TransportTimings {
+  dns?: number;
+  connect?: number;
+  tls?: number;
+  ttfb?: number;
+  total?: number;
+}
+
+export interface TransportResponse {
+  status: number;
+  // Lower-cased names; repeated headers such as Set-Cookie are joined with newlines
+  headers: Record<string, string>;
+  body: string;
+  finalUrl?: string;
+  timings?: TransportTimings;
+}
+
+export type Transport = (request: TransportRequest) => Promise<TransportResponse>;
+
+// `code` follows Node's error codes (ETIMEDOUT, ECONNREFUSED, ...) so retry policies can classify it
+export class TransportError extends Error {
+  code?: string;
+
+  constructor(message: string, code?: string) {
+    super(message);
+    this.name = 'TransportError';
+    this.code = code;
+  }
+}
+
+interface AgentResponse {
+  status: number;
+  headers: Record<string, string | string[]>;
+  body: string;
+  url?: string;
+  timings?: TransportTimings;
+  error?: { code?: string; message: string };
+}
+
+export const normalizeHeaders = (headers: unknown) => {
+  const normalized: Record<string, string> = {};
+  Object.entries((headers || {}) as Record<string, unknown>).forEach(([name, value]) => {
+    if (value === undefined || value === null) return;
+    normalized[name.toLowerCase()] = Array.isArray(value) ? value.join('\n') : String(value);
+  });
+  return normalized;
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// Dropped when a redirect leaves the original origin, as browsers and fetch do
+const CREDENTIAL_HEADERS = ['authorization', 'proxy-authorization', 'cookie'];
+
+export const isCredentialHeader = (name: string, credentialHeaders: string[] = []) =>
+  [...CREDENTIAL_HEADERS, ...credentialHeaders.map(header => header.toLowerCase())].includes(name.toLowerCase());
+
+export const buildProxyUrl = (proxyUrl: string, targetUrl: string) => proxyUrl.includes('{url}')
+  ? proxyUrl.replace('{url}', encodeURIComponent(targetUrl))
+  : `${proxyUrl}${encodeURIComponent(targetUrl)}`;
+
+const sendWithAxios = async (request: TransportRequest, url: string): Promise<TransportResponse> => {
+  try {
+    const response = await axios({
+      method: request.method.toLowerCase(),
+      url,
+      headers: request.headers,
+      data: request.body,
+      timeout: request.timeoutMs,
+      maxRedirects: request.maxRedirects,
+      validateStatus: () => true,
+      withCredentials: false,
+      responseType: 'text',
+      transformResponse: (data) => data,
+      signal: request.signal,
+      // Only called where axios follows redirects itself (Node); browsers and proxies follow them on their own
+      beforeRedirect: (options) => {
+        if (new URL(options.href).origin === new URL(request.url).origin) return;
+        Object.keys(options.headers || {})
+          .filter(name => isCredentialHeader(name, request.credentialHeaders))
+          .forEach((name) => {
+            delete options.headers[name];
+          });
+      }
+    });
+    return {
+      status: response.status,
+      headers: normalizeHeaders(response.headers),
+      body: typeof response.data === 'string' ? response.data : JSON.stringify(response.data),
+      finalUrl: response.request?.responseURL || undefined
+    };
+  } catch (error) {
+    if (axios.isCancel(error)) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    throw new TransportError(message, axios.isAxiosError(error) ? error.code : undefined);
+  }
+};
+
+// Browsers follow redirects themselves and enforce CORS, so most cross-origin targets need the agent
+export const directTransport: Transport = (request) => sendWithAxios(request, request.url);
+
+export const createProxyTransport = (proxyUrl: string): Transport =>
+  (request) => sendWithAxios(request, buildProxyUrl(proxyUrl, request.url));
+
+export const createAgentTransport = (agentUrl: string, agentToken: string): Transport => async (request) => {
+  let response;
+  try {
+    response = await axios.post<AgentResponse>(`${trimSlash(agentUrl)}/request`, {
+      url: request.url,
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      timeoutMs: request.timeoutMs,
+      maxRedirects: request.maxRedirects,
+      credentialHeaders: request.credentialHeaders
+    }, {
+      headers: { 'X-Agent-Token': agentToken },
+      // The agent enforces the timeout per hop; this only guards against an unresponsive agent
+      timeout: request.timeoutMs * (request.maxRedirects + 1) + 5000,
+      validateStatus: () => true,
+      signal: request.signal
+    });
+  } catch (error) {
+    if (axios.isCancel(error)) throw error;
+    throw new TransportError(`Scanning agent is not reachable at ${agentUrl}. Start it with "npm run agent".`, 'EAGENTUNREACHABLE');
+  }
+
+  const { data } = response;
+  if (response.status !== 200 || data.error) {
+    throw new TransportError(data.error?.message || `Agent responded with status ${response.status}`, data.error?.code);
+  }
+  return {
+    status: data.status,
+    headers: normalizeHeaders(data.headers),
+    body: data.body,
+    finalUrl: data.url,
+    timings: data.timings
+  };
+};
+
+export const createTransport = (settings: TransportSettings): Transport => {
+  switch (settings.mode) {
+    case 'agent': return createAgentTransport(settings.agentUrl || DEFAULT_AGENT_URL, settings.agentToken);
+    case 'proxy': return createProxyTransport(settings.proxyUrl);
+    default: return directTransport;
+  }
+};
+
+// Explains why the settings cannot be used yet, or returns null when they are complete
+export const getTransportProblem = (settings: TransportSettings) => {
+  if (settings.mode === 'agent' && !settings.agentToken.trim()) {
+    return 'Enter the token printed by the scanning agent when it starts.';
+  }
+  if (settings.mode === 'proxy' && !settings.proxyUrl.trim()) {
+    return 'Enter the URL of your proxy.';
+  }
+  return null;
+};
+
+// Resolves to the agent's version, or rejects with a TransportError explaining what is wrong
+export const checkAgentConnection = async (agentUrl: string, agentToken: string) => {
+  let response;
+  try {
+    response = await axios.get<{ version?: string; error?: { message: string } }>(`${trimSlash(agentUrl)}/health`, {
+      headers: { 'X-Agent-Token': agentToken },
+      timeout: 5000,
+      validateStatus: () => true
+    });
+  } catch (error) {
+    throw new TransportError(`Scanning agent is not reachable at ${agentUrl}`, 'EAGENTUNREACHABLE');
+  }
+  if (response.status !== 200) {
+    throw new TransportError(response.data?.error?.message || `Agent responded with status ${response.status}`);
+  }
+  return response.data.version || 'unknown';
+};
@@ -0,0 +1,13 @@
+// Target URL helpers for the scan engine
+
+// URLs without a scheme are sent over HTTPS
+export const toRequestUrl = (url: string) => /^https?:\/\//i.test(url) ? url : `https://${url}`;
+
+// Host the endpoint is actually sent to, used to apply per-host rate limits
+export const getEndpointHost = (url: string) => {
+  try {
+    return new URL(toRequestUrl(url)).host;
+  } catch (error) {
+    return url.split('/')[0];
+  }
+};
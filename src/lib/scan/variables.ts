@@ -0,0 +1,145 @@
+// Run-scoped {{name}} variables: extraction from responses, substitution into requests and dependency ordering
+import { Endpoint, Extractor, ExtractorSource } from '../models';
+import { queryJsonPath } from './json-path';
+
+// {{name}}; vault references ({{secret:name}}) contain a colon and never match
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][\w.-]*$/;
+
+export const EXTRACTOR_SOURCE_LABELS: Record<ExtractorSource, string> = {
+  jsonPath: 'JSONPath',
+  regex: 'Regex',
+  header: 'Header',
+  cookie: 'Cookie',
+};
+
+export interface ExtractionSubject {
+  // Lower-cased header names; Set-Cookie lines are joined with newlines
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface ExtractionOutcome {
+  values: Record<string, string>;
+  // Extractors that found nothing
+  missing: string[];
+}
+
+export const getVariableReferences = (...texts: (string | undefined)[]) => {
+  const names = new Set<string>();
+  texts.forEach((text) => {
+    for (const match of (text || '').matchAll(VARIABLE_PATTERN)) names.add(match[1]);
+  });
+  return [...names];
+};
+
+// Unknown names are left in place so they can be reported as unresolved
+export const substituteVariables = (text: string | undefined, variables: Record<string, string>) => {
+  if (!text) return text;
+  return text.replace(VARIABLE_PATTERN, (reference, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : reference);
+};
+
+const getCookie = (setCookieHeader: string | undefined, name: string) => {
+  for (const line of (setCookieHeader || '').split('\n')) {
+    const [pair] = line.split(';');
+    const separator = pair.indexOf('=');
+    if (separator > 0 && pair.substring(0, separator).trim() === name) {
+      return pair.substring(separator + 1).trim();
+    }
+  }
+  return undefined;
+};
+
+const extractValue = (extractor: Extractor, subject: ExtractionSubject): string | undefined => {
+  switch (extractor.source) {
+    case 'jsonPath': {
+      let document: unknown;
+      try {
+        document = JSON.parse(subject.body);
+      } catch (error) {
+        return undefined;
+      }
+      const [value] = queryJsonPath(document, extractor.expression);
+      if (value === undefined || value === null) return undefined;
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    }
+    case 'regex': {
+      const match = new RegExp(extractor.expression).exec(subject.body);
+      if (!match) return undefined;
+      return match[1] ?? match[0];
+    }
+    case 'header':
+      return subject.headers[extractor.expression.trim().toLowerCase()];
+    case 'cookie':
+      return getCookie(subject.headers['set-cookie'], extractor.expression.trim());
+  }
+};
+
+export const applyExtractors = (extractors: Extractor[], subject: ExtractionSubject): ExtractionOutcome => {
+  const values: Record<string, string> = {};
+  const missing: string[] = [];
+  extractors.forEach((extractor) => {
+    let value: string | undefined;
+    try {
+      value = extractValue(extractor, subject);
+    } catch (error) {
+      value = undefined;
+    }
+    if (value === undefined) {
+      missing.push(extractor.name);
+    } else {
+      values[extractor.name] = value;
+    }
+  });
+  return { values, missing };
+};
+
+// For each endpoint, the closest earlier endpoint providing each variable it references
+export const getEndpointDependencies = (endpoints: Endpoint[]) => {
+  const providers = new Map<string, number>();
+  return endpoints.map((endpoint, index) => {
+    const dependencies = new Set<number>();
+    getVariableReferences(endpoint.url, endpoint.headers, endpoint.body).forEach((name) => {
+      if (providers.has(name)) dependencies.add(providers.get(name)!);
+    });
+    (endpoint.extractors || []).forEach(extractor => providers.set(extractor.name, index));
+    return [...dependencies];
+  });
+};
+
+// Display helper: which endpoints provide the variables an endpoint uses, and which have no provider at all
+export const describeVariableSources = (endpoint: Endpoint, endpoints: Endpoint[]) => {
+  const references = getVariableReferences(endpoint.url, endpoint.headers, endpoint.body);
+  const position = endpoints.findIndex(other => other.id === endpoint.id);
+  const earlier = position < 0 ? endpoints : endpoints.slice(0, position);
+  return references.map((name) => {
+    const provider = [...earlier].reverse().find(other => (other.extractors || []).some(extractor => extractor.name === name));
+    return { name, provider: provider?.name };
+  });
+};
+
+// First configuration mistake that would make an extractor fail on every run, if any
+export const getExtractorProblem = (extractors: Extractor[]) => {
+  const names = new Set<string>();
+  for (const extractor of extractors) {
+    if (!VARIABLE_NAME_PATTERN.test(extractor.name)) {
+      return `Variable name "${extractor.name}" must start with a letter or underscore and contain only letters, digits, _, . or -`;
+    }
+    if (names.has(extractor.name)) return `Variable "${extractor.name}" is extracted twice`;
+    names.add(extractor.name);
+    if (!extractor.expression.trim()) return `Extractor "${extractor.name}" needs an expression`;
+    if (extractor.source === 'jsonPath' && !extractor.expression.trim().startsWith('$')) {
+      return `JSONPath "${extractor.expression}" must start with $`;
+    }
+    if (extractor.source === 'regex') {
+      try {
+        new RegExp(extractor.expression);
+      } catch (error) {
+        return `"${extractor.expression}" is not a valid regular expression`;
+      }
+    }
+  }
+  return null;
+};
@@ -0,0 +1,75 @@
+// {{secret:name}} references and credential masking; free of storage and UI so the scan engine can run anywhere
+export const MASK = '••••••••';
+
+export const SECRET_REFERENCE = /\{\{secret:([\w.-]+)\}\}/g;
+const ONLY_SECRET_REFERENCE = /^\{\{secret:[\w.-]+\}\}$/;
+
+// Substitutes every {{secret:name}} in the texts; also returns the plaintext values so they can be redacted later
+export type SecretResolver = <T extends (string | undefined)[]>(...texts: T) => Promise<{ texts: T; values: string[] }>;
+
+export class SecretResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretResolutionError';
+  }
+}
+
+export const getSecretReferences = (text?: string) =>
+  [...new Set([...(text || '').matchAll(SECRET_REFERENCE)].map(match => match[1]))];
+
+export const hasSecretReferences = (text?: string) => getSecretReferences(text).length > 0;
+
+// Used when no secret store was provided: texts without references pass, anything else fails
+export const rejectSecretReferences: SecretResolver = async (...texts) => {
+  const names = getSecretReferences(texts.join('\n'));
+  if (names.length > 0) {
+    throw new SecretResolutionError(`No secret store available to resolve ${names.map(name => `{{secret:${name}}}`).join(', ')}`);
+  }
+  return { texts, values: [] };
+};
+
+// Blanks out resolved secret values, e.g. when a server echoes a token back in its response
+export const redactSecretValues = (text: string, values: string[]) =>
+  values.filter(Boolean).reduce((current, value) => current.split(value).join(MASK), text);
+
+// Header or body fields whose names suggest a credential
+const CREDENTIAL_FIELD = /("[^"]*(?:authorization|api[-_]?key|token|secret|password|passwd|cookie|session)[^"]*"\s*:\s*")((?:[^"\\]|\\.)*)(")/gi;
+const AUTH_SCHEME = /^(Bearer|Basic|Digest|Token)\s+/i;
+// Header names that carry a credential, e.g. Authorization, Cookie, X-Api-Key or X-Auth-Token
+const CREDENTIAL_HEADER = /authorization|api[-_]?key|[-_]key$|token|secret|password|passwd|cookie|session/i;
+
+const maskCredential = (value: string) => {
+  if (!value || ONLY_SECRET_REFERENCE.test(value.replace(AUTH_SCHEME, ''))) return value;
+  const scheme = value.match(AUTH_SCHEME)?.[0] || '';
+  return `${scheme}${MASK}`;
+};
+
+// For display and exports: hides literal credentials, leaving {{secret:...}} references readable
+export const maskSecrets = (text?: string) =>
+  (text || '').replace(CREDENTIAL_FIELD, (_, prefix: string, value: string, suffix: string) =>
+    `${prefix}${maskCredential(value)}${suffix}`);
+
+// For headers as sent, e.g. request evidence stored with a finding
+export const maskCredentialHeaders = (headers: Record<string, string>) =>
+  Object.fromEntries(Object.entries(headers).map(([name, value]) => [name, CREDENTIAL_HEADER.test(name) ? maskCredential(value) : value]));
+
+// True when credentials are pasted in plain text instead of referenced from the vault
+export const hasLiteralCredentials = (text?: string) => maskSecrets(text) !== (text || '');
+
+// Auth profile fields that hold a credential; names, URLs and ids stay readable
+const AUTH_PROFILE_SECRET_FIELDS = ['password', 'token', 'apiKeyValue', 'clientSecret', 'hmacSecret'] as const;
+
+type AuthProfileSecrets = Partial<Record<typeof AUTH_PROFILE_SECRET_FIELDS[number] | 'loginHeaders' | 'loginBody', string>>;
+
+export const maskAuthProfileSecrets = <T extends AuthProfileSecrets>(profile: T): T => ({
+  ...profile,
+  ...Object.fromEntries(AUTH_PROFILE_SECRET_FIELDS.filter(field => profile[field]).map(field => [field, maskCredential(profile[field]!)])),
+  loginHeaders: profile.loginHeaders && maskSecrets(profile.loginHeaders),
+  loginBody: profile.loginBody && maskSecrets(profile.loginBody),
+});
+
+export const maskEndpointSecrets = <T extends { headers?: string; body?: string }>(endpoint: T): T => ({
+  ...endpoint,
+  headers: endpoint.headers && maskSecrets(endpoint.headers),
+  body: endpoint.body && maskSecrets(endpoint.body),
+});
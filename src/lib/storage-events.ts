@@ -0,0 +1,76 @@
+// Change notifications for persisted data, propagated to every open tab
+
+const CHANNEL_NAME = 'vulnscan-storage';
+// Fallback transport for browsers without BroadcastChannel: `storage` events on this key
+const FALLBACK_EVENT_KEY = 'vulnscan-storage-event';
+
+// `upserted` carries the records an append wrote, so listeners can merge them instead of reloading the collection
+type StorageListener = (key: string, upserted?: unknown[]) => void;
+
+interface StorageMessage {
+  key: string;
+  upserted?: unknown[];
+}
+
+const listeners = new Set<StorageListener>();
+let channel: BroadcastChannel | null = null;
+let transportReady = false;
+
+const emit = ({ key, upserted }: StorageMessage) => {
+  listeners.forEach(listener => {
+    try {
+      listener(key, upserted);
+    } catch (error) {
+      console.error('Storage listener failed:', error);
+    }
+  });
+};
+
+const setupTransport = () => {
+  if (transportReady) return;
+  transportReady = true;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<StorageMessage>) => emit(event.data);
+    return;
+  }
+
+  window.addEventListener('storage', (event) => {
+    if (event.key !== FALLBACK_EVENT_KEY || !event.newValue) return;
+    try {
+      emit({ key: JSON.parse(event.newValue).key });
+    } catch (error) {
+      console.error('Invalid storage event payload:', error);
+    }
+  });
+};
+
+// Called by the storage layer after every committed write
+export const notifyStorageChange = (key: string, upserted?: unknown[]) => {
+  setupTransport();
+  emit({ key, upserted });
+
+  if (channel) {
+    channel.postMessage({ key, upserted });
+  } else {
+    // Records are left out here: localStorage is small, so other tabs reload instead
+    try {
+      localStorage.setItem(FALLBACK_EVENT_KEY, JSON.stringify({ key, at: Date.now() }));
+    } catch (error) {
+      console.error('Error broadcasting storage change:', error);
+    }
+  }
+};
+
+// Subscribe to changes of the given keys (all keys when omitted); returns the unsubscribe function
+export const subscribeToStorage = (keys: string[] | null, listener: StorageListener) => {
+  setupTransport();
+  const filtered: StorageListener = (key, upserted) => {
+    if (!keys || keys.includes(key)) listener(key, upserted);
+  };
+  listeners.add(filtered);
+  return () => {
+    listeners.delete(filtered);
+  };
+};
@@ -1,31 +1,212 @@
-// JSON file storage utilities for vulnerability testing suite
+// Persistent storage utilities for vulnerability testing suite (IndexedDB backed)
+import { toast } from 'sonner';
+import {
+  COLLECTIONS,
+  SETTINGS_STORE,
+  StorageQuotaError,
+  isCollection,
+  isQuotaError,
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+} from './db';
+import { SchemaVersionError } from './migrations';
+import { notifyStorageChange } from './storage-events';
 
-export const getStoredData = (key: string, defaultValue: any = null) => {
+export { StorageQuotaError };
+
+let schemaVersionReported = false;
+
+const reportSchemaVersionError = (error: SchemaVersionError) => {
+  if (schemaVersionReported) return;
+  schemaVersionReported = true;
+  toast.error('Workspace was saved by a newer version', {
+    description: `${error.message}. Data is left untouched; please update the application.`,
+    duration: 15000
+  });
+};
+
+const reportSaveError = (key: string, error: unknown) => {
+  if (error instanceof SchemaVersionError) {
+    reportSchemaVersionError(error);
+    return;
+  }
+  if (isQuotaError(error)) {
+    const quotaError = new StorageQuotaError(key);
+    console.error(quotaError.message, error);
+    toast.error('Storage quota exceeded', {
+      description: `Could not save ${key}. Export and clear old test results or projects to free up space.`,
+      duration: 10000
+    });
+    return;
+  }
+  console.error(`Error saving ${key}:`, error);
+  toast.error(`Failed to save ${key}`, {
+    description: error instanceof Error ? error.message : String(error)
+  });
+};
+
+export const getStoredData = async <T,>(key: string, defaultValue: T): Promise<T> => {
   try {
-    const stored = localStorage.getItem(key);
-    return stored ? JSON.parse(stored) : defaultValue;
+    const db = await openDatabase();
+    const storeName = isCollection(key) ? key : SETTINGS_STORE;
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    if (isCollection(key)) {
+      const orderBy = COLLECTIONS[key].orderBy;
+      const stored = await requestToPromise(orderBy ? store.index(orderBy).getAll() : store.getAll());
+      return stored.length > 0 ? stored as T : defaultValue;
+    }
+    const stored = await requestToPromise(store.get(key));
+    return stored === undefined ? defaultValue : stored as T;
   } catch (error) {
+    if (error instanceof SchemaVersionError) reportSchemaVersionError(error);
     console.error(`Error retrieving ${key}:`, error);
     return defaultValue;
   }
 };
 
-export const saveStoredData = (key: string, data: any) => {
+// Read only the records matching one value of a collection index
+export const getStoredDataByIndex = async <T,>(key: string, index: string, value: string): Promise<T[]> => {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(key, 'readonly').objectStore(key);
+    const records = await requestToPromise(store.index(index).getAll(value)) as T[];
+    const orderBy = COLLECTIONS[key].orderBy;
+    return orderBy
+      ? records.sort((a, b) =>
+        String((a as Record<string, unknown>)[orderBy]).localeCompare(String((b as Record<string, unknown>)[orderBy])))
+      : records;
+  } catch (error) {
+    console.error(`Error retrieving ${key} by ${index}:`, error);
+    return [];
+  }
+};
+
+export const getStoredDataByProject = <T,>(key: string, projectId: string) =>
+  getStoredDataByIndex<T>(key, 'projectId', projectId);
+
+// Replaces the whole value stored under key; collections are rewritten record by record
+export const saveStoredData = async (key: string, data: unknown): Promise<boolean> => {
+  try {
+    const db = await openDatabase();
+    if (isCollection(key)) {
+      const transaction = db.transaction(key, 'readwrite');
+      const store = transaction.objectStore(key);
+      store.clear();
+      ((data as unknown[]) || []).forEach(record => store.put(record));
+      await transactionDone(transaction);
+    } else {
+      const transaction = db.transaction(SETTINGS_STORE, 'readwrite');
+      transaction.objectStore(SETTINGS_STORE).put(data, key);
+      await transactionDone(transaction);
+    }
+    notifyStorageChange(key);
+    return true;
+  } catch (error) {
+    reportSaveError(key, error);
+    return false;
+  }
+};
+
+// Adds or updates individual records without re-serializing the whole collection
+export const appendStoredData = async (key: string, records: unknown[]): Promise<boolean> => {
+  if (!isCollection(key)) {
+    throw new Error(`${key} is not a record collection`);
+  }
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(key, 'readwrite');
+    const store = transaction.objectStore(key);
+    records.forEach(record => store.put(record));
+    await transactionDone(transaction);
+    notifyStorageChange(key, records);
+    return true;
+  } catch (error) {
+    reportSaveError(key, error);
+    return false;
+  }
+};
+
+// Applies appended records to an in-memory copy of a collection in the order getStoredData returns
+export const mergeStoredRecords = <T,>(key: string, current: T[], upserted: T[]): T[] => {
+  const { keyPath, orderBy } = COLLECTIONS[key];
+  const field = (record: T, name: string) => (record as Record<string, unknown>)[name];
+  const byOrder = (a: T, b: T) => String(field(a, orderBy)).localeCompare(String(field(b, orderBy)));
+  const ids = new Set(upserted.map(record => field(record, keyPath)));
+  const kept = current.filter(record => !ids.has(field(record, keyPath)));
+  if (!orderBy) return [...kept, ...upserted];
+
+  // New results and runs sort after everything stored, so the common case needs no full sort
+  const added = [...upserted].sort(byOrder);
+  const last = kept[kept.length - 1];
+  return !last || byOrder(last, added[0]) <= 0 ? [...kept, ...added] : [...kept, ...added].sort(byOrder);
+};
+
+export const deleteStoredRecords = async (key: string, ids: string[]): Promise<boolean> => {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(key, 'readwrite');
+    const store = transaction.objectStore(key);
+    ids.forEach(id => store.delete(id));
+    await transactionDone(transaction);
+    notifyStorageChange(key);
+    return true;
+  } catch (error) {
+    console.error(`Error deleting from ${key}:`, error);
+    return false;
+  }
+};
+
+export interface CollectionChange {
+  put?: unknown[];
+  delete?: string[];
+}
+
+// Applies puts and deletes across several collections in one transaction, so they all land or none do
+export const applyStoredChanges = async (changes: Record<string, CollectionChange>): Promise<boolean> => {
+  const keys = Object.keys(changes);
+  const invalid = keys.find(key => !isCollection(key));
+  if (invalid) {
+    throw new Error(`${invalid} is not a record collection`);
+  }
+  if (keys.length === 0) return true;
   try {
-    localStorage.setItem(key, JSON.stringify(data));
+    const db = await openDatabase();
+    const transaction = db.transaction(keys, 'readwrite');
+    keys.forEach(key => {
+      const store = transaction.objectStore(key);
+      (changes[key].delete || []).forEach(id => store.delete(id));
+      (changes[key].put || []).forEach(record => store.put(record));
+    });
+    await transactionDone(transaction);
+    keys.forEach(key => notifyStorageChange(key));
+    return true;
   } catch (error) {
-    console.error(`Error saving ${key}:`, error);
+    reportSaveError(keys.join(', '), error);
+    return false;
   }
 };
 
-export const removeStoredData = (key: string) => {
+export const removeStoredData = async (key: string) => {
   try {
-    localStorage.removeItem(key);
+    const db = await openDatabase();
+    const storeName = isCollection(key) ? key : SETTINGS_STORE;
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    if (isCollection(key)) {
+      store.clear();
+    } else {
+      store.delete(key);
+    }
+    await transactionDone(transaction);
+    notifyStorageChange(key);
   } catch (error) {
     console.error(`Error removing ${key}:`, error);
   }
 };
 
+export const STORAGE_COLLECTIONS = Object.keys(COLLECTIONS);
+
 // Export data to JSON file with project context
 export const exportToJSON = (data: any, filename: string, projectName?: string) => {
   // Add project name to the exported data
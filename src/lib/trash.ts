@@ -0,0 +1,150 @@
+// Trash bin for deleted projects and endpoints, cascading deletes and orphan cleanup
+import { Endpoint, PortScan, Project, RunStat, ScanRun, TestResult, TrashEntry, TrashPayload } from './models';
+import { CollectionChange, applyStoredChanges, getStoredData, getStoredDataByProject } from './storage';
+
+// Collections whose records belong to a project through their projectId
+const PROJECT_DATA_KEYS = ['endpoints', 'testResults', 'scanRuns', 'portScans', 'runStats'] as const;
+
+type ProjectDataKey = typeof PROJECT_DATA_KEYS[number];
+type ProjectData = Pick<TrashPayload, ProjectDataKey>;
+
+export class TrashRestoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrashRestoreError';
+  }
+}
+
+const emptyPayload = (): TrashPayload => ({
+  projects: [],
+  endpoints: [],
+  testResults: [],
+  scanRuns: [],
+  portScans: [],
+  runStats: [],
+});
+
+const getIds = (records: { id?: string }[]) => records.map(record => record.id);
+
+const getProjectData = async (projectId: string): Promise<ProjectData> => ({
+  endpoints: await getStoredDataByProject<Endpoint>('endpoints', projectId),
+  testResults: await getStoredDataByProject<TestResult>('testResults', projectId),
+  scanRuns: await getStoredDataByProject<ScanRun>('scanRuns', projectId),
+  portScans: await getStoredDataByProject<PortScan>('portScans', projectId),
+  runStats: await getStoredDataByProject<RunStat>('runStats', projectId),
+});
+
+// Rewrites the owning project of every record; runs also carry it in their config
+const reassignChanges = (data: ProjectData, projectId: string): Record<string, CollectionChange> => ({
+  endpoints: { put: data.endpoints.map(endpoint => ({ ...endpoint, projectId })) },
+  testResults: { put: data.testResults.map(result => ({ ...result, projectId })) },
+  scanRuns: { put: data.scanRuns.map(run => ({ ...run, projectId, config: { ...run.config, projectId } })) },
+  portScans: { put: data.portScans.map(scan => ({ ...scan, projectId })) },
+  runStats: { put: data.runStats.map(stat => ({ ...stat, projectId })) },
+});
+
+const createEntry = (kind: TrashEntry['kind'], label: string, projectId: string, payload: TrashPayload): TrashEntry => ({
+  id: `trash_${Date.now()}`,
+  kind,
+  label,
+  projectId,
+  deletedAt: new Date().toISOString(),
+  payload,
+});
+
+export const countTrashedRecords = (payload: TrashPayload) => ({
+  endpoints: payload.endpoints.length,
+  testResults: payload.testResults.length,
+  scanRuns: payload.scanRuns.length,
+  portScans: payload.portScans.length,
+  runStats: payload.runStats.length,
+});
+
+export const getProjectDataCounts = async (projectId: string) =>
+  countTrashedRecords({ ...emptyPayload(), ...await getProjectData(projectId) });
+
+// Moves a project to the trash. Its data either goes with it, or is handed over to another project first.
+export const trashProject = async (project: Project, reassignTo?: string): Promise<boolean> => {
+  const data = await getProjectData(project.id);
+
+  if (reassignTo) {
+    const entry = createEntry('project', project.name, project.id, { ...emptyPayload(), projects: [project] });
+    return applyStoredChanges({
+      ...reassignChanges(data, reassignTo),
+      projects: { delete: [project.id] },
+      trash: { put: [entry] },
+    });
+  }
+
+  const entry = createEntry('project', project.name, project.id, { ...data, projects: [project] });
+  return applyStoredChanges({
+    projects: { delete: [project.id] },
+    endpoints: { delete: getIds(data.endpoints) },
+    testResults: { delete: getIds(data.testResults) },
+    scanRuns: { delete: getIds(data.scanRuns) },
+    portScans: { delete: getIds(data.portScans) },
+    runStats: { delete: getIds(data.runStats) },
+    trash: { put: [entry] },
+  });
+};
+
+// Results of a trashed endpoint stay in place as part of their runs' history
+export const trashEndpoint = (endpoint: Endpoint) => {
+  const entry = createEntry('endpoint', endpoint.name, endpoint.projectId, { ...emptyPayload(), endpoints: [endpoint] });
+  return applyStoredChanges({
+    endpoints: { delete: [endpoint.id] },
+    trash: { put: [entry] },
+  });
+};
+
+export const restoreTrashEntry = async (entry: TrashEntry): Promise<boolean> => {
+  if (entry.kind === 'endpoint') {
+    const projects = await getStoredData<Project[]>('projects', []);
+    if (!projects.some(project => project.id === entry.projectId)) {
+      throw new TrashRestoreError(`The project of "${entry.label}" no longer exists. Restore the project first.`);
+    }
+  }
+
+  const changes: Record<string, CollectionChange> = { trash: { delete: [entry.id] } };
+  (['projects', ...PROJECT_DATA_KEYS] as const).forEach(key => {
+    if (entry.payload[key].length > 0) {
+      changes[key] = { put: entry.payload[key] };
+    }
+  });
+  return applyStoredChanges(changes);
+};
+
+export const purgeTrashEntries = (ids: string[]) => applyStoredChanges({ trash: { delete: ids } });
+
+export interface OrphanReport extends ProjectData {
+  total: number;
+}
+
+// Records pointing at a project that no longer exists, e.g. left behind by older versions' deletes
+export const findOrphans = async (): Promise<OrphanReport> => {
+  const projectIds = new Set(getIds(await getStoredData<Project[]>('projects', [])));
+  const isOrphan = (record: { projectId: string }) => !projectIds.has(record.projectId);
+
+  const report = {
+    endpoints: (await getStoredData<Endpoint[]>('endpoints', [])).filter(isOrphan),
+    testResults: (await getStoredData<TestResult[]>('testResults', [])).filter(isOrphan),
+    scanRuns: (await getStoredData<ScanRun[]>('scanRuns', [])).filter(isOrphan),
+    portScans: (await getStoredData<PortScan[]>('portScans', [])).filter(isOrphan),
+    runStats: (await getStoredData<RunStat[]>('runStats', [])).filter(isOrphan),
+  };
+  return {
+    ...report,
+    total: PROJECT_DATA_KEYS.reduce((sum, key) => sum + report[key].length, 0),
+  };
+};
+
+export const deleteOrphans = (report: OrphanReport) => {
+  const changes: Record<string, CollectionChange> = {};
+  PROJECT_DATA_KEYS.forEach(key => {
+    changes[key] = { delete: getIds(report[key]) };
+  });
+  return applyStoredChanges(changes);
+};
+
+export const reassignOrphans = (report: OrphanReport, projectId: string) =>
+  applyStoredChanges(reassignChanges(report, projectId));
@@ -0,0 +1,155 @@
+// Passphrase-protected secret store; endpoints reference secrets as {{secret:name}}
+// Values are encrypted with AES-GCM under a PBKDF2-derived key that only lives in memory while unlocked.
+import { getSecretReferences, SECRET_REFERENCE, SecretResolver } from './secrets';
+import { getStoredData, saveStoredData } from './storage';
+
+export const VAULT_KEY = 'secretVault';
+
+const PBKDF2_ITERATIONS = 310000;
+const VERIFIER_TEXT = 'vulnscan-vault';
+
+export const SECRET_NAME_PATTERN = /^[\w.-]+$/;
+
+interface EncryptedValue {
+  iv: string;
+  data: string;
+}
+
+export interface StoredVault {
+  version: 1;
+  salt: string;
+  iterations: number;
+  // Known text encrypted with the vault key, used to check the passphrase on unlock
+  verifier: EncryptedValue;
+  secrets: Record<string, EncryptedValue & { updatedAt: string }>;
+}
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+let vaultKey: CryptoKey | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encrypt = async (key: CryptoKey, text: string): Promise<EncryptedValue> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+const decrypt = async (key: CryptoKey, value: EncryptedValue) => {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(value.iv) }, key, fromBase64(value.data));
+  return new TextDecoder().decode(data);
+};
+
+export const getVault = () => getStoredData<StoredVault | null>(VAULT_KEY, null);
+
+const requireVault = async () => {
+  const vault = await getVault();
+  if (!vault) throw new VaultError('No secret vault has been created yet');
+  return vault;
+};
+
+const requireKey = () => {
+  if (!vaultKey) throw new VaultError('The secret vault is locked');
+  return vaultKey;
+};
+
+export const isVaultUnlocked = () => vaultKey !== null;
+
+// Notified when this tab locks or unlocks the vault; returns the unsubscribe function
+export const subscribeToVault = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const createVault = async (passphrase: string) => {
+  if (await getVault()) throw new VaultError('A secret vault already exists');
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const vault: StoredVault = {
+    version: 1,
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    verifier: await encrypt(key, VERIFIER_TEXT),
+    secrets: {},
+  };
+  if (!await saveStoredData(VAULT_KEY, vault)) return false;
+  vaultKey = key;
+  notify();
+  return true;
+};
+
+export const unlockVault = async (passphrase: string) => {
+  const vault = await requireVault();
+  const key = await deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+  try {
+    if (await decrypt(key, vault.verifier) !== VERIFIER_TEXT) throw new Error('Verifier mismatch');
+  } catch {
+    throw new VaultError('Incorrect passphrase');
+  }
+  vaultKey = key;
+  notify();
+};
+
+export const lockVault = () => {
+  vaultKey = null;
+  notify();
+};
+
+export const setSecret = async (name: string, value: string) => {
+  if (!SECRET_NAME_PATTERN.test(name)) {
+    throw new VaultError('Secret names may only contain letters, digits, "_", "-" and "."');
+  }
+  const key = requireKey();
+  const vault = await requireVault();
+  const secrets = { ...vault.secrets, [name]: { ...await encrypt(key, value), updatedAt: new Date().toISOString() } };
+  return saveStoredData(VAULT_KEY, { ...vault, secrets });
+};
+
+export const deleteSecret = async (name: string) => {
+  const vault = await requireVault();
+  const secrets = { ...vault.secrets };
+  delete secrets[name];
+  return saveStoredData(VAULT_KEY, { ...vault, secrets });
+};
+
+// The vault's SecretResolver; needs the vault to be unlocked
+export const resolveSecrets: SecretResolver = async (...texts) => {
+  const names = getSecretReferences(texts.join('\n'));
+  if (names.length === 0) return { texts, values: [] as string[] };
+
+  const key = requireKey();
+  const vault = await requireVault();
+  const resolved = new Map<string, string>();
+  for (const name of names) {
+    if (!vault.secrets[name]) throw new VaultError(`Secret "${name}" is not in the vault`);
+    resolved.set(name, await decrypt(key, vault.secrets[name]));
+  }
+
+  return {
+    texts: texts.map(text => text?.replace(SECRET_REFERENCE, (_, name: string) => resolved.get(name)!)) as typeof texts,
+    values: [...resolved.values()],
+  };
+};
@@ -5,8 +5,13 @@ import { TestRunner } from '@/components/TestRunner';
 import { PortScanner } from '@/components/PortScanner';
 import { ImportExport } from '@/components/ImportExport';
 import { ProjectManager } from '@/components/ProjectManager';
+import { TrashBin } from '@/components/TrashBin';
+import { DataMaintenance } from '@/components/DataMaintenance';
+import { SecretVault } from '@/components/SecretVault';
+import { RetentionSettings } from '@/components/RetentionSettings';
+import { StorageUsage } from '@/components/StorageUsage';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Shield, Target, Network, Database, FileUp, FolderOpen } from 'lucide-react';
+import { Shield, Target, Network, Database, FileUp, FolderOpen, Archive } from 'lucide-react';
 import { toast } from 'sonner';
 
 const Index = () => {
@@ -47,7 +52,7 @@ const Index = () => {
 
       {/* Main Interface */}
       <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
-        <TabsList className="grid w-full grid-cols-6 bg-card border border-border">
+        <TabsList className="grid w-full grid-cols-7 bg-card border border-border">
           <TabsTrigger value="dashboard" className="flex items-center gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
             <Shield className="h-4 w-4" />
             Dashboard
@@ -72,6 +77,10 @@ const Index = () => {
             <FileUp className="h-4 w-4" />
             Import/Export
           </TabsTrigger>
+          <TabsTrigger value="workspace" className="flex items-center gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">
+            <Archive className="h-4 w-4" />
+            Workspace
+          </TabsTrigger>
         </TabsList>
 
         <div className="mt-6">
@@ -98,6 +107,14 @@ const Index = () => {
           <TabsContent value="import" className="space-y-6">
             <ImportExport />
           </TabsContent>
+
+          <TabsContent value="workspace" className="space-y-6">
+            <SecretVault />
+            <RetentionSettings />
+            <StorageUsage />
+            <TrashBin />
+            <DataMaintenance />
+          </TabsContent>
         </div>
       </Tabs>
     </div>